@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+/**
+ * Prints a password hash for the `passwordHash` field of config/users.json.
+ *
+ * Usage:
+ *   node scripts/hash-password.mjs <password>
+ *
+ * The password may also be piped in on stdin, which keeps it out of the
+ * shell history.
+ */
+import { randomBytes, scryptSync } from 'crypto';
+
+// verifyPassword in src/lib/auth.ts reads the salt and length back from the hash
+const KEY_LENGTH = 64;
+
+async function readStdin() {
+  let raw = '';
+  for await (const chunk of process.stdin) raw += chunk;
+  return raw.replace(/\r?\n$/, '');
+}
+
+async function main() {
+  const password = process.argv[2] ?? (process.stdin.isTTY ? '' : await readStdin());
+
+  if (!password) {
+    console.error('Usage: node scripts/hash-password.mjs <password>');
+    process.exit(1);
+  }
+
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, KEY_LENGTH);
+  console.log(`scrypt$${salt.toString('base64')}$${hash.toString('base64')}`);
+}
+
+main();
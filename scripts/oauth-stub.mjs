@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+/**
+ * A stand-in for GitHub's OAuth endpoints, to try GitHub sign-in locally
+ * without registering an OAuth app.
+ *
+ * Usage:
+ *   node scripts/oauth-stub.mjs [port]
+ *
+ * Then start the dashboard with:
+ *   GITHUB_OAUTH_URL=http://localhost:4010
+ *   GITHUB_OAUTH_API_URL=http://localhost:4010
+ *   GITHUB_CLIENT_ID=stub
+ *   GITHUB_CLIENT_SECRET=stub
+ *
+ * "Sign in with GitHub" then asks which GitHub login to sign in as. Nothing
+ * is checked, so never point a real deployment at it.
+ */
+import { createServer } from 'http';
+import { randomBytes } from 'crypto';
+
+const DEFAULT_PORT = 4010;
+
+// code -> login, and access token -> login, for this process only
+const codes = new Map();
+const tokens = new Map();
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function sendJson(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+async function readBody(request) {
+  let raw = '';
+  for await (const chunk of request) raw += chunk;
+
+  // The dashboard sends JSON; other clients send a form like GitHub accepts
+  if ((request.headers['content-type'] || '').includes('application/json')) {
+    return JSON.parse(raw || '{}');
+  }
+  return Object.fromEntries(new URLSearchParams(raw));
+}
+
+function renderAuthorize(params) {
+  const hidden = ['redirect_uri', 'state']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) || '')}">`)
+    .join('');
+
+  return `<!doctype html>
+<title>OAuth stub</title>
+<form action="/login/oauth/approve" method="get" style="font-family: sans-serif; margin: 4rem auto; max-width: 320px">
+  <h1 style="font-size: 1.2rem">Sign in as which GitHub user?</h1>
+  ${hidden}
+  <input name="login" placeholder="octocat" required autofocus style="width: 100%; padding: 0.5rem">
+  <button style="margin-top: 1rem; padding: 0.5rem 1rem">Authorize</button>
+</form>`;
+}
+
+async function handle(request, response) {
+  const url = new URL(request.url, 'http://localhost');
+
+  if (request.method === 'GET' && url.pathname === '/login/oauth/authorize') {
+    if (!url.searchParams.get('redirect_uri')) {
+      return sendJson(response, 400, { error: 'redirect_uri is required' });
+    }
+    response.writeHead(200, { 'Content-Type': 'text/html' });
+    return response.end(renderAuthorize(url.searchParams));
+  }
+
+  if (request.method === 'GET' && url.pathname === '/login/oauth/approve') {
+    const login = url.searchParams.get('login')?.trim();
+    const redirectUri = url.searchParams.get('redirect_uri');
+    if (!login || !redirectUri) {
+      return sendJson(response, 400, { error: 'login and redirect_uri are required' });
+    }
+
+    const code = randomBytes(10).toString('hex');
+    codes.set(code, login);
+
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', code);
+    target.searchParams.set('state', url.searchParams.get('state') || '');
+    response.writeHead(302, { Location: target.toString() });
+    return response.end();
+  }
+
+  if (request.method === 'POST' && url.pathname === '/login/oauth/access_token') {
+    const body = await readBody(request);
+    const login = codes.get(body.code);
+    if (!login) {
+      return sendJson(response, 200, { error: 'bad_verification_code', error_description: 'The code passed is incorrect or expired.' });
+    }
+
+    codes.delete(body.code);
+    const token = `stub_${randomBytes(16).toString('hex')}`;
+    tokens.set(token, login);
+    return sendJson(response, 200, { access_token: token, token_type: 'bearer', scope: '' });
+  }
+
+  if (request.method === 'GET' && url.pathname === '/user') {
+    const token = (request.headers.authorization || '').replace(/^(Bearer|token) /i, '');
+    const login = tokens.get(token);
+    if (!login) {
+      return sendJson(response, 401, { message: 'Bad credentials' });
+    }
+    return sendJson(response, 200, { login, id: login.length, type: 'User' });
+  }
+
+  sendJson(response, 404, { message: 'Not Found' });
+}
+
+const port = parseInt(process.argv[2] || '', 10) || DEFAULT_PORT;
+
+createServer((request, response) => {
+  handle(request, response).catch(error => {
+    console.error(error);
+    sendJson(response, 500, { error: 'stub_error' });
+  });
+}).listen(port, () => {
+  console.log(`OAuth stub listening on http://localhost:${port}`);
+});
@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+/**
+ * Replays a GitHub webhook fixture against a running dashboard.
+ *
+ * Usage:
+ *   node --env-file=.env.local scripts/replay-webhook.mjs <fixture> [url]
+ *
+ * <fixture> is a file name in scripts/fixtures/webhooks without the .json
+ * extension, e.g. `issues.labeled`. The event name is taken from the part
+ * before the first dot. Payloads are re-targeted at GITHUB_OWNER/GITHUB_REPO
+ * and signed with GITHUB_WEBHOOK_SECRET, exactly as GitHub would.
+ */
+import { createHmac, randomUUID } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'webhooks');
+const DEFAULT_URL = 'http://localhost:3000/api/webhooks/github';
+
+function listFixtures() {
+  return readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.replace(/\.json$/, ''));
+}
+
+async function main() {
+  const [fixture, url = DEFAULT_URL] = process.argv.slice(2);
+
+  if (!fixture) {
+    console.error('Usage: node scripts/replay-webhook.mjs <fixture> [url]');
+    console.error(`Fixtures: ${listFixtures().join(', ')}`);
+    process.exit(1);
+  }
+
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('GITHUB_WEBHOOK_SECRET environment variable is required');
+    process.exit(1);
+  }
+
+  const payload = JSON.parse(readFileSync(path.join(FIXTURES_DIR, `${fixture}.json`), 'utf8'));
+
+  // Point the fixture at the configured repository so it is not ignored
+  const { GITHUB_OWNER: owner, GITHUB_REPO: repo } = process.env;
+  if (owner && repo && payload.repository) {
+    payload.repository.name = repo;
+    payload.repository.full_name = `${owner}/${repo}`;
+    payload.repository.owner = { ...payload.repository.owner, login: owner };
+  }
+
+  const body = JSON.stringify(payload);
+  const signature = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+  const eventName = fixture.split('.')[0];
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-GitHub-Event': eventName,
+      'X-GitHub-Delivery': randomUUID(),
+      'X-Hub-Signature-256': signature,
+    },
+    body,
+  });
+
+  console.log(`${response.status} ${response.statusText}`);
+  console.log(JSON.stringify(await response.json(), null, 2));
+
+  if (!response.ok) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,366 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+
+type TemplateName = 'scope' | 'execute' | 'ci-fix' | 'review-response';
+
+interface TemplateVersion {
+  name: TemplateName;
+  version: number;
+  body: string;
+  note?: string;
+  created_at?: string;
+  usage: {
+    sessions: number;
+    finished: number;
+    failed: number;
+    merged: number;
+  };
+}
+
+interface TemplateDetails {
+  name: TemplateName;
+  variables: Record<string, string>;
+  versions: TemplateVersion[];
+}
+
+interface PlaybookInfo {
+  source: 'repo' | 'local';
+  path: string;
+  revision: string;
+}
+
+interface Repository {
+  full_name: string;
+}
+
+interface Preview {
+  prompt: string;
+  length: number;
+  unknown_variables: string[];
+}
+
+const TEMPLATE_LABELS: Record<TemplateName, string> = {
+  scope: '🔍 Scope',
+  execute: '🚀 Execute',
+  'ci-fix': '🔧 Fix CI',
+  'review-response': '💬 Address review',
+};
+
+function formatTimestamp(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function PromptTemplatesPage() {
+  const [name, setName] = useState<TemplateName>('scope');
+  const [details, setDetails] = useState<TemplateDetails | null>(null);
+  const [draft, setDraft] = useState('');
+  const [note, setNote] = useState('');
+  const [loadedVersion, setLoadedVersion] = useState<number | null>(null);
+  const [repositories, setRepositories] = useState<Repository[]>([]);
+  // Previews and the playbook use this repository; empty for the default one
+  const [repo, setRepo] = useState('');
+  const [issueNumber, setIssueNumber] = useState('');
+  const [clarifications, setClarifications] = useState('');
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // undefined while loading, null when the repo has no playbook
+  const [playbook, setPlaybook] = useState<PlaybookInfo | null | undefined>(undefined);
+
+  const loadTemplate = useCallback(async (templateName: TemplateName) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/prompts/${templateName}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load template');
+      }
+
+      setDetails(data);
+      setDraft(data.versions[0].body);
+      setLoadedVersion(data.versions[0].version);
+      setPreview(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load template');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplate(name);
+  }, [name, loadTemplate]);
+
+  useEffect(() => {
+    fetch('/api/repos')
+      .then(response => response.json())
+      .then(data => setRepositories(data.repositories || []))
+      .catch(() => setRepositories([]));
+  }, []);
+
+  useEffect(() => {
+    setPlaybook(undefined);
+    fetch(repo ? `/api/playbook?repo=${encodeURIComponent(repo)}` : '/api/playbook')
+      .then(response => response.json())
+      .then(data => setPlaybook(data.playbook ?? null))
+      .catch(() => setPlaybook(null));
+  }, [repo]);
+
+  const activeVersion = details?.versions[0];
+  const isDirty = details !== null && draft !== details.versions.find(v => v.version === loadedVersion)?.body;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/prompts/${name}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: draft, note }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save template');
+      }
+
+      setNote('');
+      await loadTemplate(name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/prompts/${name}/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          repo: repo || undefined,
+          issueNumber: parseInt(issueNumber, 10),
+          body: draft,
+          clarifications: clarifications.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to preview template');
+      }
+
+      setPreview(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview template');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleLoadVersion = (version: TemplateVersion) => {
+    setDraft(version.body);
+    setLoadedVersion(version.version);
+    setPreview(null);
+  };
+
+  return (
+    <div className="container">
+      <header className="header">
+        <div className="header-content">
+          <h1>📝 Prompt Templates</h1>
+          <p className="subtitle">Edit the prompts new Devin sessions start with</p>
+        </div>
+        <Link href="/" className="refresh-button">
+          ← Dashboard
+        </Link>
+      </header>
+
+      <main className="main">
+        <div className="state-toggle prompt-tabs">
+          {(Object.keys(TEMPLATE_LABELS) as TemplateName[]).map(templateName => (
+            <button
+              key={templateName}
+              className={`state-toggle-button ${name === templateName ? 'active' : ''}`}
+              onClick={() => setName(templateName)}
+            >
+              {TEMPLATE_LABELS[templateName]}
+            </button>
+          ))}
+        </div>
+
+        {error && <div className="prompt-error">{error}</div>}
+
+        {details && activeVersion && (
+          <div className="prompt-layout">
+            <section className="prompt-editor">
+              <div className="prompt-editor-header">
+                <span>
+                  Editing {loadedVersion === activeVersion.version ? 'active version' : 'version'} {loadedVersion}
+                  {isDirty && <span className="prompt-dirty"> • unsaved changes</span>}
+                </span>
+                {loadedVersion !== activeVersion.version && (
+                  <button className="timeline-button" onClick={() => handleLoadVersion(activeVersion)}>
+                    Back to active
+                  </button>
+                )}
+              </div>
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="prompt-textarea"
+                spellCheck={false}
+              />
+              <div className="prompt-save">
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="What changed? (optional)"
+                  className="search-input"
+                />
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving || draft === activeVersion.body}
+                  className="action-button execute-button"
+                >
+                  {isSaving ? 'Saving...' : `Save as version ${activeVersion.version + 1}`}
+                </button>
+              </div>
+
+              <div className="prompt-preview-controls">
+                {repositories.length > 1 && (
+                  <select
+                    value={repo || repositories[0].full_name}
+                    onChange={(e) => setRepo(e.target.value)}
+                    className="label-select"
+                    aria-label="Repository"
+                  >
+                    {repositories.map(repository => (
+                      <option key={repository.full_name} value={repository.full_name}>
+                        {repository.full_name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <input
+                  type="number"
+                  min={1}
+                  value={issueNumber}
+                  onChange={(e) => setIssueNumber(e.target.value)}
+                  placeholder="Issue #"
+                  className="search-input prompt-issue-input"
+                />
+                {name === 'execute' && (
+                  <input
+                    type="text"
+                    value={clarifications}
+                    onChange={(e) => setClarifications(e.target.value)}
+                    placeholder="Clarifications (optional)"
+                    className="search-input"
+                  />
+                )}
+                <button
+                  onClick={handlePreview}
+                  disabled={isPreviewing || !issueNumber}
+                  className="action-button scope-button"
+                >
+                  {isPreviewing ? 'Rendering...' : 'Preview'}
+                </button>
+              </div>
+
+              {preview && (
+                <div className="prompt-preview">
+                  <div className="prompt-preview-meta">
+                    {preview.length.toLocaleString()} characters
+                    {preview.unknown_variables.length > 0 && (
+                      <span className="prompt-error-inline">
+                        {' '}• unknown: {preview.unknown_variables.join(', ')}
+                      </span>
+                    )}
+                  </div>
+                  <pre className="prompt-preview-body">{preview.prompt}</pre>
+                </div>
+              )}
+            </section>
+
+            <aside className="prompt-sidebar">
+              <h3 className="prompt-sidebar-title">Variables</h3>
+              <ul className="prompt-variables">
+                {Object.entries(details.variables).map(([variable, description]) => (
+                  <li key={variable}>
+                    <code>{`{{${variable}}}`}</code>
+                    <span>{description}</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="prompt-hint">
+                Wrap text in <code>{'{{#name}}…{{/name}}'}</code> to include it only when the variable is set.
+              </p>
+
+              <h3 className="prompt-sidebar-title">Playbook</h3>
+              <p className="prompt-hint">
+                {playbook === undefined && 'Loading...'}
+                {playbook === null && (
+                  <>No playbook. Add <code>.devin/playbook.md</code> to the repository, or a local override at <code>config/playbook.md</code> (<code>playbookPath</code> in <code>config/repos.json</code>).</>
+                )}
+                {playbook && (
+                  <>
+                    Appended to every prompt from <code>{playbook.path}</code>
+                    {playbook.source === 'local' ? ' (local override)' : ''} at revision{' '}
+                    <code>{playbook.revision.slice(0, 7)}</code>.
+                  </>
+                )}
+              </p>
+
+              <h3 className="prompt-sidebar-title">Versions</h3>
+              <ul className="prompt-versions">
+                {details.versions.map(version => (
+                  <li
+                    key={version.version}
+                    className={`prompt-version ${version.version === loadedVersion ? 'selected' : ''}`}
+                  >
+                    <div className="prompt-version-header">
+                      <strong>v{version.version}</strong>
+                      {version.version === activeVersion.version && (
+                        <span className="timeline-selected-badge">Active</span>
+                      )}
+                      <span className="timeline-entry-meta">
+                        {version.created_at ? formatTimestamp(version.created_at) : 'built-in'}
+                      </span>
+                      <button className="timeline-button" onClick={() => handleLoadVersion(version)}>
+                        Load
+                      </button>
+                    </div>
+                    {version.note && <p className="prompt-version-note">{version.note}</p>}
+                    <p className="prompt-version-usage">
+                      {version.usage.sessions} session{version.usage.sessions === 1 ? '' : 's'}
+                      {version.usage.sessions > 0 && (
+                        <> • {version.usage.finished} finished • {version.usage.failed} failed
+                          {name !== 'scope' && <> • {version.usage.merged} merged</>}
+                        </>
+                      )}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </aside>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exportAuditLog, parseAuditFilter } from '@/lib/auditLog';
+
+/**
+ * Downloads the audit entries matching the same filters as `/api/audit`,
+ * as JSON lines, oldest first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const body = await exportAuditLog(parseAuditFilter(new URL(request.url).searchParams));
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-${date}.jsonl"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting audit log:', error);
+    return NextResponse.json(
+      { error: 'Failed to export audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listAuditEntries, parseAuditFilter } from '@/lib/auditLog';
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+/**
+ * Audit entries, newest first, filtered by `action`, `actor`, `repo`,
+ * `issue`, `session`, `since` and `until`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const limit = parseInt(params.get('limit') || '', 10);
+
+    const { entries, total } = await listAuditEntries(
+      parseAuditFilter(params),
+      Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT
+    );
+
+    return NextResponse.json({ entries, total });
+  } catch (error) {
+    console.error('Error listing audit entries:', error);
+    return NextResponse.json(
+      { error: 'Failed to list audit entries' },
+      { status: 500 }
+    );
+  }
+}
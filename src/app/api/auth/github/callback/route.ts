@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateGitHubUser,
+  createSessionToken,
+  getSessionCookieOptions,
+  safeRedirectPath,
+  SESSION_COOKIE,
+} from '@/lib/auth';
+import { getGitHubLogin, OAUTH_STATE_COOKIE } from '@/lib/githubOAuth';
+
+function parseStateCookie(value: string | undefined): { state?: string; next?: string } {
+  try {
+    return value ? JSON.parse(value) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Where GitHub sends people back to after they approve sign-in. Failures go
+ * back to the login page with the reason.
+ */
+export async function GET(request: NextRequest) {
+  const failed = (message: string) => {
+    const response = NextResponse.redirect(new URL(`/login?error=${encodeURIComponent(message)}`, request.url));
+    response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/github' });
+    return response;
+  };
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const code = params.get('code');
+    const { state, next } = parseStateCookie(request.cookies.get(OAUTH_STATE_COOKIE)?.value);
+
+    if (params.get('error')) {
+      return failed(params.get('error_description') || 'GitHub sign-in was cancelled');
+    }
+
+    if (!code || !state || params.get('state') !== state) {
+      return failed('GitHub sign-in expired. Please try again.');
+    }
+
+    const githubLogin = await getGitHubLogin(code, `${request.nextUrl.origin}/api/auth/github/callback`);
+    const user = await authenticateGitHubUser(githubLogin);
+    if (!user) {
+      return failed(`GitHub account ${githubLogin} is not allowed to use this dashboard`);
+    }
+
+    const response = NextResponse.redirect(new URL(safeRedirectPath(next), request.url));
+    response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/github' });
+    response.cookies.set(
+      SESSION_COOKIE,
+      createSessionToken('github', githubLogin),
+      getSessionCookieOptions(request.nextUrl.protocol === 'https:')
+    );
+    return response;
+  } catch (error) {
+    console.error('Error completing GitHub sign-in:', error);
+
+    return failed(
+      error instanceof Error && error.message.includes('GitHub OAuth error')
+        ? error.message
+        : 'Failed to complete GitHub sign-in'
+    );
+  }
+}
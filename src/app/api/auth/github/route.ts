@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { safeRedirectPath } from '@/lib/auth';
+import { getAuthorizeUrl, OAUTH_STATE_COOKIE } from '@/lib/githubOAuth';
+
+// Long enough to approve the app on GitHub
+const STATE_MAX_AGE_SECONDS = 10 * 60;
+
+/**
+ * Starts GitHub sign-in. `?next=/path` is where to land afterwards.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const state = randomBytes(16).toString('hex');
+    const next = safeRedirectPath(request.nextUrl.searchParams.get('next'));
+    const redirectUri = `${request.nextUrl.origin}/api/auth/github/callback`;
+
+    const response = NextResponse.redirect(getAuthorizeUrl(state, redirectUri));
+    // Checked on the way back so another site can't complete a sign-in it started
+    response.cookies.set(OAUTH_STATE_COOKIE, JSON.stringify({ state, next }), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: request.nextUrl.protocol === 'https:',
+      path: '/api/auth/github',
+      maxAge: STATE_MAX_AGE_SECONDS,
+    });
+    return response;
+  } catch (error) {
+    console.error('Error starting GitHub sign-in:', error);
+
+    const message = error instanceof Error && error.message.includes('environment variable')
+      ? 'GitHub sign-in is not set up'
+      : 'Failed to start GitHub sign-in';
+    return NextResponse.redirect(new URL(`/login?error=${encodeURIComponent(message)}`, request.url));
+  }
+}
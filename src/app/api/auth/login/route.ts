@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticatePassword,
+  createSessionToken,
+  getSessionCookieOptions,
+  SESSION_COOKIE,
+} from '@/lib/auth';
+
+/**
+ * Signs in with a local username and password from the users config.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const login = typeof body.login === 'string' ? body.login.trim() : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    if (!login || !password) {
+      return NextResponse.json(
+        { error: 'login and password are required in request body' },
+        { status: 400 }
+      );
+    }
+
+    const user = await authenticatePassword(login, password);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ user });
+    response.cookies.set(
+      SESSION_COOKIE,
+      createSessionToken('password', user.login),
+      getSessionCookieOptions(request.nextUrl.protocol === 'https:')
+    );
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('environment variable') || error.message.includes('Invalid users config')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
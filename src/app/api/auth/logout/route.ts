@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/auth';
+
+/**
+ * Signs out by clearing the session cookie.
+ */
+export async function POST() {
+  const response = NextResponse.json({ signed_out: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
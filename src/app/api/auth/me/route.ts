@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { isGitHubOAuthConfigured } from '@/lib/githubOAuth';
+
+/**
+ * The signed-in user and their role (null when signed out), and the sign-in
+ * methods the login page should offer.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+
+    return NextResponse.json({
+      user,
+      providers: {
+        github: isGitHubOAuthConfigured(),
+        password: true,
+      },
+    });
+  } catch (error) {
+    console.error('Error reading signed-in user:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('environment variable') || error.message.includes('Invalid users config')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to read signed-in user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDecisions } from '@/lib/decisionLog';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const issueParam = searchParams.get('issue');
+    const issueNumber = issueParam ? parseInt(issueParam, 10) : undefined;
+
+    if (issueNumber !== undefined && isNaN(issueNumber)) {
+      return NextResponse.json(
+        { error: 'Invalid issue number' },
+        { status: 400 }
+      );
+    }
+
+    const decisions = await listDecisions({
+      issueNumber,
+      automation: searchParams.get('automation') || undefined,
+    });
+
+    return NextResponse.json({ decisions });
+  } catch (error) {
+    console.error('Error listing automation decisions:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to list automation decisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getScopeBatch } from '@/lib/batchScope';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const { batchId } = await params;
+    const batch = await getScopeBatch(batchId);
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ batch });
+  } catch (error) {
+    console.error('Error fetching scope batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scope batch' },
+      { status: 500 }
+    );
+  }
+}
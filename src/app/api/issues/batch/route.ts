@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { listScopeBatches } from '@/lib/batchScope';
+
+export async function GET() {
+  try {
+    const batches = await listScopeBatches();
+    return NextResponse.json({ batches });
+  } catch (error) {
+    console.error('Error listing scope batches:', error);
+    return NextResponse.json(
+      { error: 'Failed to list scope batches' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createScopeBatch, type BatchIssue } from '@/lib/batchScope';
+import { requireUser } from '@/lib/auth';
+
+function isBatchIssue(value: unknown): value is BatchIssue {
+  const issue = value as BatchIssue;
+  return typeof issue?.repository === 'string' && Number.isInteger(issue?.number) && issue.number > 0;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+
+    // Parse request body
+    const body = await request.json().catch(() => ({}));
+    const { issues, terminatePrevious } = body;
+
+    if (!Array.isArray(issues) || !issues.every(isBatchIssue)) {
+      return NextResponse.json(
+        { error: 'issues must be a list of { repository, number }' },
+        { status: 400 }
+      );
+    }
+
+    const batch = await createScopeBatch(issues, {
+      terminatePrevious: terminatePrevious === true,
+      requestedBy: user.login,
+    });
+
+    return NextResponse.json({ batch }, { status: 202 });
+  } catch (error) {
+    console.error('Error creating scope batch:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+
+      if (error.message.includes('at least one issue') || error.message.includes('at most')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      if (error.message.includes('budget exceeded')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 402 }
+        );
+      }
+
+      if (error.message.includes('is not configured')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create scope batch' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,27 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { listIssues, IssueState } from '@/lib/github';
-
-const VALID_STATES: IssueState[] = ['open', 'closed', 'all'];
+import { listIssuePage, parseIssueFilters, parsePagination } from '@/lib/issueSearch';
+import { loadRepos } from '@/lib/repoConfig';
 
+/**
+ * Issues across every configured repository, most recently updated first.
+ * Each issue carries the `owner/repo` it belongs to.
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const stateParam = searchParams.get('state');
-    const state: IssueState = stateParam && VALID_STATES.includes(stateParam as IssueState)
-      ? (stateParam as IssueState)
-      : 'open';
-    
-    const issues = await listIssues(state);
-    
-    // Return issues with body snippet
-    const issuesWithSnippet = issues.map(issue => ({
-      ...issue,
-      body_snippet: issue.body 
-        ? issue.body.substring(0, 200) + (issue.body.length > 200 ? '...' : '')
-        : null,
-    }));
-    
-    return NextResponse.json({ issues: issuesWithSnippet });
+
+    const page = await listIssuePage(
+      await loadRepos(),
+      parseIssueFilters(searchParams),
+      parsePagination(searchParams)
+    );
+
+    return NextResponse.json(page);
   } catch (error) {
     console.error('Error fetching issues:', error);
     
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listLabels } from '@/lib/github';
+import { getRepoByFullName, loadRepos } from '@/lib/repoConfig';
+
+/**
+ * Labels for the issue filter: those of one repository (`?repo=owner/repo`),
+ * or of every configured repository merged by name.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const repoParam = new URL(request.url).searchParams.get('repo');
+    const repos = repoParam ? [await getRepoByFullName(repoParam)] : await loadRepos();
+
+    const byName = new Map<string, { name: string; color: string }>();
+    for (const labels of await Promise.all(repos.map(listLabels))) {
+      for (const label of labels) {
+        if (!byName.has(label.name)) byName.set(label.name, label);
+      }
+    }
+
+    const labels = Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+
+    return NextResponse.json({ labels });
+  } catch (error) {
+    console.error('Error listing labels:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('environment variable')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        );
+      }
+
+      if (error.message.includes('is not configured')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to list labels' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadPlaybook } from '@/lib/playbook';
+import { getDefaultRepo, getRepoByFullName } from '@/lib/repoConfig';
+
+/**
+ * Returns the playbook new sessions in a repository (`?repo=owner/repo`,
+ * the first configured one by default) will be started with.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const repoParam = new URL(request.url).searchParams.get('repo');
+    const repository = repoParam ? await getRepoByFullName(repoParam) : await getDefaultRepo();
+    const playbook = await loadPlaybook(repository);
+
+    return NextResponse.json({ playbook });
+  } catch (error) {
+    console.error('Error loading playbook:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('environment variable')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        );
+      }
+
+      if (error.message.includes('is not configured')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to load playbook' },
+      { status: 500 }
+    );
+  }
+}
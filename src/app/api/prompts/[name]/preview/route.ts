@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFailedChecks, getIssue, getUnresolvedReviewThreads, parsePullRequestNumber } from '@/lib/github';
+import { listSessionsForIssue, type PullRequestRecord } from '@/lib/sessionStore';
+import { buildScopePromptVariables } from '@/lib/scopeService';
+import { buildExecutePromptVariables, getActionPlanText } from '@/lib/executeService';
+import { buildFollowUpPromptVariables } from '@/lib/followUp';
+import { buildCiFixPromptVariables } from '@/lib/ciFix';
+import { buildReviewResponsePromptVariables } from '@/lib/reviewResponse';
+import { loadAutomationConfig } from '@/lib/automationConfig';
+import { appendPlaybook, loadPlaybook } from '@/lib/playbook';
+import { getDefaultRepo, getRepoByFullName } from '@/lib/repoConfig';
+import {
+  findUnknownVariables,
+  getActiveTemplate,
+  isPromptTemplateName,
+  renderTemplate,
+} from '@/lib/promptTemplates';
+
+const MISSING_PLAN = '_(This issue has no completed scope session yet; its action plan goes here.)_';
+const MISSING_PULL_REQUEST: PullRequestRecord = {
+  url: '_(pull request URL)_',
+  head_ref: 'devin/branch',
+  updated_at: '',
+};
+const MISSING_FAILURES = '_(The pull request has no failed checks right now; they go here.)_';
+const MISSING_THREADS = '_(The pull request has no unresolved review comments right now; they go here.)_';
+
+/**
+ * Renders a template (the active one, or unsaved text from the editor)
+ * against a real issue without starting a session. `repo` picks the
+ * repository the issue is in; the first configured one by default.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+
+    if (!isPromptTemplateName(name)) {
+      return NextResponse.json(
+        { error: `Unknown prompt template: ${name}` },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const issueNumber = Number(body.issueNumber);
+
+    if (!Number.isInteger(issueNumber) || issueNumber <= 0) {
+      return NextResponse.json(
+        { error: 'issueNumber is required' },
+        { status: 400 }
+      );
+    }
+
+    const templateBody = typeof body.body === 'string' ? body.body : (await getActiveTemplate(name)).body;
+    const repository = typeof body.repo === 'string' && body.repo
+      ? await getRepoByFullName(body.repo)
+      : await getDefaultRepo();
+    const issue = await getIssue(repository, issueNumber);
+
+    let variables: Record<string, string>;
+    if (name === 'scope') {
+      variables = await buildScopePromptVariables(repository, issue);
+    } else if (name === 'ci-fix' || name === 'review-response') {
+      // Preview against the PR the issue's latest execute session opened, if any
+      const pullRequest = (await listSessionsForIssue(repository, issueNumber))
+        .filter(s => s.type === 'execute' && s.pull_request?.head_ref)
+        .pop()?.pull_request;
+
+      if (name === 'ci-fix') {
+        const failures = pullRequest?.head_sha
+          ? await getFailedChecks(repository, pullRequest.head_sha, (await loadAutomationConfig()).ciFix.logLines)
+          : [];
+        variables = buildCiFixPromptVariables(failures);
+        if (failures.length === 0) variables.failures = MISSING_FAILURES;
+      } else {
+        const pullNumber = pullRequest && (pullRequest.number ?? parsePullRequestNumber(repository, pullRequest.url));
+        const threads = pullNumber ? await getUnresolvedReviewThreads(repository, pullNumber) : [];
+        variables = buildReviewResponsePromptVariables(threads);
+        if (threads.length === 0) variables.threads = MISSING_THREADS;
+      }
+
+      variables = buildFollowUpPromptVariables(repository, issue, pullRequest ?? MISSING_PULL_REQUEST, variables);
+    } else {
+      // Preview with the plan execute would use: the given or latest scope attempt
+      const scopeSessionId: string | undefined = body.scopeSessionId ||
+        (await listSessionsForIssue(repository, issueNumber))
+          .filter(s => s.type === 'scope' && !s.archived_at)
+          .pop()?.session_id;
+
+      let actionPlan = MISSING_PLAN;
+      if (scopeSessionId) {
+        try {
+          actionPlan = await getActionPlanText(scopeSessionId);
+        } catch (error) {
+          if (!(error instanceof Error && error.message.includes('no structured output'))) throw error;
+        }
+      }
+
+      variables = buildExecutePromptVariables(
+        repository,
+        issue,
+        actionPlan,
+        typeof body.clarifications === 'string' ? body.clarifications : undefined
+      );
+    }
+
+    // Sessions get the playbook appended too, so preview exactly what they'd see
+    const prompt = appendPlaybook(renderTemplate(templateBody, variables), await loadPlaybook(repository));
+
+    return NextResponse.json({
+      prompt,
+      length: prompt.length,
+      unknown_variables: findUnknownVariables(name, templateBody),
+    });
+  } catch (error) {
+    console.error('Error previewing prompt template:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('environment variable')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        );
+      }
+
+      if (error.message.includes('is not configured')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('Devin API')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 502 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to preview prompt template' },
+      { status: 500 }
+    );
+  }
+}
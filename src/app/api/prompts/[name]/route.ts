@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  TEMPLATE_VARIABLES,
+  getTemplateUsage,
+  isPromptTemplateName,
+  listTemplateVersions,
+  saveTemplateVersion,
+} from '@/lib/promptTemplates';
+
+/**
+ * Lists every version of a template with the outcomes of its sessions.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+
+    if (!isPromptTemplateName(name)) {
+      return NextResponse.json(
+        { error: `Unknown prompt template: ${name}` },
+        { status: 404 }
+      );
+    }
+
+    const [versions, usage] = await Promise.all([
+      listTemplateVersions(name),
+      getTemplateUsage(name),
+    ]);
+
+    return NextResponse.json({
+      name,
+      variables: TEMPLATE_VARIABLES[name],
+      versions: versions.map(version => ({
+        ...version,
+        usage: usage[version.version] ?? { sessions: 0, finished: 0, failed: 0, merged: 0 },
+      })),
+    });
+  } catch (error) {
+    console.error('Error listing prompt template versions:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to list prompt template versions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Saves a new version of a template. It is used for every session started
+ * from then on.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+
+    if (!isPromptTemplateName(name)) {
+      return NextResponse.json(
+        { error: `Unknown prompt template: ${name}` },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.body !== 'string') {
+      return NextResponse.json(
+        { error: 'body must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const version = await saveTemplateVersion(
+      name,
+      body.body,
+      typeof body.note === 'string' ? body.note : undefined
+    );
+
+    return NextResponse.json(version, { status: 201 });
+  } catch (error) {
+    console.error('Error saving prompt template:', error);
+
+    if (
+      error instanceof Error &&
+      (error.message.includes('Unknown template variable') || error.message.includes('is required'))
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save prompt template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { PROMPT_TEMPLATE_NAMES, TEMPLATE_VARIABLES, getActiveTemplate } from '@/lib/promptTemplates';
+
+export async function GET() {
+  try {
+    const templates = await Promise.all(
+      PROMPT_TEMPLATE_NAMES.map(async name => ({
+        name,
+        active: await getActiveTemplate(name),
+        variables: TEMPLATE_VARIABLES[name],
+      }))
+    );
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Error listing prompt templates:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to list prompt templates' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startExecuteSession } from '@/lib/executeService';
+import { getRepo } from '@/lib/repoConfig';
+import { requireUser } from '@/lib/auth';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string; number: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    const { owner, repo, number } = await params;
+    const issueNumber = parseInt(number, 10);
+
+    if (isNaN(issueNumber)) {
+      return NextResponse.json(
+        { error: 'Invalid issue number' },
+        { status: 400 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json().catch(() => ({}));
+    const { scopeSessionId, clarifications, terminatePrevious } = body;
+
+    if (!scopeSessionId) {
+      return NextResponse.json(
+        { error: 'scopeSessionId is required in request body' },
+        { status: 400 }
+      );
+    }
+
+    const repository = await getRepo({ owner, repo });
+
+    const { session, issue, record, stoppedSessionIds } = await startExecuteSession(repository, issueNumber, {
+      scopeSessionId,
+      clarifications,
+      trigger: 'manual',
+      startedBy: user.login,
+      terminatePrevious: terminatePrevious === true,
+    });
+
+    return NextResponse.json({
+      session_id: session.session_id,
+      url: session.url,
+      repository: record.repository,
+      issue_number: issueNumber,
+      issue_title: issue.title,
+      scope_session_id: scopeSessionId,
+      stopped_session_ids: stoppedSessionIds,
+      started_by: record.started_by,
+    });
+  } catch (error) {
+    console.error('Error creating execute session:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+
+      if (error.message.includes('environment variable')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        );
+      }
+
+      if (error.message.includes('is not configured') || error.message.includes('not found for issue')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('needs an approved scope')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+
+      if (error.message.includes('no structured output')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      if (error.message.includes('budget exceeded')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 402 }
+        );
+      }
+
+      if (error.message.includes('Devin API')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 502 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create execute session' },
+      { status: 500 }
+    );
+  }
+}
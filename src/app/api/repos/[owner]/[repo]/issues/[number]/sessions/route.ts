@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listSessionsForIssue } from '@/lib/sessionStore';
+import { getRepo } from '@/lib/repoConfig';
+import { getSessionUsage } from '@/lib/usage';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string; number: string }> }
+) {
+  try {
+    const { owner, repo, number } = await params;
+    const issueNumber = parseInt(number, 10);
+
+    if (isNaN(issueNumber)) {
+      return NextResponse.json(
+        { error: 'Invalid issue number' },
+        { status: 400 }
+      );
+    }
+
+    const records = await listSessionsForIssue(await getRepo({ owner, repo }), issueNumber);
+    const sessions = records.map(record => ({ ...record, usage: getSessionUsage(record) }));
+
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('Error listing sessions:', error);
+
+    if (error instanceof Error && error.message.includes('is not configured')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to list sessions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listIssuePage, parseIssueFilters, parsePagination } from '@/lib/issueSearch';
+import { getRepo } from '@/lib/repoConfig';
+
+/**
+ * Issues in one repository. Takes the same filters and paging as `/api/issues`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string }> }
+) {
+  try {
+    const { owner, repo } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const page = await listIssuePage(
+      [await getRepo({ owner, repo })],
+      parseIssueFilters(searchParams),
+      parsePagination(searchParams)
+    );
+
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('Error fetching issues:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('environment variable')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        );
+      }
+
+      if (error.message.includes('is not configured')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+
+      // Handle GitHub API rate limiting
+      if (error.message.includes('rate limit')) {
+        return NextResponse.json(
+          { error: 'GitHub API rate limit exceeded. Please try again later.' },
+          { status: 429 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch issues' },
+      { status: 500 }
+    );
+  }
+}
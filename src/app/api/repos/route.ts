@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { loadRepos, toFullName } from '@/lib/repoConfig';
+
+/**
+ * Lists the repositories this deployment works on.
+ */
+export async function GET() {
+  try {
+    const repos = await loadRepos();
+
+    return NextResponse.json({
+      repositories: repos.map(repo => ({
+        full_name: toFullName(repo),
+        owner: repo.owner,
+        repo: repo.repo,
+        base_branch: repo.baseBranch,
+        require_approval: repo.requireApproval,
+      })),
+    });
+  } catch (error) {
+    console.error('Error listing repositories:', error);
+
+    if (error instanceof Error && (
+      error.message.includes('environment variable') ||
+      error.message.includes('Invalid repository config')
+    )) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to list repositories' },
+      { status: 500 }
+    );
+  }
+}
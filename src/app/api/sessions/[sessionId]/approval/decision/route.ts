@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decideApproval, type ApprovalDecision } from '@/lib/scopeApproval';
+import { requireUser } from '@/lib/auth';
+
+const DECISIONS: Record<string, ApprovalDecision> = {
+  approve: 'approved',
+  reject: 'rejected',
+};
+
+/**
+ * Approves or rejects a scope awaiting approval. Must come from someone other
+ * than who requested it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    const { sessionId } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const decision = typeof body.decision === 'string' ? DECISIONS[body.decision] : undefined;
+    const comment = typeof body.comment === 'string' ? body.comment : undefined;
+
+    if (!decision) {
+      return NextResponse.json(
+        { error: 'decision must be "approve" or "reject"' },
+        { status: 400 }
+      );
+    }
+
+    const approval = await decideApproval(sessionId, user.login, decision, comment);
+
+    return NextResponse.json({ session_id: sessionId, approval });
+  } catch (error) {
+    console.error('Error deciding approval:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+
+      if (error.message === 'Session not found') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('someone other than')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+
+      if (error.message.includes('No approval is pending')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+
+      if (
+        error.message.includes('comment is required') ||
+        error.message.includes('no complete plan') ||
+        error.message.includes('Only scope sessions')
+      ) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      if (error.message.includes('Devin API')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 502 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to record approval decision' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestApproval } from '@/lib/scopeApproval';
+import { requireUser } from '@/lib/auth';
+
+/**
+ * Asks for a scope to be approved before it can be executed, e.g. again
+ * after it was rejected.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    const { sessionId } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const comment = typeof body.comment === 'string' ? body.comment : undefined;
+
+    const approval = await requestApproval(sessionId, user.login, comment);
+
+    return NextResponse.json({ session_id: sessionId, approval });
+  } catch (error) {
+    console.error('Error requesting approval:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+
+      if (error.message === 'Session not found' || error.message.includes('is not configured')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+
+      if (
+        error.message.includes('does not require approval') ||
+        error.message.includes('Only scope sessions') ||
+        error.message.includes('no complete plan')
+      ) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      if (error.message.includes('already')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to request approval' },
+      { status: 500 }
+    );
+  }
+}
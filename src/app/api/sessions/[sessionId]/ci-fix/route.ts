@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startCiFix } from '@/lib/ciFix';
+import { requireUser } from '@/lib/auth';
+
+/**
+ * Sends the failing checks on an execute session's PR back to Devin.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    const { sessionId } = await params;
+
+    const result = await startCiFix(sessionId, { trigger: 'manual', startedBy: user.login });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error starting CI fix:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+
+      if (error.message.includes('environment variable')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        );
+      }
+
+      if (error.message === 'Session not found') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('no pull request') || error.message.includes('No failed checks')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      if (error.message.includes('CI fix limit') || error.message.includes('already being started')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+
+      if (error.message.includes('budget exceeded')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 402 }
+        );
+      }
+
+      if (error.message.includes('Devin API')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 502 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to start CI fix' },
+      { status: 500 }
+    );
+  }
+}
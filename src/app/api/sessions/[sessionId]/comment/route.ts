@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/devin';
+import { ScopeOutputSchema } from '@/lib/schemas';
+import { getSessionRecord } from '@/lib/sessionStore';
+import { publishScopeComment } from '@/lib/scopeComment';
+import { requireUser } from '@/lib/auth';
+
+/**
+ * Publishes a scope session's output as a comment on its GitHub issue.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    const { sessionId } = await params;
+
+    const record = await getSessionRecord(sessionId);
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (record.type !== 'scope') {
+      return NextResponse.json(
+        { error: 'Only scope sessions can be published to the issue' },
+        { status: 400 }
+      );
+    }
+
+    const session = await getSession(sessionId);
+    const parsed = ScopeOutputSchema.safeParse(session.structured_output);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Scope session has no complete structured output to publish yet' },
+        { status: 400 }
+      );
+    }
+
+    const comment = await publishScopeComment(record, parsed.data, user.login);
+
+    return NextResponse.json({
+      comment_id: comment.id,
+      url: comment.url,
+      updated: comment.updated,
+      posted_at: comment.posted_at,
+    });
+  } catch (error) {
+    console.error('Error publishing scope comment:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+
+      if (error.message.includes('environment variable')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        );
+      }
+
+      if (error.message.includes('Devin API')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 502 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to publish scope comment' },
+      { status: 500 }
+    );
+  }
+}
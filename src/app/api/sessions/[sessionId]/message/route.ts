@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, sendMessage } from '@/lib/devin';
+import { getSessionRecord } from '@/lib/sessionStore';
+import { recordAudit } from '@/lib/auditLog';
+import { resumePolling } from '@/lib/sessionPoller';
+import { requireRole, requireUser } from '@/lib/auth';
+import { isScopePlanLocked, isSessionMessageable } from '@/lib/workflowStatus';
+
+/**
+ * Sends a message to a running or blocked Devin session.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    const { sessionId } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const message = typeof body.message === 'string' ? body.message.trim() : '';
+
+    if (!message) {
+      return NextResponse.json(
+        { error: 'message is required in request body' },
+        { status: 400 }
+      );
+    }
+
+    // Only sessions this dashboard started
+    const record = await getSessionRecord(sessionId);
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    // Steering an execute session directs what it pushes with GITHUB_TOKEN
+    if (record.type === 'execute') {
+      requireRole(user, 'executor');
+    }
+
+    const session = await getSession(sessionId);
+
+    if (!isSessionMessageable(session.status_enum)) {
+      return NextResponse.json(
+        { error: `Session is ${session.status_enum} and no longer accepts messages` },
+        { status: 409 }
+      );
+    }
+
+    // The plan a reviewer signs off must be the one that gets executed
+    if (record.type === 'scope' && isScopePlanLocked(session.status_enum, session.structured_output, record.approval)) {
+      return NextResponse.json(
+        { error: `Scope is ${record.approval?.state === 'approved' ? 'approved' : 'awaiting approval'}, so its plan can no longer be changed` },
+        { status: 409 }
+      );
+    }
+
+    await sendMessage(sessionId, message);
+    // The session will leave the status it was settled in; watch for that
+    resumePolling(sessionId);
+
+    await recordAudit({
+      actor: user.login,
+      action: 'session.message',
+      repository: record.repository,
+      issue_number: record.issue_number,
+      session_id: sessionId,
+      summary: 'Sent a message to the session',
+      details: { message },
+    });
+
+    return NextResponse.json({
+      session_id: sessionId,
+      sent_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error sending session message:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+
+      if (error.message.includes('role; you are signed in as')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+
+      if (error.message.includes('environment variable')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        );
+      }
+
+      if (error.message.includes('Devin API error (404)')) {
+        return NextResponse.json(
+          { error: 'Session not found' },
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('Devin API')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 502 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to send message' },
+      { status: 500 }
+    );
+  }
+}
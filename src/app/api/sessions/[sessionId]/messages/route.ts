@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionMessages } from '@/lib/devin';
+import { getSessionRecord } from '@/lib/sessionStore';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function parseNonNegativeInt(value: string | null, fallback: number): number {
+  const parsed = value === null ? NaN : parseInt(value, 10);
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+/**
+ * Returns a page of the session's conversation, oldest first.
+ * Clients poll with `offset` set to the number of messages they already
+ * have to pick up new ones.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const { searchParams } = new URL(request.url);
+    const offset = parseNonNegativeInt(searchParams.get('offset'), 0);
+    const limit = Math.min(
+      Math.max(parseNonNegativeInt(searchParams.get('limit'), DEFAULT_LIMIT), 1),
+      MAX_LIMIT
+    );
+
+    // Only sessions this dashboard started
+    if (!(await getSessionRecord(sessionId))) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const messages = await getSessionMessages(sessionId);
+    const page = messages.slice(offset, offset + limit);
+    const nextOffset = offset + page.length;
+
+    return NextResponse.json({
+      messages: page,
+      total: messages.length,
+      offset,
+      next_offset: nextOffset < messages.length ? nextOffset : null,
+    });
+  } catch (error) {
+    console.error('Error fetching session messages:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('environment variable')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        );
+      }
+
+      if (error.message.includes('Devin API error (404)')) {
+        return NextResponse.json(
+          { error: 'Session not found' },
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('Devin API')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 502 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch session messages' },
+      { status: 500 }
+    );
+  }
+}
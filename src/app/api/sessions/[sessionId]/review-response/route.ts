@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startReviewResponse } from '@/lib/reviewResponse';
+import { requireUser } from '@/lib/auth';
+
+/**
+ * Starts a session addressing the unresolved review comments on an
+ * execute session's PR.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    const { sessionId } = await params;
+
+    const result = await startReviewResponse(sessionId, { trigger: 'manual', startedBy: user.login });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error starting review response:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+
+      if (error.message.includes('environment variable')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        );
+      }
+
+      if (error.message === 'Session not found') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+
+      if (
+        error.message.includes('no pull request') ||
+        error.message.includes('No unresolved review comments') ||
+        error.message.includes('is closed')
+      ) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      if (
+        error.message.includes('review response limit') ||
+        error.message.includes('already being started') ||
+        error.message.includes('still working on')
+      ) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+
+      if (error.message.includes('budget exceeded')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 402 }
+        );
+      }
+
+      if (error.message.includes('Devin API')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 502 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to start review response' },
+      { status: 500 }
+    );
+  }
+}
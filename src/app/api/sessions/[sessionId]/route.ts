@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSession } from '@/lib/devin';
+import { getSession, toSessionSnapshot } from '@/lib/devin';
+import { isSessionActive, stopSession, syncSession } from '@/lib/sessionLifecycle';
+import { getSessionRecord, updateSessionRecord } from '@/lib/sessionStore';
+import { recordAudit } from '@/lib/auditLog';
+import { requireRole, requireUser } from '@/lib/auth';
 
 export async function GET(
   request: NextRequest,
@@ -18,17 +22,11 @@ export async function GET(
     // Fetch session details from Devin
     const session = await getSession(sessionId);
     
+    // Keep the registry in step with Devin and run any follow-up automations
+    const record = await syncSession(session);
+    
     // Return sanitized session info for frontend
-    return NextResponse.json({
-      session_id: session.session_id,
-      url: session.url,
-      status_enum: session.status_enum,
-      structured_output: session.structured_output,
-      pull_request_url: session.pull_request?.url || null,
-      updated_at: session.updated_at,
-      messages_count: session.messages_count,
-      title: session.title,
-    });
+    return NextResponse.json(toSessionSnapshot(session, record?.pull_request, record?.approval));
   } catch (error) {
     console.error('Error fetching session:', error);
     
@@ -61,3 +59,152 @@ export async function GET(
     );
   }
 }
+
+/**
+ * Terminates a session. Devin stops working on it immediately.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    const { sessionId } = await params;
+
+    // Only sessions this dashboard started
+    const existing = await getSessionRecord(sessionId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    // Execute sessions hold GITHUB_TOKEN, so only those who may start them may stop them
+    if (existing.type === 'execute') {
+      requireRole(user, 'executor');
+    }
+
+    const record = await stopSession(sessionId, user.login);
+
+    return NextResponse.json({
+      session_id: sessionId,
+      terminated_at: record?.terminated_at ?? new Date().toISOString(),
+      status_enum: record?.status_enum ?? null,
+    });
+  } catch (error) {
+    console.error('Error terminating session:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+
+      if (error.message.includes('role; you are signed in as')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+
+      if (error.message.includes('environment variable')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        );
+      }
+
+      if (error.message.includes('Devin API error (404)')) {
+        return NextResponse.json(
+          { error: 'Session not found' },
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('Devin API')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 502 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to terminate session' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Archives or unarchives a recorded session. Archived sessions are hidden
+ * from the issue timeline by default; only finished or stopped sessions
+ * can be archived.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    const { sessionId } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.archived !== 'boolean') {
+      return NextResponse.json(
+        { error: 'archived (boolean) is required in request body' },
+        { status: 400 }
+      );
+    }
+
+    const record = await getSessionRecord(sessionId);
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (body.archived && isSessionActive(record)) {
+      return NextResponse.json(
+        { error: 'Stop the session before archiving it' },
+        { status: 409 }
+      );
+    }
+
+    const updated = await updateSessionRecord(sessionId, {
+      archived_at: body.archived ? new Date().toISOString() : undefined,
+    });
+    await recordAudit({
+      actor: user.login,
+      action: body.archived ? 'session.archived' : 'session.unarchived',
+      repository: record.repository,
+      issue_number: record.issue_number,
+      session_id: sessionId,
+      summary: `${body.archived ? 'Archived' : 'Unarchived'} ${record.type} session for #${record.issue_number}`,
+    });
+
+    return NextResponse.json({
+      session_id: sessionId,
+      archived_at: updated?.archived_at ?? null,
+    });
+  } catch (error) {
+    console.error('Error archiving session:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update session' },
+      { status: 500 }
+    );
+  }
+}
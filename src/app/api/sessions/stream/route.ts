@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { watchSessions, type SessionUpdate } from '@/lib/sessionPoller';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL = 25000;
+const MAX_SESSIONS = 100;
+
+/**
+ * Server-Sent Events stream of session updates.
+ * Multiplexes every session in `?ids=a,b,c` over one connection.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const sessionIds = Array.from(new Set(
+    (searchParams.get('ids') || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean)
+  ));
+
+  if (sessionIds.length === 0) {
+    return NextResponse.json(
+      { error: 'At least one session ID is required in ?ids=' },
+      { status: 400 }
+    );
+  }
+
+  if (sessionIds.length > MAX_SESSIONS) {
+    return NextResponse.json(
+      { error: `At most ${MAX_SESSIONS} sessions can be watched per stream` },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          cleanup?.();
+        }
+      };
+
+      const unsubscribe = watchSessions(sessionIds, (update: SessionUpdate) => {
+        write(`event: session\ndata: ${JSON.stringify(update)}\n\n`);
+      });
+
+      // Comments keep proxies from closing an idle connection
+      const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        cleanup = null;
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
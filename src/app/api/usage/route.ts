@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsageReport } from '@/lib/usage';
+import { getRepoByFullName, toFullName } from '@/lib/repoConfig';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+const DEFAULT_MONTHS = 12;
+const MAX_MONTHS = 36;
+
+function parseCount(value: string | null, fallback: number, max: number): number {
+  const count = parseInt(value || '', 10);
+  return Number.isInteger(count) && count > 0 ? Math.min(count, max) : fallback;
+}
+
+/**
+ * Daily and monthly usage totals (`?days=30&months=12`), per repository and
+ * per issue, with the budget status. `?repo=owner/repo` limits the totals to
+ * one repository; budgets always cover every repository.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const repo = params.get('repo');
+
+    const report = await getUsageReport({
+      days: parseCount(params.get('days'), DEFAULT_DAYS, MAX_DAYS),
+      months: parseCount(params.get('months'), DEFAULT_MONTHS, MAX_MONTHS),
+      repository: repo ? toFullName(await getRepoByFullName(repo)) : undefined,
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error building usage report:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('is not configured')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to build usage report' },
+      { status: 500 }
+    );
+  }
+}
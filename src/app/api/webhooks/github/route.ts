@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { handleWebhookEvent, verifyWebhookSignature } from '@/lib/webhooks';
+
+export async function POST(request: NextRequest) {
+  try {
+    const eventName = request.headers.get('x-github-event');
+    const deliveryId = request.headers.get('x-github-delivery');
+    const signature = request.headers.get('x-hub-signature-256');
+
+    // Verify against the raw body; re-serialized JSON would not match
+    const rawBody = await request.text();
+
+    if (!verifyWebhookSignature(rawBody, signature)) {
+      return NextResponse.json(
+        { error: 'Invalid webhook signature' },
+        { status: 401 }
+      );
+    }
+
+    if (!eventName) {
+      return NextResponse.json(
+        { error: 'X-GitHub-Event header is required' },
+        { status: 400 }
+      );
+    }
+
+    // GitHub sends a ping when the webhook is first configured
+    if (eventName === 'ping') {
+      return NextResponse.json({ event: 'ping', handled: true });
+    }
+
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON payload' },
+        { status: 400 }
+      );
+    }
+
+    // Automations run once the response is sent, so it stays within GitHub's timeout
+    const result = await handleWebhookEvent(
+      {
+        name: eventName,
+        action: typeof payload.action === 'string' ? payload.action : undefined,
+        deliveryId,
+        payload,
+      },
+      after
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error handling webhook:', error);
+
+    if (error instanceof Error && error.message.includes('environment variable')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to handle webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,306 @@
+'use client';
+
+import { useState, useEffect, useMemo, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+
+interface AuditEntry {
+  id: string;
+  at: string;
+  actor: string;
+  action: string;
+  repository?: string;
+  issue_number?: number;
+  session_id?: string;
+  summary: string;
+  details?: Record<string, unknown>;
+}
+
+interface Repository {
+  full_name: string;
+}
+
+interface AuditFilters {
+  action: string;
+  actor: string;
+  repo: string;
+  issue: string;
+  session: string;
+  since: string;
+  until: string;
+}
+
+const FILTER_KEYS: Array<keyof AuditFilters> = ['action', 'actor', 'repo', 'issue', 'session', 'since', 'until'];
+
+const EMPTY_FILTERS: AuditFilters = { action: '', actor: '', repo: '', issue: '', session: '', since: '', until: '' };
+
+const ACTION_LABELS: Record<string, string> = {
+  'session.created': 'Session created',
+  'session.message': 'Message sent',
+  'session.terminated': 'Session stopped',
+  'session.archived': 'Session archived',
+  'session.unarchived': 'Session unarchived',
+  'automation.decision': 'Automation decision',
+  'approval.requested': 'Approval requested',
+  'approval.approved': 'Scope approved',
+  'approval.rejected': 'Scope rejected',
+  'github.comment': 'GitHub comment',
+  'github.label.added': 'GitHub label added',
+  'github.label.removed': 'GitHub label removed',
+};
+
+// Wait for typing to pause before refetching
+const FILTER_DEBOUNCE_MS = 400;
+
+function formatTimestamp(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+function AuditContent() {
+  const searchParams = useSearchParams();
+  const [filters, setFilters] = useState<AuditFilters>(() => {
+    const initial = { ...EMPTY_FILTERS };
+    for (const key of FILTER_KEYS) initial[key] = searchParams.get(key) || '';
+    return initial;
+  });
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(filters);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [repositories, setRepositories] = useState<Repository[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const query = useMemo(() => {
+    const params = new URLSearchParams();
+    for (const key of FILTER_KEYS) {
+      if (appliedFilters[key]) params.set(key, appliedFilters[key]);
+    }
+    return params.toString();
+  }, [appliedFilters]);
+
+  const hasActiveFilters = query !== '';
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedFilters(filters), FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  useEffect(() => {
+    fetch('/api/repos')
+      .then(response => response.json())
+      .then(data => setRepositories(data.repositories || []))
+      .catch(() => setRepositories([]));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.history.replaceState(null, '', query ? `?${query}` : '/audit');
+
+    fetch(`/api/audit${query ? `?${query}` : ''}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load audit log');
+        if (cancelled) return;
+        setEntries(data.entries || []);
+        setTotal(data.total ?? 0);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load audit log');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  return (
+    <div className="container">
+      <header className="header">
+        <div className="header-content">
+          <h1>📜 Audit Log</h1>
+          <p className="subtitle">Everything this app did, and who asked for it</p>
+        </div>
+        <div className="header-actions">
+          <a href={`/api/audit/export${query ? `?${query}` : ''}`} className="refresh-button" download>
+            ⬇ Export JSONL
+          </a>
+          <Link href="/" className="refresh-button">
+            ← Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="main">
+        <div className="issues-list">
+          <div className="issues-header">
+            <span className="issues-count">
+              {loading ? 'Loading...' : `${entries.length} of ${total} entr${total !== 1 ? 'ies' : 'y'}`}
+            </span>
+            <div className="filter-controls">
+              <select
+                value={filters.action}
+                onChange={(e) => updateFilter('action', e.target.value)}
+                className="label-select"
+                aria-label="Action"
+              >
+                <option value="">All actions</option>
+                {Object.entries(ACTION_LABELS).map(([action, label]) => (
+                  <option key={action} value={action}>{label}</option>
+                ))}
+              </select>
+              {repositories.length > 1 && (
+                <select
+                  value={filters.repo}
+                  onChange={(e) => updateFilter('repo', e.target.value)}
+                  className="label-select"
+                  aria-label="Repository"
+                >
+                  <option value="">All repositories</option>
+                  {repositories.map(repository => (
+                    <option key={repository.full_name} value={repository.full_name}>{repository.full_name}</option>
+                  ))}
+                </select>
+              )}
+              <input
+                type="text"
+                placeholder="Actor"
+                value={filters.actor}
+                onChange={(e) => updateFilter('actor', e.target.value)}
+                className="search-input filter-input"
+              />
+              <input
+                type="text"
+                placeholder="Issue #"
+                value={filters.issue}
+                onChange={(e) => updateFilter('issue', e.target.value.replace(/\D/g, ''))}
+                className="search-input filter-input"
+              />
+              <input
+                type="text"
+                placeholder="Session ID"
+                value={filters.session}
+                onChange={(e) => updateFilter('session', e.target.value)}
+                className="search-input filter-input"
+              />
+              <input
+                type="date"
+                value={filters.since}
+                onChange={(e) => updateFilter('since', e.target.value)}
+                className="search-input filter-input"
+                aria-label="From"
+              />
+              <input
+                type="date"
+                value={filters.until}
+                onChange={(e) => updateFilter('until', e.target.value)}
+                className="search-input filter-input"
+                aria-label="Until"
+              />
+              {hasActiveFilters && (
+                <button onClick={clearFilters} className="clear-filters-button">
+                  Clear filters
+                </button>
+              )}
+            </div>
+          </div>
+
+          {error && (
+            <div className="error-state">
+              <h3>❌ Error</h3>
+              <p>{error}</p>
+            </div>
+          )}
+
+          {!loading && !error && entries.length === 0 && (
+            <div className="empty-state">
+              <h3>{hasActiveFilters ? 'No matching entries' : 'Nothing recorded yet'}</h3>
+              <p>
+                {hasActiveFilters
+                  ? 'No audit entries match your current filters.'
+                  : 'Sessions, messages, automation decisions and GitHub writes show up here.'}
+              </p>
+            </div>
+          )}
+
+          {entries.length > 0 && (
+            <table className="usage-table audit-table">
+              <thead>
+                <tr>
+                  <th>Time</th>
+                  <th>Actor</th>
+                  <th>Action</th>
+                  <th>Issue</th>
+                  <th>What happened</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr
+                    key={entry.id}
+                    onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                    className="audit-row"
+                  >
+                    <td className="audit-time">{formatTimestamp(entry.at)}</td>
+                    <td>{entry.actor}</td>
+                    <td>
+                      <span className={`audit-action audit-action-${entry.action.split('.')[0]}`}>
+                        {ACTION_LABELS[entry.action] ?? entry.action}
+                      </span>
+                    </td>
+                    <td>
+                      {entry.repository && entry.issue_number !== undefined
+                        ? `${entry.repository}#${entry.issue_number}`
+                        : '—'}
+                    </td>
+                    <td>
+                      {entry.summary}
+                      {entry.session_id && <span className="audit-session"> · {entry.session_id}</span>}
+                      {expanded === entry.id && entry.details && (
+                        <pre className="audit-details">{JSON.stringify(entry.details, null, 2)}</pre>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default function AuditPage() {
+  return (
+    <Suspense fallback={
+      <div className="container">
+        <div className="loading-state">
+          <div className="loading-spinner large" />
+          <p>Loading...</p>
+        </div>
+      </div>
+    }>
+      <AuditContent />
+    </Suspense>
+  );
+}
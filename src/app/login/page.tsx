@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+interface Providers {
+  github: boolean;
+  password: boolean;
+}
+
+// Only return to paths on this site
+function toSafePath(next: string | null): string {
+  return next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : '/';
+}
+
+function LoginContent() {
+  const searchParams = useSearchParams();
+  const next = toSafePath(searchParams.get('next'));
+  const [providers, setProviders] = useState<Providers | null>(null);
+  const [error, setError] = useState<string | null>(searchParams.get('error'));
+  const [login, setLogin] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load sign-in options');
+        // Already signed in, e.g. after going back
+        if (data.user) {
+          window.location.href = next;
+          return;
+        }
+        setProviders(data.providers);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load sign-in options'));
+  }, [next]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSigningIn(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ login, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sign in');
+      }
+
+      // A full load, so every page picks up the new session cookie
+      window.location.href = next;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="container">
+      <main className="login-main">
+        <div className="login-card">
+          <h1>🤖 Devin Issue Dashboard</h1>
+          <p className="subtitle">Sign in to scope and execute issues</p>
+
+          {error && <div className="login-error">{error}</div>}
+
+          {providers?.github && (
+            <>
+              <a href={`/api/auth/github?next=${encodeURIComponent(next)}`} className="github-login-button">
+                Sign in with GitHub
+              </a>
+              <div className="login-divider">or</div>
+            </>
+          )}
+
+          {providers && (
+            <form onSubmit={handleSubmit} className="login-form">
+              <input
+                type="text"
+                placeholder="Username"
+                value={login}
+                onChange={(e) => setLogin(e.target.value)}
+                className="search-input"
+                autoComplete="username"
+                required
+              />
+              <input
+                type="password"
+                placeholder="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="search-input"
+                autoComplete="current-password"
+                required
+              />
+              <button type="submit" disabled={isSigningIn} className="refresh-button">
+                {isSigningIn ? 'Signing in...' : 'Sign in'}
+              </button>
+            </form>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={
+      <div className="container">
+        <div className="loading-state">
+          <div className="loading-spinner large" />
+          <p>Loading...</p>
+        </div>
+      </div>
+    }>
+      <LoginContent />
+    </Suspense>
+  );
+}
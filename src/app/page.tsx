@@ -1,12 +1,18 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo, Suspense } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { IssueRow } from '@/components/IssueRow';
+import { BatchProgress, isBatchFinished, type ScopeBatch } from '@/components/BatchProgress';
+import { signOut, useCurrentUser } from '@/lib/currentUser';
+import { hasRole } from '@/lib/roles';
 
 type IssueState = 'open' | 'closed' | 'all';
 
 interface Issue {
+  /** `owner/repo` */
+  repository: string;
   number: number;
   title: string;
   body: string | null;
@@ -18,6 +24,32 @@ interface Issue {
   user: { login: string; avatar_url: string } | null;
 }
 
+interface Repository {
+  full_name: string;
+  base_branch: string;
+  require_approval: boolean;
+}
+
+interface IssueFilters {
+  q: string;
+  label: string;
+  assignee: string;
+  milestone: string;
+  author: string;
+}
+
+const FILTER_KEYS: Array<keyof IssueFilters> = ['q', 'label', 'assignee', 'milestone', 'author'];
+
+const EMPTY_FILTERS: IssueFilters = { q: '', label: '', assignee: '', milestone: '', author: '' };
+
+const PAGE_SIZE = 30;
+// Wait for typing to pause so every keystroke doesn't hit the search API
+const SEARCH_DEBOUNCE_MS = 400;
+
+function issueKey(issue: Pick<Issue, 'repository' | 'number'>): string {
+  return `${issue.repository}#${issue.number}`;
+}
+
 interface ConfigStatus {
   hasDevinKey: boolean;
   hasGithubToken: boolean;
@@ -39,40 +71,71 @@ function HomeContent() {
   };
 
   const [issues, setIssues] = useState<Issue[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  // Next page to load, or null once every matching issue is shown
+  const [nextPage, setNextPage] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [configStatus] = useState<ConfigStatus | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedLabel, setSelectedLabel] = useState('');
   const [stateFilter, setStateFilter] = useState<IssueState>(getInitialState);
+  const [repositories, setRepositories] = useState<Repository[]>([]);
+  // Empty for the aggregated view across every repository
+  const [repoFilter, setRepoFilter] = useState(searchParams.get('repo') || '');
+  const [labels, setLabels] = useState<string[]>([]);
+  // What the inputs show, and what the list was last fetched with
+  const [filters, setFilters] = useState<IssueFilters>(() => {
+    const initial = { ...EMPTY_FILTERS };
+    for (const key of FILTER_KEYS) initial[key] = searchParams.get(key) || '';
+    return initial;
+  });
+  const [appliedFilters, setAppliedFilters] = useState<IssueFilters>(filters);
+  // Responses to superseded requests are dropped
+  const requestId = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Issues picked for batch scoping, by issueKey
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const user = useCurrentUser();
+  const canScope = hasRole(user, 'scoper');
+  const [batches, setBatches] = useState<ScopeBatch[]>([]);
+  const [isStartingBatch, setIsStartingBatch] = useState(false);
+  const [batchError, setBatchError] = useState<string | null>(null);
 
-  const uniqueLabels = useMemo(() => {
-    const labelSet = new Set<string>();
-    issues.forEach(issue => {
-      issue.labels.forEach(label => labelSet.add(label.name));
-    });
-    return Array.from(labelSet).sort();
-  }, [issues]);
-
-  const filteredIssues = useMemo(() => {
-    return issues.filter(issue => {
-      const matchesSearch = searchQuery === '' || 
-        issue.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        issue.number.toString().includes(searchQuery);
-      
-      const matchesLabel = selectedLabel === '' ||
-        issue.labels.some(label => label.name === selectedLabel);
-      
-      return matchesSearch && matchesLabel;
-    });
-  }, [issues, searchQuery, selectedLabel]);
+  const labelOptions = useMemo(() => {
+    return filters.label && !labels.includes(filters.label)
+      ? [...labels, filters.label].sort()
+      : labels;
+  }, [labels, filters.label]);
+
+  const updateFilter = (key: keyof IssueFilters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
 
   const clearFilters = () => {
-    setSearchQuery('');
-    setSelectedLabel('');
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
   };
 
-  const hasActiveFilters = searchQuery !== '' || selectedLabel !== '';
+  const hasActiveFilters = FILTER_KEYS.some(key => appliedFilters[key] !== '');
+
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedFilters(filters), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  // Keep the URL shareable without a navigation per keystroke
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    for (const key of FILTER_KEYS) {
+      if (appliedFilters[key]) {
+        params.set(key, appliedFilters[key]);
+      } else {
+        params.delete(key);
+      }
+    }
+    const query = params.toString();
+    window.history.replaceState(null, '', query ? `?${query}` : '/');
+  }, [appliedFilters]);
 
   const handleStateChange = useCallback((newState: IssueState) => {
     setStateFilter(newState);
@@ -86,30 +149,195 @@ function HomeContent() {
     router.push(newUrl);
   }, [searchParams, router]);
 
+  const handleRepoChange = useCallback((newRepo: string) => {
+    setRepoFilter(newRepo);
+    setFilters(current => ({ ...current, label: '' }));
+    setAppliedFilters(current => ({ ...current, label: '' }));
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete('label');
+    if (newRepo === '') {
+      params.delete('repo');
+    } else {
+      params.set('repo', newRepo);
+    }
+    const newUrl = params.toString() ? `?${params.toString()}` : '/';
+    router.push(newUrl);
+  }, [searchParams, router]);
+
+  useEffect(() => {
+    fetch('/api/repos')
+      .then(response => response.json())
+      .then(data => setRepositories(data.repositories || []))
+      .catch(() => setRepositories([]));
+  }, []);
+
+  useEffect(() => {
+    fetch(repoFilter ? `/api/labels?repo=${encodeURIComponent(repoFilter)}` : '/api/labels')
+      .then(response => response.json())
+      .then(data => setLabels((data.labels || []).map((label: { name: string }) => label.name)))
+      .catch(() => setLabels([]));
+  }, [repoFilter]);
+
+  // Pick up batches that were still working when the page was last open
+  useEffect(() => {
+    fetch('/api/issues/batch')
+      .then(response => response.json())
+      .then(data => setBatches((data.batches || []).filter((batch: ScopeBatch) => !isBatchFinished(batch))))
+      .catch(() => setBatches([]));
+  }, []);
+
+  const toggleSelected = useCallback((issue: Issue, isSelected: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (isSelected) {
+        next.add(issueKey(issue));
+      } else {
+        next.delete(issueKey(issue));
+      }
+      return next;
+    });
+  }, []);
+
+  const allSelected = issues.length > 0 && issues.every(issue => selected.has(issueKey(issue)));
+
+  const toggleAllSelected = () => {
+    setSelected(allSelected ? new Set() : new Set(issues.map(issueKey)));
+  };
+
+  const handleBatchScope = async () => {
+    const picked = issues.filter(issue => selected.has(issueKey(issue)));
+    if (picked.length === 0) return;
+
+    setIsStartingBatch(true);
+    setBatchError(null);
+
+    try {
+      const response = await fetch('/api/issues/batch/scope', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          issues: picked.map(issue => ({ repository: issue.repository, number: issue.number })),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start batch scope');
+      }
+
+      setBatches(current => [data.batch, ...current]);
+      setSelected(new Set());
+    } catch (err) {
+      setBatchError(err instanceof Error ? err.message : 'Failed to start batch scope');
+    } finally {
+      setIsStartingBatch(false);
+    }
+  };
+
+  const handleBatchChange = useCallback((updated: ScopeBatch) => {
+    setBatches(current => current.map(batch => batch.id === updated.id ? updated : batch));
+  }, []);
+
+  // Sessions started by batches per issue, so rows reload when one appears
+  const batchSessionCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const job of batches.flatMap(batch => batch.jobs)) {
+      if (!job.session_id) continue;
+      const key = issueKey({ repository: job.repository, number: job.issue_number });
+      counts[key] = (counts[key] ?? 0) + 1;
+    }
+    return counts;
+  }, [batches]);
+
+  const dismissBatch = (batchId: string) => {
+    setBatches(current => current.filter(batch => batch.id !== batchId));
+  };
+
+  const getIssuesUrl = useCallback((page: number) => {
+    const params = new URLSearchParams({
+      state: stateFilter,
+      page: String(page),
+      per_page: String(PAGE_SIZE),
+    });
+    for (const key of FILTER_KEYS) {
+      if (appliedFilters[key]) params.set(key, appliedFilters[key]);
+    }
+    return `${repoFilter ? `/api/repos/${repoFilter}/issues` : '/api/issues'}?${params.toString()}`;
+  }, [stateFilter, repoFilter, appliedFilters]);
+
   const fetchIssues = useCallback(async () => {
+    const id = ++requestId.current;
     setLoading(true);
     setError(null);
+    // A new list shouldn't keep picks the user can no longer see
+    setSelected(new Set());
     
     try {
-      const response = await fetch(`/api/issues?state=${stateFilter}`);
+      const response = await fetch(getIssuesUrl(1));
       const data = await response.json();
+      if (id !== requestId.current) return;
       
       if (!response.ok) {
         throw new Error(data.error || 'Failed to fetch issues');
       }
       
       setIssues(data.issues || []);
+      setTotalCount(data.total_count ?? 0);
+      setNextPage(data.has_more ? data.page + 1 : null);
     } catch (err) {
+      if (id !== requestId.current) return;
       setError(err instanceof Error ? err.message : 'Failed to fetch issues');
     } finally {
-      setLoading(false);
+      if (id === requestId.current) setLoading(false);
     }
-  }, [stateFilter]);
+  }, [getIssuesUrl]);
+
+  const loadMore = useCallback(async () => {
+    if (nextPage === null || loading || loadingMore) return;
+
+    const id = requestId.current;
+    setLoadingMore(true);
+    setError(null);
+
+    try {
+      const response = await fetch(getIssuesUrl(nextPage));
+      const data = await response.json();
+      if (id !== requestId.current) return;
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch issues');
+      }
+
+      setIssues(current => {
+        // An issue updated while paging moves to the top and can come back again
+        const seen = new Set(current.map(issueKey));
+        return [...current, ...(data.issues as Issue[]).filter(issue => !seen.has(issueKey(issue)))];
+      });
+      setNextPage(data.has_more ? data.page + 1 : null);
+    } catch (err) {
+      if (id !== requestId.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to fetch issues');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextPage, loading, loadingMore, getIssuesUrl]);
 
   useEffect(() => {
     fetchIssues();
   }, [fetchIssues]);
 
+  // Infinite scroll: load the next page as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || nextPage === null || error) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextPage, error, loadMore]);
+
   const renderConfigWarnings = () => {
     if (!configStatus) return null;
     
@@ -140,21 +368,57 @@ function HomeContent() {
           <h1>🤖 Devin Automation</h1>
           <p className="subtitle">GitHub Issues → Devin Sessions</p>
         </div>
-        <button onClick={fetchIssues} className="refresh-button" disabled={loading}>
-          {loading ? '⟳ Loading...' : '⟳ Refresh'}
-        </button>
+        <div className="header-actions">
+          {repositories.length > 1 && (
+            <select
+              value={repoFilter}
+              onChange={(e) => handleRepoChange(e.target.value)}
+              className="label-select repo-select"
+              aria-label="Repository"
+            >
+              <option value="">All repositories</option>
+              {repositories.map(repo => (
+                <option key={repo.full_name} value={repo.full_name}>{repo.full_name}</option>
+              ))}
+            </select>
+          )}
+          <Link href="/admin/prompts" className="refresh-button">
+            📝 Prompts
+          </Link>
+          <Link href="/usage" className="refresh-button">
+            📊 Usage
+          </Link>
+          {hasRole(user, 'admin') && (
+            <Link href="/audit" className="refresh-button">
+              📜 Audit
+            </Link>
+          )}
+          <button onClick={fetchIssues} className="refresh-button" disabled={loading}>
+            {loading ? '⟳ Loading...' : '⟳ Refresh'}
+          </button>
+          {user && (
+            <span className="user-badge" title={`Signed in with ${user.provider === 'github' ? 'GitHub' : 'a password'}`}>
+              {user.login} <span className="user-role">{user.role}</span>
+              <button onClick={signOut} className="sign-out-button">
+                Sign out
+              </button>
+            </span>
+          )}
+        </div>
       </header>
       
       {renderConfigWarnings()}
       
       <main className="main">
-        {loading && issues.length === 0 && (
-          <div className="loading-state">
-            <div className="loading-spinner large" />
-            <p>Fetching issues...</p>
-          </div>
-        )}
-        
+        {batches.map(batch => (
+          <BatchProgress
+            key={batch.id}
+            batch={batch}
+            onChange={handleBatchChange}
+            onDismiss={() => dismissBatch(batch.id)}
+          />
+        ))}
+
         {error && (
           <div className="error-state">
             <h3>❌ Error</h3>
@@ -165,79 +429,148 @@ function HomeContent() {
           </div>
         )}
         
-        {!loading && !error && issues.length === 0 && (
-          <div className="empty-state">
-            <h3>📭 No {stateFilter === 'all' ? '' : stateFilter.charAt(0).toUpperCase() + stateFilter.slice(1) + ' '}Issues</h3>
-            <p>There are no {stateFilter === 'all' ? '' : stateFilter + ' '}issues in the configured repository.</p>
-          </div>
-        )}
-        
-        {issues.length > 0 && (
-          <div className="issues-list">
-            <div className="issues-header">
-              <span className="issues-count">
-                {filteredIssues.length} of {issues.length} issue{issues.length !== 1 ? 's' : ''}
-              </span>
-              <div className="filter-controls">
-                <div className="state-toggle">
-                  <button
-                    className={`state-toggle-button ${stateFilter === 'open' ? 'active' : ''}`}
-                    onClick={() => handleStateChange('open')}
-                  >
-                    Open
-                  </button>
-                  <button
-                    className={`state-toggle-button ${stateFilter === 'closed' ? 'active' : ''}`}
-                    onClick={() => handleStateChange('closed')}
-                  >
-                    Closed
-                  </button>
-                  <button
-                    className={`state-toggle-button ${stateFilter === 'all' ? 'active' : ''}`}
-                    onClick={() => handleStateChange('all')}
-                  >
-                    All
-                  </button>
-                </div>
+        <div className="issues-list">
+          <div className="issues-header">
+            <span className="issues-count">
+              {canScope && (
                 <input
-                  type="text"
-                  placeholder="Search by title or #number..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="search-input"
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={toggleAllSelected}
+                  disabled={issues.length === 0}
+                  className="issue-select"
+                  aria-label="Select all loaded issues"
                 />
-                <select
-                  value={selectedLabel}
-                  onChange={(e) => setSelectedLabel(e.target.value)}
-                  className="label-select"
+              )}
+              {loading
+                ? 'Loading...'
+                : `${issues.length} of ${totalCount} issue${totalCount !== 1 ? 's' : ''}`}
+            </span>
+            <div className="filter-controls">
+              <div className="state-toggle">
+                <button
+                  className={`state-toggle-button ${stateFilter === 'open' ? 'active' : ''}`}
+                  onClick={() => handleStateChange('open')}
                 >
-                  <option value="">All labels</option>
-                  {uniqueLabels.map(label => (
-                    <option key={label} value={label}>{label}</option>
-                  ))}
-                </select>
-                {hasActiveFilters && (
-                  <button onClick={clearFilters} className="clear-filters-button">
-                    Clear filters
-                  </button>
-                )}
+                  Open
+                </button>
+                <button
+                  className={`state-toggle-button ${stateFilter === 'closed' ? 'active' : ''}`}
+                  onClick={() => handleStateChange('closed')}
+                >
+                  Closed
+                </button>
+                <button
+                  className={`state-toggle-button ${stateFilter === 'all' ? 'active' : ''}`}
+                  onClick={() => handleStateChange('all')}
+                >
+                  All
+                </button>
               </div>
-            </div>
-            {filteredIssues.length === 0 ? (
-              <div className="empty-state">
-                <h3>No matching issues</h3>
-                <p>No issues match your current filters.</p>
-                <button onClick={clearFilters} className="retry-button">
+              <input
+                type="text"
+                placeholder="Search issues or #number..."
+                value={filters.q}
+                onChange={(e) => updateFilter('q', e.target.value)}
+                className="search-input"
+              />
+              <select
+                value={filters.label}
+                onChange={(e) => updateFilter('label', e.target.value)}
+                className="label-select"
+              >
+                <option value="">All labels</option>
+                {labelOptions.map(label => (
+                  <option key={label} value={label}>{label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="Author"
+                value={filters.author}
+                onChange={(e) => updateFilter('author', e.target.value)}
+                className="search-input filter-input"
+              />
+              <input
+                type="text"
+                placeholder="Assignee or none"
+                value={filters.assignee}
+                onChange={(e) => updateFilter('assignee', e.target.value)}
+                className="search-input filter-input"
+              />
+              <input
+                type="text"
+                placeholder="Milestone or none"
+                value={filters.milestone}
+                onChange={(e) => updateFilter('milestone', e.target.value)}
+                className="search-input filter-input"
+              />
+              {hasActiveFilters && (
+                <button onClick={clearFilters} className="clear-filters-button">
                   Clear filters
                 </button>
-              </div>
-            ) : (
-              filteredIssues.map(issue => (
-                <IssueRow key={issue.number} issue={issue} />
-              ))
-            )}
+              )}
+            </div>
           </div>
-        )}
+
+          {selected.size > 0 && (
+            <div className="batch-actions">
+              <span>{selected.size} selected</span>
+              <button onClick={handleBatchScope} disabled={isStartingBatch} className="refresh-button">
+                {isStartingBatch ? 'Queuing...' : '🔍 Scope selected'}
+              </button>
+              <button onClick={() => setSelected(new Set())} className="clear-filters-button">
+                Clear selection
+              </button>
+              {batchError && <span className="batch-actions-error">{batchError}</span>}
+            </div>
+          )}
+
+          {loading && issues.length === 0 && (
+            <div className="loading-state">
+              <div className="loading-spinner large" />
+              <p>Fetching issues...</p>
+            </div>
+          )}
+
+          {!loading && !error && issues.length === 0 && (hasActiveFilters ? (
+            <div className="empty-state">
+              <h3>No matching issues</h3>
+              <p>No issues match your current filters.</p>
+              <button onClick={clearFilters} className="retry-button">
+                Clear filters
+              </button>
+            </div>
+          ) : (
+            <div className="empty-state">
+              <h3>📭 No {stateFilter === 'all' ? '' : stateFilter.charAt(0).toUpperCase() + stateFilter.slice(1) + ' '}Issues</h3>
+              <p>
+                There are no {stateFilter === 'all' ? '' : stateFilter + ' '}issues in{' '}
+                {repoFilter || (repositories.length > 1 ? 'the configured repositories' : 'the configured repository')}.
+              </p>
+            </div>
+          ))}
+
+          {issues.map(issue => (
+            <IssueRow
+              key={issueKey(issue)}
+              issue={issue}
+              showRepository={repoFilter === '' && repositories.length > 1}
+              selected={selected.has(issueKey(issue))}
+              onSelectChange={canScope ? (isSelected) => toggleSelected(issue, isSelected) : undefined}
+              sessionsVersion={batchSessionCounts[issueKey(issue)]}
+              requiresApproval={repositories.some(repo => repo.full_name === issue.repository && repo.require_approval)}
+            />
+          ))}
+
+          {nextPage !== null && (
+            <div ref={sentinelRef} className="load-more">
+              <button onClick={loadMore} disabled={loadingMore || loading} className="clear-filters-button">
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </div>
       </main>
       
       <footer className="footer">
@@ -0,0 +1,252 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+type BudgetMetric = 'sessions' | 'acus' | 'hours';
+
+interface UsageTotals {
+  sessions: number;
+  acus: number;
+  duration_seconds: number;
+  active_seconds: number;
+}
+
+interface PeriodUsage extends UsageTotals {
+  period: string;
+}
+
+interface BudgetPeriodStatus {
+  period: string;
+  limits: Record<BudgetMetric, number | null>;
+  used: Record<BudgetMetric, number>;
+  exceeded: BudgetMetric[];
+}
+
+interface UsageReport {
+  daily: PeriodUsage[];
+  monthly: PeriodUsage[];
+  by_repository: Array<UsageTotals & { repository: string }>;
+  by_issue: Array<UsageTotals & { repository: string; issue_number: number; title?: string }>;
+  budget: {
+    daily: BudgetPeriodStatus;
+    monthly: BudgetPeriodStatus;
+  };
+}
+
+interface Repository {
+  full_name: string;
+}
+
+const METRIC_LABELS: Record<BudgetMetric, string> = {
+  sessions: 'Sessions',
+  acus: 'ACUs',
+  hours: 'Session hours',
+};
+
+function formatHours(seconds: number): string {
+  return (seconds / 3600).toFixed(1);
+}
+
+function formatAmount(metric: BudgetMetric, value: number): string {
+  return metric === 'sessions' ? String(value) : value.toFixed(1);
+}
+
+function BudgetCard({ title, status }: { title: string; status: BudgetPeriodStatus }) {
+  return (
+    <div className="usage-card">
+      <div className="usage-card-title">
+        {title} <span className="usage-card-period">{status.period}</span>
+      </div>
+      {(Object.keys(METRIC_LABELS) as BudgetMetric[]).map(metric => {
+        const limit = status.limits[metric];
+        const used = status.used[metric];
+        const isExceeded = status.exceeded.includes(metric);
+
+        return (
+          <div key={metric} className="usage-budget-row">
+            <div className="usage-budget-label">
+              <span>{METRIC_LABELS[metric]}</span>
+              <span className={isExceeded ? 'usage-exceeded' : ''}>
+                {formatAmount(metric, used)}{limit !== null ? ` / ${limit}` : ''}
+              </span>
+            </div>
+            {limit !== null && (
+              <div className="batch-progress-bar">
+                <div
+                  className={`batch-progress-fill ${isExceeded ? 'usage-fill-exceeded' : ''}`}
+                  style={{ width: `${limit > 0 ? Math.min(100, (used / limit) * 100) : 100}%` }}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {status.exceeded.length > 0 && (
+        <p className="usage-exceeded">New sessions are blocked until the budget resets.</p>
+      )}
+    </div>
+  );
+}
+
+function UsageTable({ label, rows }: { label: string; rows: Array<UsageTotals & { key: string; name: string }> }) {
+  return (
+    <table className="usage-table">
+      <thead>
+        <tr>
+          <th>{label}</th>
+          <th>Sessions</th>
+          <th>ACUs</th>
+          <th>Hours</th>
+          <th>Running hours</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key}>
+            <td>{row.name}</td>
+            <td>{row.sessions}</td>
+            <td>{row.acus.toFixed(1)}</td>
+            <td>{formatHours(row.duration_seconds)}</td>
+            <td>{formatHours(row.active_seconds)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function UsagePage() {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [repositories, setRepositories] = useState<Repository[]>([]);
+  const [repo, setRepo] = useState('');
+
+  useEffect(() => {
+    fetch('/api/repos')
+      .then(response => response.json())
+      .then(data => setRepositories(data.repositories || []))
+      .catch(() => setRepositories([]));
+  }, []);
+
+  useEffect(() => {
+    fetch(repo ? `/api/usage?repo=${encodeURIComponent(repo)}` : '/api/usage')
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load usage');
+        setReport(data);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load usage'));
+  }, [repo]);
+
+  const busiestDay = Math.max(1, ...(report?.daily.map(day => day.sessions) ?? []));
+
+  return (
+    <div className="container">
+      <header className="header">
+        <div className="header-content">
+          <h1>📊 Usage</h1>
+          <p className="subtitle">What Devin sessions have used, and what is left of the budget</p>
+        </div>
+        <div className="header-actions">
+          {repositories.length > 1 && (
+            <select
+              value={repo}
+              onChange={(e) => setRepo(e.target.value)}
+              className="label-select repo-select"
+              aria-label="Repository"
+            >
+              <option value="">All repositories</option>
+              {repositories.map(repository => (
+                <option key={repository.full_name} value={repository.full_name}>{repository.full_name}</option>
+              ))}
+            </select>
+          )}
+          <Link href="/" className="refresh-button">
+            ← Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="main">
+        {error && (
+          <div className="error-state">
+            <h3>❌ Error</h3>
+            <p>{error}</p>
+          </div>
+        )}
+
+        {!report && !error && (
+          <div className="loading-state">
+            <div className="loading-spinner large" />
+            <p>Loading usage...</p>
+          </div>
+        )}
+
+        {report && (
+          <>
+            <section className="usage-cards">
+              <BudgetCard title="Today" status={report.budget.daily} />
+              <BudgetCard title="This month" status={report.budget.monthly} />
+            </section>
+
+            <section className="usage-section">
+              <h2>Daily</h2>
+              <div className="usage-chart" aria-hidden="true">
+                {report.daily.map(day => (
+                  <div
+                    key={day.period}
+                    className="usage-chart-bar"
+                    style={{ height: `${(day.sessions / busiestDay) * 100}%` }}
+                    title={`${day.period}: ${day.sessions} sessions, ${formatHours(day.duration_seconds)} h`}
+                  />
+                ))}
+              </div>
+              <UsageTable
+                label="Day"
+                rows={[...report.daily].reverse().filter(day => day.sessions > 0).map(day => ({
+                  ...day,
+                  key: day.period,
+                  name: day.period,
+                }))}
+              />
+            </section>
+
+            <section className="usage-section">
+              <h2>Monthly</h2>
+              <UsageTable
+                label="Month"
+                rows={[...report.monthly].reverse().map(month => ({ ...month, key: month.period, name: month.period }))}
+              />
+            </section>
+
+            {report.by_repository.length > 0 && (
+              <section className="usage-section">
+                <h2>By repository (last {report.daily.length} days)</h2>
+                <UsageTable
+                  label="Repository"
+                  rows={report.by_repository.map(row => ({ ...row, key: row.repository, name: row.repository }))}
+                />
+              </section>
+            )}
+
+            {report.by_issue.length > 0 && (
+              <section className="usage-section">
+                <h2>Top issues (last {report.daily.length} days)</h2>
+                <UsageTable
+                  label="Issue"
+                  rows={report.by_issue.map(row => ({
+                    ...row,
+                    key: `${row.repository}#${row.issue_number}`,
+                    name: `${row.repository}#${row.issue_number}${row.title ? ` ${row.title}` : ''}`,
+                  }))}
+                />
+              </section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { refreshSession } from '@/lib/sessionStream';
+import { useCurrentUser } from '@/lib/currentUser';
+import { hasRole } from '@/lib/roles';
+import type { ApprovalState, ScopeApproval } from '@/lib/workflowStatus';
+
+interface ApprovalPanelProps {
+  sessionId: string;
+  /** Null for scopes started before the repository required approval */
+  approval: ScopeApproval | null;
+  /** Whether scoping is done, so there is a plan to approve */
+  isScoped: boolean;
+}
+
+const STATE_LABELS: Record<ApprovalState, string> = {
+  requested: 'Approval requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+function formatTimestamp(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function ApprovalPanel({ sessionId, approval, isScoped }: ApprovalPanelProps) {
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const user = useCurrentUser();
+
+  const state = approval?.state ?? null;
+  const isRequester = user !== null && approval?.requested_by.toLowerCase() === user.login.toLowerCase();
+  const canDecide = state === 'requested' && isScoped && hasRole(user, 'executor') && !isRequester;
+  // Approvals from before plans were saved have to be requested again
+  const isApproved = state === 'approved' && approval?.approved_plan !== undefined;
+  const canRequest = isScoped && state !== 'requested' && !isApproved && hasRole(user, 'scoper');
+
+  const submit = async (path: string, body: Record<string, unknown>) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update approval');
+      }
+
+      setComment('');
+      // The stream carries the new approval to every view of the session
+      await refreshSession(sessionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update approval');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={`approval-panel approval-panel-${state ?? 'none'}`}>
+      <div className="approval-header">
+        <span className="approval-title">🛡 Two-person approval</span>
+        <span className="approval-state">{state ? STATE_LABELS[state] : 'Not requested'}</span>
+      </div>
+
+      {approval && approval.history.length > 0 && (
+        <ol className="approval-history">
+          {approval.history.map(event => (
+            <li key={`${event.state}-${event.at}`} className={`approval-event approval-event-${event.state}`}>
+              <span className="approval-event-meta">
+                {STATE_LABELS[event.state]} by {event.actor} · {formatTimestamp(event.at)}
+              </span>
+              {event.comment && <p className="approval-comment">{event.comment}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {state === 'requested' && isRequester && (
+        <p className="approval-note">You requested this scope, so someone else needs to approve it.</p>
+      )}
+
+      {state === 'requested' && !isScoped && (
+        <p className="approval-note">It can be approved once scoping is done.</p>
+      )}
+
+      {(canDecide || canRequest) && (
+        <div className="approval-actions">
+          <textarea
+            className="clarifications-input"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={canDecide ? 'Comment (required to reject)' : 'What changed since it was rejected? (optional)'}
+            rows={2}
+          />
+          <div className="approval-buttons">
+            {canDecide ? (
+              <>
+                <button
+                  onClick={() => submit('approval/decision', { decision: 'approve', comment })}
+                  disabled={isSubmitting}
+                  className="timeline-button approval-approve"
+                >
+                  ✓ Approve
+                </button>
+                <button
+                  onClick={() => submit('approval/decision', { decision: 'reject', comment })}
+                  disabled={isSubmitting || !comment.trim()}
+                  className="timeline-button approval-reject"
+                  title={!comment.trim() ? 'Say why in a comment' : undefined}
+                >
+                  ✕ Reject
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => submit('approval', { comment })}
+                disabled={isSubmitting}
+                className="timeline-button"
+              >
+                {state === 'rejected' || state === 'approved' ? 'Request approval again' : 'Request approval'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <span className="scope-comment-error">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect } from 'react';
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchJob {
+  repository: string;
+  issue_number: number;
+  status: BatchJobStatus;
+  session_id?: string;
+  session_url?: string;
+  error?: string;
+}
+
+export interface ScopeBatch {
+  id: string;
+  created_at: string;
+  jobs: BatchJob[];
+}
+
+interface BatchProgressProps {
+  batch: ScopeBatch;
+  onChange: (batch: ScopeBatch) => void;
+  onDismiss: () => void;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_LABELS: Record<BatchJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+export function isBatchFinished(batch: ScopeBatch): boolean {
+  return batch.jobs.every(job => job.status === 'done' || job.status === 'failed');
+}
+
+export function BatchProgress({ batch, onChange, onDismiss }: BatchProgressProps) {
+  const finished = isBatchFinished(batch);
+
+  // The queue runs on the server; follow it until every job has settled
+  useEffect(() => {
+    if (finished) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/issues/batch/${batch.id}`);
+        const data = await response.json();
+        if (response.ok) onChange(data.batch);
+      } catch {
+        // Try again on the next tick
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [batch.id, finished, onChange]);
+
+  const counts = batch.jobs.reduce<Record<BatchJobStatus, number>>(
+    (acc, job) => ({ ...acc, [job.status]: acc[job.status] + 1 }),
+    { queued: 0, running: 0, done: 0, failed: 0 }
+  );
+  const settled = counts.done + counts.failed;
+
+  return (
+    <div className="batch-progress">
+      <div className="batch-progress-header">
+        <span className="batch-progress-title">
+          {finished ? '✓ Batch scope finished' : '⟳ Batch scope in progress'}
+          {' '}({settled}/{batch.jobs.length})
+        </span>
+        <span className="batch-progress-counts">
+          {(Object.keys(STATUS_LABELS) as BatchJobStatus[]).map(status => (
+            <span key={status} className={`batch-count batch-status-${status}`}>
+              {STATUS_LABELS[status]} {counts[status]}
+            </span>
+          ))}
+        </span>
+        <button onClick={onDismiss} className="batch-dismiss" title="Hide this batch">
+          ✕
+        </button>
+      </div>
+      <div className="batch-progress-bar">
+        <div
+          className="batch-progress-fill"
+          style={{ width: `${batch.jobs.length ? (settled / batch.jobs.length) * 100 : 0}%` }}
+        />
+      </div>
+      <ul className="batch-jobs">
+        {batch.jobs.map(job => (
+          <li key={`${job.repository}#${job.issue_number}`} className="batch-job">
+            <span className={`batch-job-status batch-status-${job.status}`}>
+              {STATUS_LABELS[job.status]}
+            </span>
+            <span className="batch-job-issue">{job.repository}#{job.issue_number}</span>
+            {job.session_url && (
+              <a
+                href={job.session_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="batch-job-link"
+              >
+                Session →
+              </a>
+            )}
+            {job.error && <span className="batch-job-error">{job.error}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
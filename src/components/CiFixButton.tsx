@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+
+interface CiFixButtonProps {
+  sessionId: string;
+  /** Called when a new fix session was started (not when a session was messaged) */
+  onSessionStarted?: (sessionId: string) => void;
+}
+
+interface CiFixResult {
+  mode: 'message' | 'session';
+  session_id: string;
+  failed_checks: string[];
+}
+
+export function CiFixButton({ sessionId, onSessionStarted }: CiFixButtonProps) {
+  const [isStarting, setIsStarting] = useState(false);
+  const [result, setResult] = useState<CiFixResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFix = async () => {
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/ci-fix`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start CI fix');
+      }
+
+      setResult(data);
+      if (data.mode === 'session') {
+        onSessionStarted?.(data.session_id);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start CI fix');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="scope-comment-actions">
+      <button
+        onClick={handleFix}
+        disabled={isStarting || result !== null}
+        className="timeline-button"
+        title="Send the failed checks and their logs to Devin"
+      >
+        {isStarting ? 'Collecting logs...' : '🔧 Fix CI'}
+      </button>
+      {result && (
+        <span className="followup-result">
+          {result.mode === 'message'
+            ? `Sent ${result.failed_checks.length} failing check(s) to the running session`
+            : `Started a fix session for ${result.failed_checks.length} failing check(s)`}
+        </span>
+      )}
+      {error && <span className="scope-comment-error">{error}</span>}
+    </div>
+  );
+}
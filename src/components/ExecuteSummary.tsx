@@ -0,0 +1,285 @@
+'use client';
+
+import { RawJsonPanel } from './RawJsonPanel';
+import {
+  ExecuteOutputSchema,
+  ReviewResponseOutputSchema,
+  ScopeOutputSchema,
+  type ExecuteOutput,
+  type ReviewCommentResolution,
+  type ScopeOutput,
+} from '@/lib/schemas';
+import { useSessionStream } from '@/lib/sessionStream';
+
+interface ExecuteSummaryProps {
+  data: Record<string, unknown>;
+  /** Scope session whose action plan this execute session follows */
+  scopeSessionId?: string;
+  pullRequestUrl?: string | null;
+}
+
+type StepState = 'done' | 'current' | 'next' | 'pending';
+
+interface PlanStep {
+  step: number;
+  title: string;
+  state: StepState;
+}
+
+const STEP_ICONS: Record<StepState, string> = {
+  done: '✅',
+  current: '🔄',
+  next: '⏭',
+  pending: '⬜',
+};
+
+function parseExecuteOutput(data: Record<string, unknown>): ExecuteOutput | null {
+  const result = ExecuteOutputSchema.safeParse(data);
+  return result.success ? result.data : null;
+}
+
+// Only review-response sessions report these
+function parseReviewComments(data: Record<string, unknown>): ReviewCommentResolution[] | null {
+  const result = ReviewResponseOutputSchema.shape.review_comments.safeParse(data.review_comments);
+  return result.success ? result.data : null;
+}
+
+function parseScopeOutput(data: Record<string, unknown> | null | undefined): ScopeOutput | null {
+  if (!data) return null;
+  const result = ScopeOutputSchema.safeParse(data);
+  return result.success ? result.data : null;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Whether a task string reported by Devin refers to an action plan step,
+ * either by number ("Step 2: ...") or by mentioning the step title.
+ */
+function matchesStep(task: string, step: ScopeOutput['action_plan'][number]): boolean {
+  const numbered = task.match(/\bstep\s*(\d+)/i);
+  if (numbered) {
+    return parseInt(numbered[1], 10) === step.step;
+  }
+
+  const normalizedTask = normalize(task);
+  const normalizedTitle = normalize(step.title);
+  if (!normalizedTask || !normalizedTitle) return false;
+
+  return normalizedTask.includes(normalizedTitle) ||
+    (normalizedTask.length > 3 && normalizedTitle.includes(normalizedTask));
+}
+
+function mapPlanProgress(
+  plan: ScopeOutput['action_plan'],
+  output: ExecuteOutput
+): { steps: PlanStep[]; unmatched: string[] } {
+  const matchedTasks = new Set<string>();
+
+  const steps = plan.map(step => {
+    const completed = output.completed_tasks.filter(task => matchesStep(task, step));
+    completed.forEach(task => matchedTasks.add(task));
+
+    let state: StepState = 'pending';
+    if (completed.length > 0 || output.status === 'completed') {
+      state = 'done';
+    } else if (output.current_task && matchesStep(output.current_task, step)) {
+      state = 'current';
+    } else if (output.next_task && matchesStep(output.next_task, step)) {
+      state = 'next';
+    }
+
+    return { step: step.step, title: step.title, state };
+  });
+
+  const unmatched = output.completed_tasks.filter(task => !matchedTasks.has(task));
+  return { steps, unmatched };
+}
+
+function BlockingBanner({ output }: { output: ExecuteOutput }) {
+  if (output.status === 'failed') {
+    return (
+      <div className="execute-banner execute-banner-error">
+        <span className="execute-banner-icon">✖</span>
+        <div>
+          <strong>Execution failed</strong>
+          {output.blocking_issue && <p>{output.blocking_issue}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  if (output.needs_human_input || output.status === 'blocked') {
+    return (
+      <div className="execute-banner execute-banner-warning">
+        <span className="execute-banner-icon">⚠</span>
+        <div>
+          <strong>Devin needs your input</strong>
+          <p>{output.blocking_issue || 'Devin is waiting for a reply.'}</p>
+          <p className="execute-banner-hint">Answer in the reply box below to unblock the session.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+}
+
+const RESOLUTION_LABELS: Record<ReviewCommentResolution['resolution'], string> = {
+  pending: '⬜ Pending',
+  fixed: '✅ Fixed',
+  declined: '✖ Declined',
+  needs_discussion: '💬 Needs discussion',
+};
+
+function ReviewComments({ comments }: { comments: ReviewCommentResolution[] }) {
+  const resolved = comments.filter(c => c.resolution !== 'pending').length;
+
+  return (
+    <div className="scope-section">
+      <h5 className="scope-section-title">Review Comments ({resolved}/{comments.length})</h5>
+      <ul className="review-comments">
+        {comments.map(comment => (
+          <li key={comment.thread_id} className={`review-comment review-comment-${comment.resolution}`}>
+            <div className="review-comment-header">
+              <code>{comment.line !== null ? `${comment.path}:${comment.line}` : comment.path}</code>
+              <span className="review-comment-resolution">{RESOLUTION_LABELS[comment.resolution]}</span>
+            </div>
+            {comment.note && <p className="review-comment-note">{comment.note}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ProgressChecklist({ output, plan }: { output: ExecuteOutput; plan: ScopeOutput['action_plan'] | null }) {
+  // Without the scope's plan, fall back to the tasks Devin reports
+  if (!plan || plan.length === 0) {
+    return (
+      <ul className="execute-checklist">
+        {output.completed_tasks.map((task, index) => (
+          <li key={index} className="execute-step execute-step-done">
+            <span className="execute-step-icon">{STEP_ICONS.done}</span>
+            <span>{task}</span>
+          </li>
+        ))}
+        {output.current_task && output.status !== 'completed' && (
+          <li className="execute-step execute-step-current">
+            <span className="execute-step-icon">{STEP_ICONS.current}</span>
+            <span>{output.current_task}</span>
+          </li>
+        )}
+        {output.next_task && output.status !== 'completed' && (
+          <li className="execute-step execute-step-next">
+            <span className="execute-step-icon">{STEP_ICONS.next}</span>
+            <span>{output.next_task}</span>
+          </li>
+        )}
+      </ul>
+    );
+  }
+
+  const { steps, unmatched } = mapPlanProgress(plan, output);
+  const doneCount = steps.filter(step => step.state === 'done').length;
+
+  return (
+    <>
+      <div className="execute-progress-bar" title={`${doneCount} of ${steps.length} steps done`}>
+        <div
+          className="execute-progress-fill"
+          style={{ width: `${Math.round((doneCount / steps.length) * 100)}%` }}
+        />
+      </div>
+      <ol className="execute-checklist">
+        {steps.map(step => (
+          <li key={step.step} className={`execute-step execute-step-${step.state}`}>
+            <span className="execute-step-icon">{STEP_ICONS[step.state]}</span>
+            <span>
+              {step.step}. {step.title}
+            </span>
+          </li>
+        ))}
+      </ol>
+      {output.current_task && output.status !== 'completed' && (
+        <p className="execute-current-task">
+          <span className="execute-label">Now:</span> {output.current_task}
+        </p>
+      )}
+      {unmatched.length > 0 && (
+        <div className="execute-other-work">
+          <span className="execute-label">Also done:</span>
+          <ul className="scope-list">
+            {unmatched.map((task, index) => (
+              <li key={index}>{task}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+}
+
+export function ExecuteSummary({ data, scopeSessionId, pullRequestUrl }: ExecuteSummaryProps) {
+  const parsed = parseExecuteOutput(data);
+  const reviewComments = parseReviewComments(data);
+  // The scope session is usually already streaming for the timeline
+  const scopeSession = useSessionStream(scopeSessionId ?? null).session;
+  const plan = parseScopeOutput(scopeSession?.structured_output)?.action_plan ?? null;
+
+  if (!parsed) {
+    return <RawJsonPanel data={data} title="Raw Output (parsing failed)" />;
+  }
+
+  return (
+    <div className="execute-summary">
+      <BlockingBanner output={parsed} />
+
+      <div className="scope-section">
+        <h5 className="scope-section-title">Progress</h5>
+        <ProgressChecklist output={parsed} plan={plan} />
+      </div>
+
+      {reviewComments && <ReviewComments comments={reviewComments} />}
+
+      <div className="scope-section">
+        <h5 className="scope-section-title">
+          Files Changed ({parsed.files_changed.length})
+          {pullRequestUrl && parsed.files_changed.length > 0 && (
+            <a
+              href={`${pullRequestUrl}/files`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="execute-files-link"
+            >
+              View diff →
+            </a>
+          )}
+        </h5>
+        {parsed.files_changed.length > 0 ? (
+          <ul className="execute-files">
+            {parsed.files_changed.map(file => (
+              <li key={file}>{file}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="scope-empty">None yet</p>
+        )}
+      </div>
+
+      <div className="scope-section">
+        <h5 className="scope-section-title">Tests</h5>
+        <div className={`execute-tests ${parsed.tests_run.ran ? 'ran' : 'not-run'}`}>
+          <span className="execute-tests-status">
+            {parsed.tests_run.ran ? '🧪 Tests run' : 'Tests not run yet'}
+          </span>
+          {parsed.tests_run.summary && (
+            <p className="execute-tests-summary">{parsed.tests_run.summary}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,17 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
-import { SessionStatus } from './SessionStatus';
 import { IssueModal } from './IssueModal';
 import { StatusStrip } from './StatusStrip';
+import { SessionTimeline, type SessionInfo } from './SessionTimeline';
+import { refreshSession, useSessionStream } from '@/lib/sessionStream';
+import { useCurrentUser } from '@/lib/currentUser';
+import { hasRole } from '@/lib/roles';
+import type { FollowUpKind } from '@/lib/sessionStore';
 
 interface Issue {
+  /** `owner/repo` */
+  repository: string;
   number: number;
   title: string;
   body: string | null;
@@ -17,56 +23,113 @@ interface Issue {
   user: { login: string; avatar_url: string } | null;
 }
 
-interface SessionInfo {
-  sessionId: string;
-  type: 'scope' | 'execute';
-}
-
 interface IssueRowProps {
   issue: Issue;
+  /** Show which repository the issue is in, e.g. in the all-repos view */
+  showRepository?: boolean;
+  /** Whether the issue is picked for a batch; omit to hide the checkbox */
+  selected?: boolean;
+  onSelectChange?: (selected: boolean) => void;
+  /** Bumped when sessions were started elsewhere, e.g. by a batch */
+  sessionsVersion?: number;
+  /** Whether the repository needs scopes approved by a second person before execute */
+  requiresApproval?: boolean;
+}
+
+interface SessionRecord {
+  session_id: string;
+  type: 'scope' | 'execute';
+  created_at: string;
+  scope_session_id?: string;
+  trigger?: string;
+  started_by?: string;
+  archived_at?: string;
+  followup?: { kind: FollowUpKind; parent_session_id: string };
+  prompt_template?: { name: string; version: number };
+  usage?: { acus: number; duration_seconds: number };
 }
 
-// Storage key for persisting session IDs
-const getStorageKey = (issueNumber: number, type: 'scope' | 'execute') => 
-  `devin-session-${issueNumber}-${type}`;
+function toSessionInfo(record: SessionRecord): SessionInfo {
+  return {
+    sessionId: record.session_id,
+    type: record.type,
+    createdAt: record.created_at,
+    scopeSessionId: record.scope_session_id,
+    trigger: record.trigger,
+    startedBy: record.started_by,
+    archivedAt: record.archived_at,
+    followup: record.followup && {
+      kind: record.followup.kind,
+      parentSessionId: record.followup.parent_session_id,
+    },
+    promptVersion: record.prompt_template?.version,
+    usage: record.usage && {
+      acus: record.usage.acus,
+      durationSeconds: record.usage.duration_seconds,
+    },
+  };
+}
 
-export function IssueRow({ issue }: IssueRowProps) {
+export function IssueRow({
+  issue,
+  showRepository = false,
+  selected,
+  onSelectChange,
+  sessionsVersion = 0,
+  requiresApproval = false,
+}: IssueRowProps) {
   const [sessions, setSessions] = useState<SessionInfo[]>([]);
   const [isExpanded, setIsExpanded] = useState(false);
   const [isLoading, setIsLoading] = useState<'scope' | 'execute' | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [scopeOutput, setScopeOutput] = useState<Record<string, unknown> | null>(null);
+  const [scopeOutputs, setScopeOutputs] = useState<Record<string, Record<string, unknown> | null>>({});
+  const [selectedScopeId, setSelectedScopeId] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [clarifications, setClarifications] = useState('');
+  const [terminatePrevious, setTerminatePrevious] = useState(false);
+  const user = useCurrentUser();
+  const canScope = hasRole(user, 'scoper');
+  const canExecute = hasRole(user, 'executor');
 
-  // Load persisted sessions on mount
+  // Load recorded sessions from the server registry on mount
   useEffect(() => {
-    const loadedSessions: SessionInfo[] = [];
-    
-    const scopeId = localStorage.getItem(getStorageKey(issue.number, 'scope'));
-    if (scopeId) {
-      loadedSessions.push({ sessionId: scopeId, type: 'scope' });
-    }
-    
-    const executeId = localStorage.getItem(getStorageKey(issue.number, 'execute'));
-    if (executeId) {
-      loadedSessions.push({ sessionId: executeId, type: 'execute' });
-    }
-    
-    if (loadedSessions.length > 0) {
-      setSessions(loadedSessions);
-      // Default to collapsed for closed issues, expanded for open issues
-      setIsExpanded(issue.state !== 'closed');
-    }
-  }, [issue.number, issue.state]);
+    let cancelled = false;
+
+    const loadSessions = async () => {
+      try {
+        const response = await fetch(`/api/repos/${issue.repository}/issues/${issue.number}/sessions`);
+        const data = await response.json();
+        if (!response.ok || cancelled) return;
+
+        // Records are oldest first, which is the order the timeline expects
+        const records: SessionRecord[] = data.sessions || [];
+        const loadedSessions = records.map(toSessionInfo);
+
+        if (loadedSessions.length > 0) {
+          setSessions(loadedSessions);
+          // Default to collapsed for closed issues, expanded for open issues
+          setIsExpanded(issue.state !== 'closed');
+        }
+      } catch {
+        // Leave the sessions panel empty if the registry is unreachable
+      }
+    };
+
+    loadSessions();
+    return () => {
+      cancelled = true;
+    };
+  }, [issue.repository, issue.number, issue.state, sessionsVersion]);
 
   const handleScope = useCallback(async () => {
     setIsLoading('scope');
     setError(null);
     
     try {
-      const response = await fetch(`/api/issues/${issue.number}/scope`, {
+      const response = await fetch(`/api/repos/${issue.repository}/issues/${issue.number}/scope`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ terminatePrevious }),
       });
       const data = await response.json();
       
@@ -74,25 +137,33 @@ export function IssueRow({ issue }: IssueRowProps) {
         throw new Error(data.error || 'Failed to create scope session');
       }
       
-      // Persist session ID
-      localStorage.setItem(getStorageKey(issue.number, 'scope'), data.session_id);
+      // Show replaced sessions as stopped without waiting for the next poll
+      data.stopped_session_ids?.forEach((id: string) => refreshSession(id));
       
-      setSessions(prev => {
-        const filtered = prev.filter(s => s.type !== 'scope');
-        return [...filtered, { sessionId: data.session_id, type: 'scope' }];
-      });
+      setSessions(prev => [
+        ...prev,
+        { sessionId: data.session_id, type: 'scope', createdAt: new Date().toISOString(), startedBy: data.started_by },
+      ]);
+      // New attempts become the default basis for execute
+      setSelectedScopeId(null);
       setIsExpanded(true);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to scope issue');
     } finally {
       setIsLoading(null);
     }
-  }, [issue.number]);
+  }, [issue.repository, issue.number, terminatePrevious]);
+
+  // Archived sessions never count as the latest attempt
+  const unarchived = sessions.filter(s => !s.archivedAt);
+  const latestScopeId = unarchived.filter(s => s.type === 'scope').pop()?.sessionId ?? null;
+  const latestExecuteId = unarchived.filter(s => s.type === 'execute').pop()?.sessionId ?? null;
+  const activeScopeId = selectedScopeId ?? latestScopeId;
+  const activeScopeApproval = useSessionStream(activeScopeId).session?.approval ?? null;
+  const needsApproval = requiresApproval && activeScopeApproval?.state !== 'approved';
 
   const handleExecute = useCallback(async () => {
-    const scopeSession = sessions.find(s => s.type === 'scope');
-    
-    if (!scopeSession) {
+    if (!activeScopeId) {
       setError('Please scope the issue first');
       return;
     }
@@ -101,12 +172,13 @@ export function IssueRow({ issue }: IssueRowProps) {
     setError(null);
     
     try {
-      const response = await fetch(`/api/issues/${issue.number}/execute`, {
+      const response = await fetch(`/api/repos/${issue.repository}/issues/${issue.number}/execute`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
-          scopeSessionId: scopeSession.sessionId,
+          scopeSessionId: activeScopeId,
           clarifications: clarifications.trim() || undefined,
+          terminatePrevious,
         }),
       });
       const data = await response.json();
@@ -115,26 +187,75 @@ export function IssueRow({ issue }: IssueRowProps) {
         throw new Error(data.error || 'Failed to create execute session');
       }
       
-      // Persist session ID
-      localStorage.setItem(getStorageKey(issue.number, 'execute'), data.session_id);
+      data.stopped_session_ids?.forEach((id: string) => refreshSession(id));
       
-      setSessions(prev => {
-        const filtered = prev.filter(s => s.type !== 'execute');
-        return [...filtered, { sessionId: data.session_id, type: 'execute' }];
-      });
+      setSessions(prev => [
+        ...prev,
+        {
+          sessionId: data.session_id,
+          type: 'execute',
+          createdAt: new Date().toISOString(),
+          scopeSessionId: activeScopeId,
+          startedBy: data.started_by,
+        },
+      ]);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to execute plan');
     } finally {
       setIsLoading(null);
     }
-  }, [issue.number, sessions, clarifications]);
+  }, [issue.repository, issue.number, activeScopeId, clarifications, terminatePrevious]);
 
-  const handleScopeOutput = useCallback((output: Record<string, unknown> | null) => {
-    setScopeOutput(output);
+  const handleArchive = useCallback(async (sessionId: string, archived: boolean) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ archived }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to archive session');
+      }
+
+      setSessions(prev => prev.map(s =>
+        s.sessionId === sessionId ? { ...s, archivedAt: data.archived_at ?? undefined } : s
+      ));
+      if (archived && sessionId === selectedScopeId) {
+        setSelectedScopeId(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to archive session');
+    }
+  }, [selectedScopeId]);
+
+  const handleFollowUp = useCallback((sessionId: string, followup: { kind: FollowUpKind; parentSessionId: string }) => {
+    setSessions(prev => {
+      // Follow-ups of follow-ups point at the session that opened the PR, as on the server
+      const parent = prev.find(s => s.sessionId === followup.parentSessionId);
+      return [
+        ...prev,
+        {
+          sessionId,
+          type: 'execute',
+          createdAt: new Date().toISOString(),
+          scopeSessionId: parent?.scopeSessionId,
+          followup: { ...followup, parentSessionId: parent?.followup?.parentSessionId ?? followup.parentSessionId },
+        },
+      ];
+    });
+  }, []);
+
+  const handleScopeOutput = useCallback((output: Record<string, unknown> | null, sessionId: string) => {
+    setScopeOutputs(prev => ({ ...prev, [sessionId]: output }));
   }, []);
 
-  const hasScopeSession = sessions.some(s => s.type === 'scope');
-  const hasExecuteSession = sessions.some(s => s.type === 'execute');
+  const hasScopeSession = latestScopeId !== null;
+  const hasExecuteSession = latestExecuteId !== null;
+  const scopeOutput = activeScopeId ? scopeOutputs[activeScopeId] ?? null : null;
   const isReadyToExecute = scopeOutput && 
     ('ready_to_execute' in scopeOutput ? Boolean(scopeOutput.ready_to_execute) : true);
 
@@ -143,6 +264,18 @@ export function IssueRow({ issue }: IssueRowProps) {
       <div className="issue-main">
         <div className="issue-info">
           <div className="issue-header">
+            {onSelectChange && (
+              <input
+                type="checkbox"
+                checked={selected === true}
+                onChange={(e) => onSelectChange(e.target.checked)}
+                className="issue-select"
+                aria-label={`Select issue #${issue.number}`}
+              />
+            )}
+            {showRepository && (
+              <span className="repo-badge">{issue.repository}</span>
+            )}
             <span className="issue-number">#{issue.number}</span>
             {issue.state === 'closed' && (
               <span className="state-badge state-closed">Closed</span>
@@ -191,21 +324,44 @@ export function IssueRow({ issue }: IssueRowProps) {
           
                   <button
                     onClick={handleScope}
-                    disabled={isLoading !== null}
+                    disabled={isLoading !== null || !canScope}
                     className="action-button scope-button"
+                    title={!canScope ? 'Needs the scoper role' : undefined}
                   >
                     {isLoading === 'scope' ? 'Scoping...' : hasScopeSession ? 'Re-scope' : '🔍 Scope'}
                   </button>
           
                   <button
                     onClick={handleExecute}
-                    disabled={isLoading !== null || !hasScopeSession}
-                    className={`action-button execute-button ${!hasScopeSession ? 'disabled' : ''}`}
-                    title={!hasScopeSession ? 'Scope the issue first' : isReadyToExecute ? 'Execute the action plan' : 'Waiting for scope to complete'}
+                    disabled={isLoading !== null || !hasScopeSession || !canExecute || needsApproval}
+                    className={`action-button execute-button ${!hasScopeSession || !canExecute || needsApproval ? 'disabled' : ''}`}
+                    title={
+                      !canExecute
+                        ? 'Needs the executor role'
+                        : !hasScopeSession
+                          ? 'Scope the issue first'
+                          : needsApproval
+                            ? 'Needs a scope approved by someone other than who requested it'
+                            : isReadyToExecute ? 'Execute the action plan' : 'Waiting for scope to complete'
+                    }
                   >
                     {isLoading === 'execute' ? 'Starting...' : hasExecuteSession ? 'Re-execute' : '🚀 Execute'}
                   </button>
           
+                  {sessions.length > 0 && (
+                    <label
+                      className="replace-toggle"
+                      title="Terminate the session a re-scope or re-execute replaces"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={terminatePrevious}
+                        onChange={(e) => setTerminatePrevious(e.target.checked)}
+                      />
+                      Stop replaced
+                    </label>
+                  )}
+          
                   {sessions.length > 0 && (
                     <button
                       onClick={() => setIsExpanded(!isExpanded)}
@@ -227,14 +383,19 @@ export function IssueRow({ issue }: IssueRowProps) {
       {/* Status Strip - Always visible when sessions exist */}
       <StatusStrip
         issueNumber={issue.number}
-        scopeSessionId={sessions.find(s => s.type === 'scope')?.sessionId || null}
-        executeSessionId={sessions.find(s => s.type === 'execute')?.sessionId || null}
+        scopeSessionId={latestScopeId}
+        executeSessionId={latestExecuteId}
       />
       
       {isExpanded && sessions.length > 0 && (
         <div className="sessions-panel">
-          {isReadyToExecute && !hasExecuteSession && (
+          {isReadyToExecute && (
             <div className="clarifications-box">
+              {latestScopeId !== activeScopeId && (
+                <p className="clarifications-note">
+                  Execute will use an earlier scope attempt, not the latest one.
+                </p>
+              )}
               <label className="clarifications-label">
                 Add constraints or clarifications (optional)
               </label>
@@ -247,14 +408,15 @@ export function IssueRow({ issue }: IssueRowProps) {
               />
             </div>
           )}
-          {sessions.map(session => (
-            <SessionStatus
-              key={session.sessionId}
-              sessionId={session.sessionId}
-              type={session.type}
-              onOutput={session.type === 'scope' ? handleScopeOutput : undefined}
-            />
-          ))}
+          <SessionTimeline
+            sessions={sessions}
+            selectedScopeId={activeScopeId}
+            requiresApproval={requiresApproval}
+            onSelectScope={setSelectedScopeId}
+            onScopeOutput={handleScopeOutput}
+            onArchive={handleArchive}
+            onFollowUp={handleFollowUp}
+          />
         </div>
       )}
 
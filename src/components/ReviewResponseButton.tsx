@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+
+interface ReviewResponseButtonProps {
+  sessionId: string;
+  /** Called with the ID of the session that was started */
+  onSessionStarted?: (sessionId: string) => void;
+}
+
+interface ReviewResponseResult {
+  session_id: string;
+  thread_count: number;
+}
+
+export function ReviewResponseButton({ sessionId, onSessionStarted }: ReviewResponseButtonProps) {
+  const [isStarting, setIsStarting] = useState(false);
+  const [result, setResult] = useState<ReviewResponseResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/review-response`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start review response');
+      }
+
+      setResult(data);
+      onSessionStarted?.(data.session_id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start review response');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="scope-comment-actions">
+      <button
+        onClick={handleStart}
+        disabled={isStarting || result !== null}
+        className="timeline-button"
+        title="Start a session that addresses the unresolved review comments"
+      >
+        {isStarting ? 'Collecting comments...' : '💬 Address review'}
+      </button>
+      {result && (
+        <span className="followup-result">
+          Started a session for {result.thread_count} unresolved thread(s)
+        </span>
+      )}
+      {error && <span className="scope-comment-error">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useState } from 'react';
+
+interface ScopeCommentButtonProps {
+  sessionId: string;
+}
+
+interface PublishedComment {
+  url: string;
+  updated: boolean;
+}
+
+export function ScopeCommentButton({ sessionId }: ScopeCommentButtonProps) {
+  const [isPosting, setIsPosting] = useState(false);
+  const [published, setPublished] = useState<PublishedComment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePublish = async () => {
+    setIsPosting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/comment`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to post comment');
+      }
+
+      setPublished({ url: data.url, updated: data.updated });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post comment');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  return (
+    <div className="scope-comment-actions">
+      <button
+        onClick={handlePublish}
+        disabled={isPosting}
+        className="timeline-button"
+        title="Post the plan and open questions on the GitHub issue"
+      >
+        {isPosting ? 'Posting...' : published ? '💬 Update issue comment' : '💬 Post to issue'}
+      </button>
+      {published && (
+        <a
+          href={published.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="scope-comment-link"
+        >
+          {published.updated ? 'Comment updated →' : 'Comment posted →'}
+        </a>
+      )}
+      {error && <span className="scope-comment-error">{error}</span>}
+    </div>
+  );
+}
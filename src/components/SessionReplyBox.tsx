@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import { refreshSession } from '@/lib/sessionStream';
+
+interface SessionReplyBoxProps {
+  sessionId: string;
+  disabled: boolean;
+  placeholder?: string;
+}
+
+export function SessionReplyBox({ sessionId, disabled, placeholder }: SessionReplyBoxProps) {
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sentAt, setSentAt] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/message`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send message');
+      }
+
+      setMessage('');
+      setSentAt(data.sent_at);
+      // Pick up the status change right away instead of waiting for the next poll
+      refreshSession(sessionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.metaKey || event.ctrlKey) && message.trim()) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="session-reply">
+      <textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={disabled ? 'Devin is not accepting messages right now' : placeholder || 'Message Devin...'}
+        className="session-reply-input"
+        rows={2}
+        disabled={disabled || isSending}
+      />
+      <div className="session-reply-actions">
+        {error && <span className="session-reply-error">{error}</span>}
+        {!error && sentAt && (
+          <span className="session-reply-sent">
+            Sent at {new Date(sentAt).toLocaleTimeString()}
+          </span>
+        )}
+        <button
+          onClick={handleSend}
+          disabled={disabled || isSending || !message.trim()}
+          className="timeline-button"
+          title="Send (Ctrl+Enter)"
+        >
+          {isSending ? 'Sending...' : '✉ Send'}
+        </button>
+      </div>
+    </div>
+  );
+}
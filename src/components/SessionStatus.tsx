@@ -1,26 +1,38 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useEffect } from 'react';
 import { ConfidenceBadge } from './ConfidenceBadge';
 import { ScopeSummary } from './ScopeSummary';
-import { RawJsonPanel } from './RawJsonPanel';
-import { deriveWorkflowStatus, getWorkflowKindClass } from '@/lib/workflowStatus';
-
-interface SessionStatusData {
-  session_id: string;
-  url: string;
-  status_enum: string;
-  structured_output: Record<string, unknown> | null;
-  pull_request_url: string | null;
-  updated_at: string;
-  messages_count?: number;
-  title?: string;
-}
+import { ExecuteSummary } from './ExecuteSummary';
+import { CiFixButton } from './CiFixButton';
+import { ReviewResponseButton } from './ReviewResponseButton';
+import { ScopeCommentButton } from './ScopeCommentButton';
+import { SessionReplyBox } from './SessionReplyBox';
+import { SessionTranscript } from './SessionTranscript';
+import { StopSessionButton } from './StopSessionButton';
+import { ApprovalPanel } from './ApprovalPanel';
+import {
+  deriveWorkflowStatus,
+  getWorkflowKindClass,
+  isSessionEnded,
+  isScopePlanLocked,
+  isSessionMessageable,
+} from '@/lib/workflowStatus';
+import { refreshSession, useSessionStream } from '@/lib/sessionStream';
+import { useCurrentUser } from '@/lib/currentUser';
+import { hasRole } from '@/lib/roles';
+import type { FollowUpKind } from '@/lib/sessionStore';
 
 interface SessionStatusProps {
   sessionId: string;
   type: 'scope' | 'execute';
-  onOutput?: (output: Record<string, unknown> | null) => void;
+  /** Scope session an execute session follows, for progress against its plan */
+  scopeSessionId?: string;
+  /** Whether the repository needs scopes approved by a second person before execute */
+  requiresApproval?: boolean;
+  onOutput?: (output: Record<string, unknown> | null, sessionId: string) => void;
+  /** Called when a follow-up session is started from this one */
+  onFollowUp?: (sessionId: string, followup: { kind: FollowUpKind; parentSessionId: string }) => void;
 }
 
 function getConfidenceScore(output: Record<string, unknown> | null): number | null {
@@ -30,56 +42,35 @@ function getConfidenceScore(output: Record<string, unknown> | null): number | nu
   return output.confidence_score;
 }
 
-const TERMINAL_STATUSES = ['finished', 'failed', 'cancelled', 'expired', 'blocked'];
-const POLL_INTERVAL = 15000; // 15 seconds
-
-export function SessionStatus({ sessionId, type, onOutput }: SessionStatusProps) {
-  const [session, setSession] = useState<SessionStatusData | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [isPolling, setIsPolling] = useState(true);
-
-  const fetchSession = useCallback(async () => {
-    try {
-      const response = await fetch(`/api/sessions/${sessionId}`);
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch session');
-      }
-      
-      setSession(data);
-      setError(null);
-      
-      if (onOutput && data.structured_output) {
-        onOutput(data.structured_output);
-      }
-      
-      // Stop polling if session is in terminal state
-      if (TERMINAL_STATUSES.includes(data.status_enum)) {
-        setIsPolling(false);
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch session');
-    }
-  }, [sessionId, onOutput]);
+export function SessionStatus({
+  sessionId,
+  type,
+  scopeSessionId,
+  requiresApproval = false,
+  onOutput,
+  onFollowUp,
+}: SessionStatusProps) {
+  // Live updates come from the shared session stream
+  const { session, error } = useSessionStream(sessionId);
+  const user = useCurrentUser();
+  const canAct = hasRole(user, 'scoper');
+  // Follow-up sessions get GITHUB_TOKEN, like execute
+  const canExecute = hasRole(user, 'executor');
+  // Only those who may start execute sessions may steer or stop them
+  const canSteer = type === 'execute' ? canExecute : canAct;
 
   useEffect(() => {
-    // Initial fetch
-    fetchSession();
-    
-    // Set up polling
-    if (isPolling) {
-      const interval = setInterval(fetchSession, POLL_INTERVAL);
-      return () => clearInterval(interval);
+    if (onOutput && session?.structured_output) {
+      onOutput(session.structured_output, sessionId);
     }
-  }, [fetchSession, isPolling]);
+  }, [session, sessionId, onOutput]);
 
-  if (error) {
+  if (error && !session) {
     return (
       <div className="session-status error">
         <div className="error-badge">Error</div>
         <p className="error-message">{error}</p>
-        <button onClick={fetchSession} className="retry-button">
+        <button onClick={() => refreshSession(sessionId)} className="retry-button">
           Retry
         </button>
       </div>
@@ -100,12 +91,23 @@ export function SessionStatus({ sessionId, type, onOutput }: SessionStatusProps)
     type,
     session.status_enum,
     session.structured_output,
-    session.pull_request_url
+    session.pull_request_url,
+    session.pull_request_state,
+    session.approval
   );
 
   const confidenceScore = type === 'scope' ? getConfidenceScore(session.structured_output) : null;
-  const hasValidUrl = session.url && session.url.trim() !== '';
   const isActive = workflowStatus.kind === 'active';
+  const canReply = isSessionMessageable(session.status_enum);
+  // Messages could change a plan that is up for approval or approved
+  const isPlanLocked = type === 'scope' &&
+    isScopePlanLocked(session.status_enum, session.structured_output, session.approval);
+  const hasEnded = isSessionEnded(session.status_enum);
+  const pullRequest = session.pull_request_state;
+  const isCiFailing = type === 'execute' &&
+    pullRequest?.checks_conclusion === 'failure' &&
+    pullRequest.state !== 'closed';
+  const isPullRequestOpen = type === 'execute' && pullRequest?.state === 'open' && !pullRequest.merged;
 
   return (
     <div className="session-status">
@@ -124,11 +126,12 @@ export function SessionStatus({ sessionId, type, onOutput }: SessionStatusProps)
             </>
           )}
         </span>
-        {isPolling && !workflowStatus.isTerminal && (
-          <span className="polling-indicator" title="Auto-refreshing">
+        {!workflowStatus.isTerminal && (
+          <span className="polling-indicator" title="Live updates">
             ⟳
           </span>
         )}
+        {!hasEnded && canSteer && <StopSessionButton sessionId={sessionId} />}
       </div>
       
       {workflowStatus.detail && (
@@ -157,11 +160,50 @@ export function SessionStatus({ sessionId, type, onOutput }: SessionStatusProps)
         </a>
       )}
       
+      {isCiFailing && canExecute && (
+        <CiFixButton
+          sessionId={sessionId}
+          onSessionStarted={(newSessionId) => onFollowUp?.(newSessionId, { kind: 'ci-fix', parentSessionId: sessionId })}
+        />
+      )}
+      
+      {isPullRequestOpen && hasEnded && canExecute && (
+        <ReviewResponseButton
+          sessionId={sessionId}
+          onSessionStarted={(newSessionId) => onFollowUp?.(newSessionId, { kind: 'review-response', parentSessionId: sessionId })}
+        />
+      )}
+      
+      <SessionTranscript sessionId={sessionId} messagesCount={session.messages_count} />
+      
+      {!hasEnded && canSteer && !isPlanLocked && (
+        <SessionReplyBox
+          sessionId={sessionId}
+          disabled={!canReply}
+          placeholder={workflowStatus.needsAttention ? "Answer Devin's question..." : undefined}
+        />
+      )}
+      
+      {type === 'scope' && (requiresApproval || session.approval) && (
+        <ApprovalPanel
+          sessionId={sessionId}
+          approval={session.approval}
+          isScoped={session.structured_output !== null && workflowStatus.isTerminal}
+        />
+      )}
+      
       {session.structured_output && (
         type === 'scope' ? (
-          <ScopeSummary data={session.structured_output} />
+          <>
+            <ScopeSummary data={session.structured_output} />
+            {workflowStatus.isTerminal && canAct && <ScopeCommentButton sessionId={sessionId} />}
+          </>
         ) : (
-          <RawJsonPanel data={session.structured_output} title="Execution Output" />
+          <ExecuteSummary
+            data={session.structured_output}
+            scopeSessionId={scopeSessionId}
+            pullRequestUrl={session.pull_request_url}
+          />
         )
       )}
     </div>
@@ -0,0 +1,209 @@
+'use client';
+
+import { useState } from 'react';
+import { SessionStatus } from './SessionStatus';
+import type { FollowUpKind } from '@/lib/sessionStore';
+import { useCurrentUser } from '@/lib/currentUser';
+import { hasRole } from '@/lib/roles';
+
+export interface SessionInfo {
+  sessionId: string;
+  type: 'scope' | 'execute';
+  createdAt: string;
+  /** Scope session the execute was based on */
+  scopeSessionId?: string;
+  /** What started the session, e.g. `manual` or `auto-execute` */
+  trigger?: string;
+  /** Login of the user who started the session from the dashboard */
+  startedBy?: string;
+  /** Set when the session has been archived */
+  archivedAt?: string;
+  /** Set when the session follows up on another one's PR, e.g. to fix CI */
+  followup?: { kind: FollowUpKind; parentSessionId: string };
+  /** Version of the prompt template the session was started with */
+  promptVersion?: number;
+  /** Usage when the sessions were loaded */
+  usage?: { acus: number; durationSeconds: number };
+}
+
+interface SessionTimelineProps {
+  /** Every session for the issue, oldest first */
+  sessions: SessionInfo[];
+  selectedScopeId: string | null;
+  /** Whether the repository needs scopes approved by a second person before execute */
+  requiresApproval?: boolean;
+  onSelectScope: (sessionId: string) => void;
+  onScopeOutput: (output: Record<string, unknown> | null, sessionId: string) => void;
+  onArchive: (sessionId: string, archived: boolean) => void;
+  onFollowUp: (sessionId: string, followup: { kind: FollowUpKind; parentSessionId: string }) => void;
+}
+
+const FOLLOW_UP_LABELS: Record<FollowUpKind, string> = {
+  'ci-fix': 'fixes CI for',
+  'review-response': 'addresses review on',
+};
+
+function formatUsage(usage: { acus: number; durationSeconds: number }): string {
+  const minutes = Math.round(usage.durationSeconds / 60);
+  const duration = minutes >= 60 ? `${(minutes / 60).toFixed(1)} h` : `${minutes} min`;
+  return usage.acus > 0 ? `${duration} · ${usage.acus.toFixed(1)} ACUs` : duration;
+}
+
+function formatTimestamp(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function SessionTimeline({
+  sessions,
+  selectedScopeId,
+  requiresApproval = false,
+  onSelectScope,
+  onScopeOutput,
+  onArchive,
+  onFollowUp,
+}: SessionTimelineProps) {
+  // Per-session overrides of the default expanded state
+  const [expandedOverrides, setExpandedOverrides] = useState<Record<string, boolean>>({});
+  const [showArchived, setShowArchived] = useState(false);
+  const canArchive = hasRole(useCurrentUser(), 'scoper');
+
+  // Attempt numbers are counted per type, in creation order
+  const attemptNumbers = new Map<string, number>();
+  const counters = { scope: 0, execute: 0 };
+  sessions.forEach(session => {
+    counters[session.type] += 1;
+    attemptNumbers.set(session.sessionId, counters[session.type]);
+  });
+
+  const unarchived = sessions.filter(s => !s.archivedAt);
+  const archivedCount = sessions.length - unarchived.length;
+
+  const latestIds = new Set([
+    unarchived.filter(s => s.type === 'scope').pop()?.sessionId,
+    unarchived.filter(s => s.type === 'execute').pop()?.sessionId,
+  ]);
+
+  const isExpanded = (sessionId: string) =>
+    expandedOverrides[sessionId] ?? (latestIds.has(sessionId) || sessionId === selectedScopeId);
+
+  const toggleExpanded = (sessionId: string) => {
+    setExpandedOverrides(prev => ({ ...prev, [sessionId]: !isExpanded(sessionId) }));
+  };
+
+  const handleSelectScope = (sessionId: string) => {
+    // Expand the chosen attempt so its output loads and can be reviewed
+    setExpandedOverrides(prev => ({ ...prev, [sessionId]: true }));
+    onSelectScope(sessionId);
+  };
+
+  // Newest first
+  const ordered = [...(showArchived ? sessions : unarchived)].reverse();
+
+  return (
+    <>
+      <ol className="session-timeline">
+        {ordered.map(session => {
+          const attempt = attemptNumbers.get(session.sessionId);
+          const expanded = isExpanded(session.sessionId);
+          const isSelected = session.type === 'scope' && session.sessionId === selectedScopeId;
+          const basedOn = session.scopeSessionId ? attemptNumbers.get(session.scopeSessionId) : undefined;
+          const followsUp = session.followup ? attemptNumbers.get(session.followup.parentSessionId) : undefined;
+
+          return (
+            <li
+              key={session.sessionId}
+              className={`timeline-entry timeline-entry-${session.type} ${isSelected ? 'selected' : ''} ${session.archivedAt ? 'archived' : ''}`}
+            >
+              <div className="timeline-entry-header">
+                <span className="timeline-entry-title">
+                  {session.type === 'scope' ? '🔍 Scope' : '🚀 Execute'} attempt {attempt}
+                </span>
+                {session.followup && followsUp !== undefined ? (
+                  <span className="timeline-entry-meta">
+                    {FOLLOW_UP_LABELS[session.followup.kind]} execute attempt {followsUp}
+                  </span>
+                ) : basedOn !== undefined && (
+                  <span className="timeline-entry-meta">based on scope attempt {basedOn}</span>
+                )}
+                {session.trigger && session.trigger !== 'manual' && (
+                  <span className="timeline-trigger-badge" title="Started by automation">
+                    ⚡ {session.trigger}
+                  </span>
+                )}
+                {session.startedBy && (
+                  <span className="timeline-entry-meta" title="Started by">
+                    by {session.startedBy}
+                  </span>
+                )}
+                {session.promptVersion !== undefined && (
+                  <span className="timeline-entry-meta" title="Prompt template version">
+                    prompt v{session.promptVersion}
+                  </span>
+                )}
+                {session.usage && session.usage.durationSeconds > 0 && (
+                  <span className="timeline-entry-meta" title="Time worked, from status changes">
+                    {formatUsage(session.usage)}
+                  </span>
+                )}
+                <span className="timeline-entry-meta">{formatTimestamp(session.createdAt)}</span>
+                <div className="timeline-entry-actions">
+                  {session.type === 'scope' && !session.archivedAt && (
+                    isSelected ? (
+                      <span className="timeline-selected-badge">Selected for execute</span>
+                    ) : (
+                      <button
+                        onClick={() => handleSelectScope(session.sessionId)}
+                        className="timeline-button"
+                      >
+                        Use for execute
+                      </button>
+                    )
+                  )}
+                  {canArchive && (
+                    <button
+                      onClick={() => onArchive(session.sessionId, !session.archivedAt)}
+                      className="timeline-button"
+                      title={session.archivedAt ? 'Show this session in the timeline again' : 'Hide this session from the timeline'}
+                    >
+                      {session.archivedAt ? 'Unarchive' : 'Archive'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => toggleExpanded(session.sessionId)}
+                    className="timeline-button"
+                  >
+                    {expanded ? '▲ Hide' : '▼ Show'}
+                  </button>
+                </div>
+              </div>
+              {expanded && (
+                <SessionStatus
+                  sessionId={session.sessionId}
+                  type={session.type}
+                  // Follow-ups report their own tasks rather than plan steps
+                  scopeSessionId={session.followup ? undefined : session.scopeSessionId}
+                  requiresApproval={requiresApproval}
+                  onOutput={session.type === 'scope' ? onScopeOutput : undefined}
+                  onFollowUp={onFollowUp}
+                />
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {archivedCount > 0 && (
+        <button
+          onClick={() => setShowArchived(!showArchived)}
+          className="timeline-archived-toggle"
+        >
+          {showArchived ? 'Hide archived sessions' : `Show ${archivedCount} archived session${archivedCount === 1 ? '' : 's'}`}
+        </button>
+      )}
+    </>
+  );
+}
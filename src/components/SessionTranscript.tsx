@@ -0,0 +1,149 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import type { SessionMessage } from '@/lib/devin';
+
+interface SessionTranscriptProps {
+  sessionId: string;
+  /** Message count from the live session stream; growth triggers a fetch */
+  messagesCount?: number;
+}
+
+interface MessagesPage {
+  messages: SessionMessage[];
+  total: number;
+  next_offset: number | null;
+}
+
+function getSenderLabel(message: SessionMessage): string {
+  if (message.type === 'initial_user_message') return 'Prompt';
+  if (message.sender === 'devin') return 'Devin';
+  return message.username || 'User';
+}
+
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+export function SessionTranscript({ sessionId, messagesCount }: SessionTranscriptProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [messages, setMessages] = useState<SessionMessage[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inFlight = useRef(false);
+
+  const loadPage = useCallback(async (offset: number) => {
+    if (inFlight.current) return;
+    inFlight.current = true;
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/messages?offset=${offset}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load transcript');
+      }
+
+      const page = data as MessagesPage;
+      setMessages(prev => [...prev.slice(0, offset), ...page.messages]);
+      setTotal(page.total);
+      setNextOffset(page.next_offset);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load transcript');
+    } finally {
+      inFlight.current = false;
+    }
+  }, [sessionId]);
+
+  // First page on open, then new messages as the live count grows
+  useEffect(() => {
+    if (!isOpen || error) return;
+
+    if (total === null) {
+      loadPage(0);
+    } else if (nextOffset === null && messagesCount !== undefined && messagesCount > messages.length) {
+      loadPage(messages.length);
+    }
+  }, [isOpen, error, total, nextOffset, messagesCount, messages.length, loadPage]);
+
+  const handleLoadMore = async () => {
+    if (nextOffset === null) return;
+    setIsLoadingMore(true);
+    await loadPage(nextOffset);
+    setIsLoadingMore(false);
+  };
+
+  const handleRetry = () => {
+    setError(null);
+  };
+
+  const count = total ?? messagesCount;
+
+  return (
+    <div className="transcript">
+      <button onClick={() => setIsOpen(!isOpen)} className="transcript-toggle">
+        {isOpen ? '▼' : '▶'} Transcript{count !== undefined ? ` (${count})` : ''}
+      </button>
+
+      {isOpen && (
+        <div className="transcript-body">
+          {total === null && !error && (
+            <div className="transcript-status">Loading transcript...</div>
+          )}
+
+          {total === 0 && (
+            <div className="transcript-status">No messages yet.</div>
+          )}
+
+          <ol className="transcript-messages">
+            {messages.map(message => (
+              <li
+                key={message.event_id}
+                className={`transcript-message transcript-message-${message.sender}`}
+              >
+                <div className="transcript-message-header">
+                  <span className="transcript-sender">{getSenderLabel(message)}</span>
+                  <span className="transcript-timestamp">{formatTimestamp(message.timestamp)}</span>
+                </div>
+                <div className="markdown-content transcript-message-body">
+                  <ReactMarkdown>{message.message}</ReactMarkdown>
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          {nextOffset !== null && (
+            <button
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="timeline-button"
+            >
+              {isLoadingMore ? 'Loading...' : `Load more (${(total ?? 0) - messages.length} remaining)`}
+            </button>
+          )}
+
+          {error && (
+            <div className="transcript-error">
+              {error}
+              <button onClick={handleRetry} className="timeline-button">
+                Retry
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
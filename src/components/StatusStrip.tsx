@@ -1,15 +1,11 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { deriveWorkflowStatus, getWorkflowKindClass, WorkflowStatus } from '@/lib/workflowStatus';
-
-interface SessionStatusData {
-  session_id: string;
-  status_enum: string;
-  structured_output: Record<string, unknown> | null;
-  pull_request_url?: string | null;
-  updated_at: string;
-}
+import { StopSessionButton } from './StopSessionButton';
+import { deriveWorkflowStatus, getWorkflowKindClass, isSessionEnded } from '@/lib/workflowStatus';
+import { useSessionStream } from '@/lib/sessionStream';
+import { useCurrentUser } from '@/lib/currentUser';
+import { hasRole } from '@/lib/roles';
+import type { SessionSnapshot } from '@/lib/devin';
 
 interface StatusStripProps {
   issueNumber: number;
@@ -17,9 +13,6 @@ interface StatusStripProps {
   executeSessionId: string | null;
 }
 
-const TERMINAL_STATUSES = ['finished', 'failed', 'cancelled', 'expired', 'blocked'];
-const POLL_INTERVAL = 15000;
-
 function getRelativeTime(dateString: string): string {
   const date = new Date(dateString);
   const now = new Date();
@@ -34,79 +27,44 @@ function getRelativeTime(dateString: string): string {
   return `${diffDays}d ago`;
 }
 
-interface SessionPollerResult {
-  data: SessionStatusData | null;
-  isPolling: boolean;
-}
-
-function useSessionPoller(sessionId: string): SessionPollerResult {
-  const [data, setData] = useState<SessionStatusData | null>(null);
-  const [isPolling, setIsPolling] = useState(true);
-
-  const fetchSession = useCallback(async () => {
-    try {
-      const response = await fetch(`/api/sessions/${sessionId}`);
-      if (!response.ok) return;
-      const result = await response.json();
-      setData(result);
-      if (TERMINAL_STATUSES.includes(result.status_enum)) {
-        setIsPolling(false);
-      }
-    } catch {
-      // Silently fail on fetch errors
-    }
-  }, [sessionId]);
-
-  useEffect(() => {
-    // Initial fetch
-    fetchSession();
-
-    // Set up polling
-    if (isPolling) {
-      const interval = setInterval(fetchSession, POLL_INTERVAL);
-      return () => clearInterval(interval);
-    }
-  }, [fetchSession, isPolling]);
-
-  return { data, isPolling };
-}
-
 function WorkflowStatusPill({ 
-  sessionId, 
   type,
-  onDataChange 
+  sessionId,
+  data,
 }: { 
-  sessionId: string; 
   type: 'scope' | 'execute';
-  onDataChange: (data: SessionStatusData | null) => void;
+  sessionId: string;
+  data: SessionSnapshot | null;
 }) {
-  const { data, isPolling } = useSessionPoller(sessionId);
-  
-  useEffect(() => {
-    onDataChange(data);
-  }, [data, onDataChange]);
-
   // Derive workflow status from raw data
   const workflowStatus = deriveWorkflowStatus(
     type,
     data?.status_enum || null,
     data?.structured_output || null,
-    data?.pull_request_url
+    data?.pull_request_url,
+    data?.pull_request_state,
+    data?.approval
   );
 
-  const isActive = workflowStatus.kind === 'active' && isPolling;
+  const isActive = workflowStatus.kind === 'active';
   const typeLabel = type === 'scope' ? 'Scope' : 'Execute';
+  // Scoped sessions are done working, so only offer Stop while busy
+  const canStop = data !== null && !isSessionEnded(data.status_enum) && !workflowStatus.isTerminal;
+  const user = useCurrentUser();
 
   return (
-    <span className={`status-pill status-pill-${getWorkflowKindClass(workflowStatus.kind)}`}>
-      {isActive && (
-        <span className="status-pill-spinner" />
-      )}
-      <span className="status-pill-type">{typeLabel}:</span>
-      <span className="status-pill-status">{workflowStatus.label}</span>
-      {workflowStatus.needsAttention && (
-        <span className="status-pill-attention" title={workflowStatus.detail}>⚠</span>
-      )}
+    <span className="status-pill-group">
+      <span className={`status-pill status-pill-${getWorkflowKindClass(workflowStatus.kind)}`}>
+        {isActive && (
+          <span className="status-pill-spinner" />
+        )}
+        <span className="status-pill-type">{typeLabel}:</span>
+        <span className="status-pill-status">{workflowStatus.label}</span>
+        {workflowStatus.needsAttention && (
+          <span className="status-pill-attention" title={workflowStatus.detail}>⚠</span>
+        )}
+      </span>
+      {canStop && hasRole(user, type === 'execute' ? 'executor' : 'scoper') && <StopSessionButton sessionId={sessionId} compact />}
     </span>
   );
 }
@@ -116,16 +74,9 @@ export function StatusStrip({
   scopeSessionId, 
   executeSessionId,
 }: StatusStripProps) {
-  const [scopeData, setScopeData] = useState<SessionStatusData | null>(null);
-  const [executeData, setExecuteData] = useState<SessionStatusData | null>(null);
-
-  const handleScopeDataChange = useCallback((data: SessionStatusData | null) => {
-    setScopeData(data);
-  }, []);
-
-  const handleExecuteDataChange = useCallback((data: SessionStatusData | null) => {
-    setExecuteData(data);
-  }, []);
+  // Shares the same live stream as the sessions panel, so no extra polling
+  const scopeData = useSessionStream(scopeSessionId).session;
+  const executeData = useSessionStream(executeSessionId).session;
 
   const hasAnySessions = scopeSessionId || executeSessionId;
   if (!hasAnySessions) return null;
@@ -141,7 +92,8 @@ export function StatusStrip({
     'execute',
     executeData?.status_enum || null,
     executeData?.structured_output || null,
-    executeData?.pull_request_url
+    executeData?.pull_request_url,
+    executeData?.pull_request_state
   ) : null;
 
   // Determine if we need to show attention message
@@ -159,17 +111,17 @@ export function StatusStrip({
         {scopeSessionId && (
           <WorkflowStatusPill 
             key={scopeSessionId}
-            sessionId={scopeSessionId}
             type="scope"
-            onDataChange={handleScopeDataChange}
+            sessionId={scopeSessionId}
+            data={scopeData}
           />
         )}
         {executeSessionId && (
           <WorkflowStatusPill 
             key={executeSessionId}
-            sessionId={executeSessionId}
             type="execute"
-            onDataChange={handleExecuteDataChange}
+            sessionId={executeSessionId}
+            data={executeData}
           />
         )}
       </div>
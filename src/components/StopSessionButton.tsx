@@ -0,0 +1,55 @@
+'use client';
+
+import { useState } from 'react';
+import { refreshSession } from '@/lib/sessionStream';
+
+interface StopSessionButtonProps {
+  sessionId: string;
+  /** Smaller variant for the status strip */
+  compact?: boolean;
+}
+
+export function StopSessionButton({ sessionId, compact = false }: StopSessionButtonProps) {
+  const [isStopping, setIsStopping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleStop = async () => {
+    if (!window.confirm('Stop this Devin session? It cannot be resumed.')) {
+      return;
+    }
+
+    setIsStopping(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to stop session');
+      }
+
+      await refreshSession(sessionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to stop session');
+    } finally {
+      setIsStopping(false);
+    }
+  };
+
+  return (
+    <span className={`stop-session ${compact ? 'stop-session-compact' : ''}`}>
+      <button
+        onClick={handleStop}
+        disabled={isStopping}
+        className="stop-session-button"
+        title={error || 'Terminate this session'}
+      >
+        {isStopping ? 'Stopping...' : '■ Stop'}
+      </button>
+      {error && !compact && <span className="stop-session-error">{error}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * Runs once when the server starts. Kicks off the shared session poller so
+ * automations keep running even when no dashboard is open, and picks up
+ * batch scoping where it left off.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startSessionPoller } = await import('./lib/sessionPoller');
+    startSessionPoller();
+
+    const { resumeScopeBatches } = await import('./lib/batchScope');
+    await resumeScopeBatches();
+  }
+}
@@ -0,0 +1,216 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { SessionRecord } from './sessionStore';
+
+/**
+ * Audit Log
+ *
+ * An append-only record of everything this app does on someone's behalf:
+ * sessions created, messaged, stopped or archived, automation decisions, and
+ * writes to GitHub. Entries are appended as JSON lines to their own file
+ * (never the JSON store, which is rewritten on every update), so an existing
+ * line is never modified and the file can be shipped elsewhere as is.
+ */
+
+export type AuditAction =
+  | 'session.created'
+  | 'session.message'
+  | 'session.terminated'
+  | 'session.archived'
+  | 'session.unarchived'
+  | 'automation.decision'
+  | 'approval.requested'
+  | 'approval.approved'
+  | 'approval.rejected'
+  | 'github.comment'
+  | 'github.label.added'
+  | 'github.label.removed';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'session.created',
+  'session.message',
+  'session.terminated',
+  'session.archived',
+  'session.unarchived',
+  'automation.decision',
+  'approval.requested',
+  'approval.approved',
+  'approval.rejected',
+  'github.comment',
+  'github.label.added',
+  'github.label.removed',
+];
+
+// Actions taken by an automation or a follow-up policy; people are recorded by login
+export const AUTOMATION_ACTOR = 'automation';
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  /** Who took the action */
+  actor: string;
+  action: AuditAction;
+  /** `owner/repo` */
+  repository?: string;
+  issue_number?: number;
+  session_id?: string;
+  /** One line for the log view */
+  summary: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditFilter {
+  action?: AuditAction;
+  actor?: string;
+  /** `owner/repo` */
+  repository?: string;
+  issueNumber?: number;
+  sessionId?: string;
+  /** ISO timestamps; `until` is exclusive */
+  since?: string;
+  until?: string;
+}
+
+const DEFAULT_AUDIT_LOG_PATH = '.data/audit.jsonl';
+
+function getAuditLogPath(): string {
+  return path.resolve(process.cwd(), process.env.DEVIN_AUDIT_LOG_PATH || DEFAULT_AUDIT_LOG_PATH);
+}
+
+// Serialize appends so lines from concurrent requests never interleave
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Appends an entry. Never throws: the action it records has already
+ * happened, so a failed write is logged rather than failing the request.
+ */
+export function recordAudit(entry: Omit<AuditEntry, 'id' | 'at'>): Promise<void> {
+  const line = JSON.stringify({ id: randomUUID(), at: new Date().toISOString(), ...entry });
+
+  const run = appendQueue.then(async () => {
+    const logPath = getAuditLogPath();
+    await fs.mkdir(path.dirname(logPath), { recursive: true });
+    await fs.appendFile(logPath, `${line}\n`, 'utf8');
+  });
+
+  appendQueue = run.catch(() => undefined);
+  return run.catch(error => {
+    console.error('Writing audit entry failed:', error);
+  });
+}
+
+async function readAuditLines(): Promise<string[]> {
+  try {
+    const raw = await fs.readFile(getAuditLogPath(), 'utf8');
+    return raw.split('\n').filter(line => line.trim() !== '');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+function parseLine(line: string): AuditEntry | null {
+  try {
+    return JSON.parse(line) as AuditEntry;
+  } catch {
+    // A line cut short by a crash mid-append
+    return null;
+  }
+}
+
+function matches(entry: AuditEntry, filter: AuditFilter): boolean {
+  return (
+    (filter.action === undefined || entry.action === filter.action) &&
+    (filter.actor === undefined || entry.actor === filter.actor) &&
+    (filter.repository === undefined || entry.repository === filter.repository) &&
+    (filter.issueNumber === undefined || entry.issue_number === filter.issueNumber) &&
+    (filter.sessionId === undefined || entry.session_id === filter.sessionId) &&
+    (filter.since === undefined || entry.at >= filter.since) &&
+    (filter.until === undefined || entry.at < filter.until)
+  );
+}
+
+/**
+ * Reads filters from `action`, `actor`, `repo`, `issue`, `session`, `since`
+ * and `until` query parameters. Dates may be given as `YYYY-MM-DD`.
+ */
+export function parseAuditFilter(params: URLSearchParams): AuditFilter {
+  const value = (name: string) => params.get(name)?.trim() || undefined;
+  const toTimestamp = (date: string | undefined) => {
+    if (!date) return undefined;
+    const parsed = new Date(date);
+    return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+  };
+
+  const action = value('action');
+  const issue = parseInt(value('issue') || '', 10);
+  const until = value('until');
+
+  return {
+    action: AUDIT_ACTIONS.includes(action as AuditAction) ? (action as AuditAction) : undefined,
+    actor: value('actor'),
+    repository: value('repo'),
+    issueNumber: Number.isInteger(issue) ? issue : undefined,
+    sessionId: value('session'),
+    since: toTimestamp(value('since')),
+    // A bare date includes that whole day
+    until: until && /^\d{4}-\d{2}-\d{2}$/.test(until)
+      ? toTimestamp(new Date(Date.parse(until) + 24 * 60 * 60 * 1000).toISOString())
+      : toTimestamp(until),
+  };
+}
+
+/**
+ * Matching entries, newest first, and how many matched in total.
+ */
+export async function listAuditEntries(
+  filter: AuditFilter,
+  limit: number
+): Promise<{ entries: AuditEntry[]; total: number }> {
+  const entries = (await readAuditLines())
+    .map(parseLine)
+    .filter((entry): entry is AuditEntry => entry !== null && matches(entry, filter))
+    .reverse();
+
+  return { entries: entries.slice(0, limit), total: entries.length };
+}
+
+/**
+ * Matching entries as JSON lines, oldest first, exactly as they were written.
+ */
+export async function exportAuditLog(filter: AuditFilter): Promise<string> {
+  const lines = (await readAuditLines()).filter(line => {
+    const entry = parseLine(line);
+    return entry !== null && matches(entry, filter);
+  });
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Records a session this app created, with what it was started from.
+ */
+export function recordSessionCreated(record: SessionRecord, details: Record<string, unknown> = {}): Promise<void> {
+  const kind = record.followup?.kind ?? record.type;
+
+  return recordAudit({
+    actor: record.started_by ?? AUTOMATION_ACTOR,
+    action: 'session.created',
+    repository: record.repository,
+    issue_number: record.issue_number,
+    session_id: record.session_id,
+    summary: `Started ${kind} session for #${record.issue_number} (${record.trigger || 'manual'})`,
+    details: {
+      type: record.type,
+      trigger: record.trigger,
+      prompt_template: record.prompt_template,
+      playbook: record.playbook,
+      scope_session_id: record.scope_session_id,
+      followup: record.followup,
+      ...details,
+    },
+  });
+}
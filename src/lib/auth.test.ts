@@ -0,0 +1,127 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  authenticateGitHubUser,
+  createSessionToken,
+  getRequiredRole,
+  getUserFromToken,
+  safeRedirectPath,
+} from './auth';
+
+describe('getRequiredRole', () => {
+  it('lets viewers read', () => {
+    expect(getRequiredRole('GET', '/api/repos/acme/widgets/issues')).toBe('viewer');
+    expect(getRequiredRole('HEAD', '/api/sessions/ses_1')).toBe('viewer');
+    expect(getRequiredRole('GET', '/api/prompts/scope')).toBe('viewer');
+  });
+
+  it('needs scoper for other writes', () => {
+    expect(getRequiredRole('POST', '/api/repos/acme/widgets/issues/7/scope')).toBe('scoper');
+    expect(getRequiredRole('POST', '/api/sessions/ses_1/message')).toBe('scoper');
+    expect(getRequiredRole('POST', '/api/sessions/ses_1/approval')).toBe('scoper');
+    expect(getRequiredRole('delete', '/api/sessions/ses_1')).toBe('scoper');
+  });
+
+  it('needs executor for anything that hands over GITHUB_TOKEN or approves', () => {
+    expect(getRequiredRole('POST', '/api/repos/acme/widgets/issues/7/execute')).toBe('executor');
+    expect(getRequiredRole('post', '/api/sessions/ses_1/ci-fix')).toBe('executor');
+    expect(getRequiredRole('POST', '/api/sessions/ses_1/review-response')).toBe('executor');
+    expect(getRequiredRole('POST', '/api/sessions/ses_1/approval/decision')).toBe('executor');
+  });
+
+  it('needs admin to change prompt templates or read the audit log', () => {
+    expect(getRequiredRole('POST', '/api/prompts/execute')).toBe('admin');
+    expect(getRequiredRole('GET', '/api/audit')).toBe('admin');
+    expect(getRequiredRole('GET', '/api/audit/export')).toBe('admin');
+    expect(getRequiredRole('GET', '/api/auditors')).toBe('viewer');
+  });
+
+  it('matches whole paths only', () => {
+    expect(getRequiredRole('POST', '/api/repos/acme/widgets/issues/7/execute/extra')).toBe('scoper');
+    expect(getRequiredRole('POST', '/api/sessions/ses_1/ci-fix-now')).toBe('scoper');
+  });
+});
+
+describe('safeRedirectPath', () => {
+  it('keeps same-site paths only', () => {
+    expect(safeRedirectPath('/issues?repo=acme/widgets')).toBe('/issues?repo=acme/widgets');
+    expect(safeRedirectPath('https://evil.example')).toBe('/');
+    expect(safeRedirectPath('//evil.example')).toBe('/');
+    expect(safeRedirectPath('/\\evil.example')).toBe('/');
+    expect(safeRedirectPath(null)).toBe('/');
+  });
+});
+
+describe('sign-in', () => {
+  let dir: string;
+
+  async function writeUsers(config: unknown) {
+    await fs.writeFile(path.join(dir, 'users.json'), JSON.stringify(config));
+  }
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-test-'));
+    vi.stubEnv('DEVIN_USERS_CONFIG', path.join(dir, 'users.json'));
+    vi.stubEnv('AUTH_SECRET', 'test-secret');
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await writeUsers({
+      users: [
+        { login: 'alice', role: 'admin', github: 'alice-gh' },
+        { login: 'bob', role: 'executor' },
+      ],
+      githubDefaultRole: 'viewer',
+    });
+  });
+
+  it('maps listed GitHub accounts to their user', async () => {
+    expect(await authenticateGitHubUser('Alice-GH')).toEqual({ login: 'alice', role: 'admin', provider: 'github' });
+  });
+
+  it('gives unlisted GitHub accounts the default role', async () => {
+    expect(await authenticateGitHubUser('carol')).toEqual({ login: 'carol', role: 'viewer', provider: 'github' });
+
+    await writeUsers({ users: [] });
+    expect(await authenticateGitHubUser('carol')).toBeNull();
+  });
+
+  it('refuses unlisted GitHub accounts named like a configured user', async () => {
+    expect(await authenticateGitHubUser('bob')).toBeNull();
+    expect(await authenticateGitHubUser('ALICE')).toBeNull();
+  });
+
+  it('looks up the current role for a session token', async () => {
+    const token = createSessionToken('github', 'alice-gh');
+    expect((await getUserFromToken(token))?.role).toBe('admin');
+
+    await writeUsers({ users: [{ login: 'alice', role: 'viewer', github: 'alice-gh' }] });
+    expect((await getUserFromToken(token))?.role).toBe('viewer');
+
+    await writeUsers({ users: [] });
+    expect(await getUserFromToken(token)).toBeNull();
+  });
+
+  it('rejects tampered and expired tokens', async () => {
+    const [encoded, signature] = createSessionToken('github', 'carol').split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'alice-gh', provider: 'github', exp: 9999999999 }))
+      .toString('base64url');
+    expect(await getUserFromToken(`${forged}.${signature}`)).toBeNull();
+    expect(await getUserFromToken(`${encoded}.`)).toBeNull();
+
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(Date.now() + 8 * 24 * 60 * 60 * 1000);
+      expect(await getUserFromToken(`${encoded}.${signature}`)).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
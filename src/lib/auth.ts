@@ -0,0 +1,279 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHmac, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { z } from 'zod';
+import { ROLES, hasRole, type Role } from './roles';
+
+/**
+ * Authentication & Roles
+ *
+ * Who may use the dashboard and what they may do, read from
+ * `config/users.json` (or DEVIN_USERS_CONFIG) on every request, so a role
+ * change or removed user takes effect immediately. People sign in with
+ * GitHub or a local password; either way the result is a signed, stateless
+ * session cookie naming the user, and their role is looked up from the
+ * config each time the cookie is presented.
+ */
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export type AuthProvider = 'github' | 'password';
+
+export interface AuthUser {
+  /** Dashboard username, recorded on sessions and audit entries */
+  login: string;
+  role: Role;
+  provider: AuthProvider;
+}
+
+const UserSchema = z.object({
+  login: z.string().min(1),
+  role: z.enum(ROLES),
+  /** GitHub account allowed to sign in as this user */
+  github: z.string().min(1).optional(),
+  /** `scrypt$salt$hash` from `npm run auth:hash-password`; enables password sign-in */
+  passwordHash: z.string().startsWith('scrypt$').optional(),
+});
+
+const UsersFileSchema = z.object({
+  users: z.array(UserSchema).default([]),
+  /** Role for GitHub accounts not listed in `users`; null turns them away */
+  githubDefaultRole: z.enum(ROLES).nullable().default(null),
+});
+
+export type UsersConfig = z.infer<typeof UsersFileSchema>;
+
+export const SESSION_COOKIE = 'devin_session';
+// Signed-in sessions last a week; roles are still re-checked on every request
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+const DEFAULT_CONFIG_PATH = 'config/users.json';
+
+interface SessionPayload {
+  /** Local username, or GitHub login for GitHub sign-ins */
+  sub: string;
+  provider: AuthProvider;
+  /** Expiry, in seconds since the epoch */
+  exp: number;
+}
+
+function getConfigPath(): string {
+  return path.resolve(process.cwd(), process.env.DEVIN_USERS_CONFIG || DEFAULT_CONFIG_PATH);
+}
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET environment variable is required');
+  }
+  return secret;
+}
+
+export async function loadUsersConfig(): Promise<UsersConfig> {
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(await fs.readFile(getConfigPath(), 'utf8'));
+  } catch (error) {
+    // Without a users file nobody can sign in
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return UsersFileSchema.parse({});
+    }
+    throw new Error(`Invalid users config: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = UsersFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid users config: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/** Checks a password against a hash from `scripts/hash-password.mjs` */
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [, salt, hash] = stored.split('$');
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * The user a sign-in resolves to right now, or null if they may not sign in.
+ */
+async function resolveUser(subject: string, provider: AuthProvider): Promise<AuthUser | null> {
+  const config = await loadUsersConfig();
+  const name = subject.toLowerCase();
+
+  if (provider === 'password') {
+    const user = config.users.find(u => u.login.toLowerCase() === name && u.passwordHash);
+    return user ? { login: user.login, role: user.role, provider } : null;
+  }
+
+  const user = config.users.find(u => u.github?.toLowerCase() === name);
+  if (user) {
+    return { login: user.login, role: user.role, provider };
+  }
+
+  // Unlisted accounts sign in as their GitHub login, which must not pass for
+  // a configured user, e.g. to approve that user's scope
+  if (config.users.some(u => u.login.toLowerCase() === name)) {
+    return null;
+  }
+  return config.githubDefaultRole ? { login: subject, role: config.githubDefaultRole, provider } : null;
+}
+
+/**
+ * Checks a local username and password. Returns null for any mismatch, so
+ * callers can't tell unknown users from wrong passwords.
+ */
+export async function authenticatePassword(login: string, password: string): Promise<AuthUser | null> {
+  const config = await loadUsersConfig();
+  const entry = config.users.find(u => u.login.toLowerCase() === login.toLowerCase());
+
+  if (!entry?.passwordHash || !(await verifyPassword(password, entry.passwordHash))) {
+    return null;
+  }
+  return { login: entry.login, role: entry.role, provider: 'password' };
+}
+
+/**
+ * The user a signed-in GitHub account maps to, or null if it isn't allowed in.
+ */
+export function authenticateGitHubUser(githubLogin: string): Promise<AuthUser | null> {
+  return resolveUser(githubLogin, 'github');
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getSecret()).update(value).digest('base64url');
+}
+
+/**
+ * The session cookie value for a sign-in: `subject` is the local username or
+ * the GitHub login, whichever the user signed in with.
+ */
+export function createSessionToken(provider: AuthProvider, subject: string): string {
+  const payload: SessionPayload = {
+    sub: subject,
+    provider,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Cookie attributes for the session cookie. Lax same-site keeps other sites
+ * from making signed-in POSTs.
+ */
+export function getSessionCookieOptions(secure: boolean) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure,
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  };
+}
+
+/**
+ * The user a session cookie belongs to, with their current role. Null when
+ * the cookie is missing, tampered with or expired, or the user has since
+ * been removed from the config.
+ */
+export async function getUserFromToken(token: string | undefined): Promise<AuthUser | null> {
+  if (!token) return null;
+
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  let payload: SessionPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) {
+    return null;
+  }
+  return typeof payload.sub === 'string' ? resolveUser(payload.sub, payload.provider) : null;
+}
+
+/** Anything with cookies, e.g. a NextRequest */
+interface CookieSource {
+  cookies: { get(name: string): { value: string } | undefined };
+}
+
+export function getCurrentUser(request: CookieSource): Promise<AuthUser | null> {
+  return getUserFromToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * The signed-in user. Routes are only reached through the auth proxy, so this
+ * only throws if a request gets past it unauthenticated.
+ */
+export async function requireUser(request: CookieSource): Promise<AuthUser> {
+  const user = await getCurrentUser(request);
+  if (!user) {
+    throw new Error('Authentication required');
+  }
+  return user;
+}
+
+/**
+ * Throws unless the user has at least the `required` role. For checks that
+ * depend on what a request acts on, which the proxy can't see from the path.
+ */
+export function requireRole(user: AuthUser, required: Role): void {
+  if (!hasRole(user, required)) {
+    throw new Error(`This needs the ${required} role; you are signed in as ${user.role}`);
+  }
+}
+
+interface Permission {
+  method: string;
+  pattern: RegExp;
+  role: Role;
+}
+
+// Checked in order; the first match wins
+const PERMISSIONS: Permission[] = [
+  // These hand GITHUB_TOKEN to a Devin session
+  { method: 'POST', pattern: /^\/api\/repos\/[^/]+\/[^/]+\/issues\/\d+\/execute$/, role: 'executor' },
+  { method: 'POST', pattern: /^\/api\/sessions\/[^/]+\/(ci-fix|review-response)$/, role: 'executor' },
+  // Approving a scope lets it be executed
+  { method: 'POST', pattern: /^\/api\/sessions\/[^/]+\/approval\/decision$/, role: 'executor' },
+  // Prompt templates shape every future session
+  { method: 'POST', pattern: /^\/api\/prompts\//, role: 'admin' },
+  { method: 'GET', pattern: /^\/api\/audit(\/|$)/, role: 'admin' },
+];
+
+/**
+ * The role an API request needs. Reading needs `viewer`; anything that starts,
+ * messages, stops or publishes a session needs `scoper` unless listed above.
+ */
+export function getRequiredRole(method: string, pathname: string): Role {
+  const upper = method.toUpperCase();
+  const permission = PERMISSIONS.find(p => p.method === upper && p.pattern.test(pathname));
+  if (permission) {
+    return permission.role;
+  }
+  return upper === 'GET' || upper === 'HEAD' ? 'viewer' : 'scoper';
+}
+
+/**
+ * A same-site path to return to after signing in, so a crafted `next`
+ * parameter can't send people to another site.
+ */
+export function safeRedirectPath(next: string | null | undefined): string {
+  return next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : '/';
+}
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getIssue } from './github';
+import { AutomationConfigSchema, loadAutomationConfig } from './automationConfig';
+import { listDecisions, recordDecision } from './decisionLog';
+import { startExecuteSession } from './executeService';
+import { getRepoByFullName } from './repoConfig';
+import { listSessionsForIssue, type SessionRecord } from './sessionStore';
+import { evaluateAutoExecutePolicy, maybeAutoExecute } from './autoExecute';
+import type { ScopeOutput } from './schemas';
+import type { DevinSession } from './devin';
+
+vi.mock('./github', () => ({ getIssue: vi.fn() }));
+vi.mock('./automationConfig', async importOriginal => ({
+  ...(await importOriginal<typeof import('./automationConfig')>()),
+  loadAutomationConfig: vi.fn(),
+}));
+vi.mock('./decisionLog', () => ({ listDecisions: vi.fn(), recordDecision: vi.fn() }));
+vi.mock('./executeService', () => ({ startExecuteSession: vi.fn() }));
+vi.mock('./repoConfig', async importOriginal => ({
+  ...(await importOriginal<typeof import('./repoConfig')>()),
+  getRepoByFullName: vi.fn(),
+}));
+vi.mock('./sessionStore', () => ({ listSessionsForIssue: vi.fn() }));
+
+const config = AutomationConfigSchema.parse({ autoExecute: { enabled: true, minConfidence: 80 } });
+const policy = config.autoExecute;
+
+const output: ScopeOutput = {
+  issue_number: 7,
+  title: 'Fix the thing',
+  confidence_score: 90,
+  confidence_rationale: 'Small change',
+  assumptions: [],
+  unknowns: [],
+  risks: [],
+  action_plan: [{ step: 1, title: 'Fix', details: 'Change the line' }],
+  ready_to_execute: true,
+};
+
+const scope: SessionRecord = {
+  session_id: 'scope-1',
+  type: 'scope',
+  repository: 'acme/widgets',
+  issue_number: 7,
+  url: 'https://app.devin.ai/sessions/scope-1',
+  created_at: '2026-10-01T00:00:00.000Z',
+  status_enum: 'blocked',
+};
+
+const session = {
+  session_id: 'scope-1',
+  status_enum: 'blocked',
+  structured_output: output,
+} as unknown as DevinSession;
+
+describe('evaluateAutoExecutePolicy', () => {
+  it('passes a confident, ready scope', () => {
+    expect(evaluateAutoExecutePolicy(policy, output, []).pass).toBe(true);
+  });
+
+  it('fails a scope that is not ready to execute', () => {
+    const result = evaluateAutoExecutePolicy(policy, { ...output, ready_to_execute: false }, []);
+    expect(result).toEqual({ pass: false, reason: 'Scope is not marked ready_to_execute' });
+  });
+
+  it('fails below the minimum confidence', () => {
+    const result = evaluateAutoExecutePolicy(policy, { ...output, confidence_score: 79 }, []);
+    expect(result.pass).toBe(false);
+    expect(result.reason).toContain('below the minimum of 80');
+  });
+
+  it('fails with too many unknowns', () => {
+    const result = evaluateAutoExecutePolicy(policy, { ...output, unknowns: ['a', 'b', 'c'] }, []);
+    expect(result.pass).toBe(false);
+    expect(result.reason).toContain('3 unknowns');
+  });
+
+  it('fails on a denied label', () => {
+    const result = evaluateAutoExecutePolicy({ ...policy, denyLabels: ['security'] }, output, ['bug', 'security']);
+    expect(result).toEqual({ pass: false, reason: 'Issue has denied label "security"' });
+  });
+
+  it('needs one of the allowed labels when any are listed', () => {
+    const restricted = { ...policy, allowLabels: ['good-first-issue'] };
+    expect(evaluateAutoExecutePolicy(restricted, output, ['bug']).pass).toBe(false);
+    expect(evaluateAutoExecutePolicy(restricted, output, ['good-first-issue']).pass).toBe(true);
+  });
+});
+
+describe('maybeAutoExecute', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(loadAutomationConfig).mockResolvedValue(config);
+    vi.mocked(listDecisions).mockResolvedValue([]);
+    vi.mocked(getRepoByFullName).mockResolvedValue({ owner: 'acme', repo: 'widgets' } as never);
+    vi.mocked(listSessionsForIssue).mockResolvedValue([scope]);
+    vi.mocked(getIssue).mockResolvedValue({ state: 'open', labels: [] } as never);
+    vi.mocked(startExecuteSession).mockResolvedValue({ session: { session_id: 'exec-1' } } as never);
+  });
+
+  it('starts execution when the policy passes', async () => {
+    await maybeAutoExecute(scope, session);
+
+    expect(startExecuteSession).toHaveBeenCalledWith(
+      expect.objectContaining({ owner: 'acme' }),
+      7,
+      { scopeSessionId: 'scope-1', trigger: 'auto-execute' }
+    );
+    expect(recordDecision).toHaveBeenCalledWith(expect.objectContaining({ outcome: 'taken', created_session_id: 'exec-1' }));
+  });
+
+  it('skips when an execute session is already running for the issue', async () => {
+    const running: SessionRecord = { ...scope, session_id: 'exec-0', type: 'execute', status_enum: 'running' };
+    vi.mocked(listSessionsForIssue).mockResolvedValue([scope, running]);
+
+    await maybeAutoExecute(scope, session);
+
+    expect(startExecuteSession).not.toHaveBeenCalled();
+    expect(recordDecision).toHaveBeenCalledWith(expect.objectContaining({
+      outcome: 'skipped',
+      reason: 'Execute session exec-0 is already running for the issue',
+    }));
+  });
+
+  it('evaluates a scope again after an earlier skip', async () => {
+    vi.mocked(listDecisions).mockResolvedValue([{ outcome: 'skipped' } as never]);
+
+    await maybeAutoExecute(scope, session);
+
+    expect(startExecuteSession).toHaveBeenCalled();
+  });
+
+  it('never executes a scope twice', async () => {
+    vi.mocked(listDecisions).mockResolvedValue([{ outcome: 'taken' } as never]);
+
+    await maybeAutoExecute(scope, session);
+
+    expect(startExecuteSession).not.toHaveBeenCalled();
+    expect(recordDecision).not.toHaveBeenCalled();
+  });
+});
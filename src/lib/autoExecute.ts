@@ -0,0 +1,152 @@
+import { getIssue } from './github';
+import type { DevinSession } from './devin';
+import { ScopeOutputSchema, type ScopeOutput } from './schemas';
+import { loadAutomationConfig, type AutoExecutePolicy } from './automationConfig';
+import { listDecisions, recordDecision } from './decisionLog';
+import { startExecuteSession } from './executeService';
+import { getRepoByFullName } from './repoConfig';
+import { listSessionsForIssue, type SessionRecord } from './sessionStore';
+import { isSessionActive } from './sessionLifecycle';
+
+/**
+ * Auto-Execute Policy
+ *
+ * When an issue's latest scope session completes, checks its output against
+ * the configured policy and starts the execute session without a human click
+ * if it passes. A scope is evaluated each time it completes, e.g. again after
+ * answering its questions, but executed at most once; the outcome is always
+ * logged.
+ */
+
+export interface PolicyEvaluation {
+  pass: boolean;
+  reason: string;
+}
+
+// Scope sessions being evaluated in this process
+const evaluating = new Set<string>();
+
+export function evaluateAutoExecutePolicy(
+  policy: AutoExecutePolicy,
+  output: ScopeOutput,
+  issueLabels: string[]
+): PolicyEvaluation {
+  if (policy.requireReadyToExecute && !output.ready_to_execute) {
+    return { pass: false, reason: 'Scope is not marked ready_to_execute' };
+  }
+
+  if (output.confidence_score < policy.minConfidence) {
+    return {
+      pass: false,
+      reason: `Confidence ${output.confidence_score} is below the minimum of ${policy.minConfidence}`,
+    };
+  }
+
+  if (output.unknowns.length > policy.maxUnknowns) {
+    return {
+      pass: false,
+      reason: `${output.unknowns.length} unknowns exceed the maximum of ${policy.maxUnknowns}`,
+    };
+  }
+
+  const denied = issueLabels.find(label => policy.denyLabels.includes(label));
+  if (denied) {
+    return { pass: false, reason: `Issue has denied label "${denied}"` };
+  }
+
+  if (policy.allowLabels.length > 0 && !issueLabels.some(label => policy.allowLabels.includes(label))) {
+    return {
+      pass: false,
+      reason: `Issue has none of the allowed labels (${policy.allowLabels.join(', ')})`,
+    };
+  }
+
+  return {
+    pass: true,
+    reason: `Confidence ${output.confidence_score} ≥ ${policy.minConfidence}, ` +
+      `${output.unknowns.length} unknown(s) ≤ ${policy.maxUnknowns}`,
+  };
+}
+
+/**
+ * Evaluates a scope session that just completed and starts execution if the
+ * policy allows.
+ */
+export async function maybeAutoExecute(record: SessionRecord, session: DevinSession): Promise<void> {
+  if (record.type !== 'scope' || evaluating.has(record.session_id)) {
+    return;
+  }
+
+  const policy = (await loadAutomationConfig()).autoExecute;
+  if (!policy.enabled) {
+    return;
+  }
+
+  evaluating.add(record.session_id);
+  try {
+    const previous = await listDecisions({ automation: 'auto-execute', sessionId: record.session_id });
+    if (previous.some(decision => decision.outcome === 'taken')) {
+      return;
+    }
+
+    const decide = (outcome: 'taken' | 'skipped', reason: string, createdSessionId?: string) =>
+      recordDecision({
+        automation: 'auto-execute',
+        repository: record.repository,
+        issue_number: record.issue_number,
+        session_id: record.session_id,
+        outcome,
+        reason,
+        created_session_id: createdSessionId,
+      });
+
+    const parsed = ScopeOutputSchema.safeParse(session.structured_output);
+    if (!parsed.success) {
+      await decide('skipped', 'Scope output does not match the expected schema');
+      return;
+    }
+
+    const repository = await getRepoByFullName(record.repository);
+    if (repository.requireApproval) {
+      await decide('skipped', `${record.repository} requires a second person to approve scopes before execution`);
+      return;
+    }
+
+    // Someone may have started one by hand while the scope was finishing
+    const running = (await listSessionsForIssue(repository, record.issue_number))
+      .find(s => s.type === 'execute' && isSessionActive(s));
+    if (running) {
+      await decide('skipped', `Execute session ${running.session_id} is already running for the issue`);
+      return;
+    }
+
+    const issue = await getIssue(repository, record.issue_number);
+    if (issue.state !== 'open') {
+      await decide('skipped', `Issue is ${issue.state}`);
+      return;
+    }
+
+    const evaluation = evaluateAutoExecutePolicy(
+      policy,
+      parsed.data,
+      issue.labels.map(label => label.name)
+    );
+    if (!evaluation.pass) {
+      await decide('skipped', evaluation.reason);
+      return;
+    }
+
+    try {
+      const { session: executeSession } = await startExecuteSession(repository, record.issue_number, {
+        scopeSessionId: record.session_id,
+        trigger: 'auto-execute',
+      });
+      await decide('taken', evaluation.reason, executeSession.session_id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await decide('skipped', `Policy passed but execute failed to start: ${message}`);
+    }
+  } finally {
+    evaluating.delete(record.session_id);
+  }
+}
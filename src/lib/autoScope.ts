@@ -0,0 +1,102 @@
+import type { Automation } from './automations';
+import type { WebhookEvent } from './webhooks';
+import { loadAutomationConfig, type AutoScopeRule } from './automationConfig';
+import { startScopeSession } from './scopeService';
+import { recordDecision } from './decisionLog';
+import { toFullName, type RepoConfig } from './repoConfig';
+
+/**
+ * Auto-Scoping
+ *
+ * Starts a scope session when the trigger label is added to an issue, or when
+ * a newly opened issue matches one of the configured rules.
+ */
+
+interface IssueFields {
+  number: number;
+  title: string;
+  state: string;
+  labels?: Array<{ name: string }>;
+  user: { login: string } | null;
+  pull_request?: unknown;
+}
+
+function matchesRule(issue: IssueFields, rule: AutoScopeRule): boolean {
+  const labelNames = (issue.labels || []).map(label => label.name);
+
+  if (rule.labels && !rule.labels.every(label => labelNames.includes(label))) {
+    return false;
+  }
+  if (rule.titlePattern && !new RegExp(rule.titlePattern, 'i').test(issue.title)) {
+    return false;
+  }
+  if (rule.authors && !(issue.user && rule.authors.includes(issue.user.login))) {
+    return false;
+  }
+  return true;
+}
+
+async function runAutoScope(event: WebhookEvent, repository: RepoConfig): Promise<string> {
+  const config = (await loadAutomationConfig()).autoScope;
+  if (!config.enabled) {
+    return 'Auto-scoping disabled';
+  }
+
+  const issue = event.payload.issue as IssueFields;
+  if (issue.pull_request || issue.state !== 'open') {
+    return 'Skipped: not an open issue';
+  }
+
+  let trigger: string | null = null;
+
+  if (event.action === 'labeled') {
+    const label = event.payload.label as { name: string } | undefined;
+    if (label?.name === config.triggerLabel) {
+      trigger = `label:${label.name}`;
+    }
+  } else if (event.action === 'opened') {
+    const rule = config.rules.find(r => matchesRule(issue, r));
+    if (rule) {
+      trigger = `rule:${rule.name}`;
+    }
+  }
+
+  if (!trigger) {
+    return 'No matching trigger';
+  }
+
+  try {
+    const { session } = await startScopeSession(repository, issue.number, { trigger });
+    await recordDecision({
+      automation: 'auto-scope',
+      repository: toFullName(repository),
+      issue_number: issue.number,
+      outcome: 'taken',
+      reason: `Matched ${trigger}`,
+      created_session_id: session.session_id,
+    });
+    return `Started scope session ${session.session_id} (${trigger})`;
+  } catch (error) {
+    // The duplicate guard and budgets are expected outcomes, not failures
+    if (
+      error instanceof Error &&
+      (error.message.includes('already has an active scope session') || error.message.includes('budget exceeded'))
+    ) {
+      await recordDecision({
+        automation: 'auto-scope',
+        repository: toFullName(repository),
+        issue_number: issue.number,
+        outcome: 'skipped',
+        reason: `Matched ${trigger}, but ${error.message}`,
+      });
+      return `Skipped: ${error.message}`;
+    }
+    throw error;
+  }
+}
+
+export const autoScopeAutomation: Automation = {
+  name: 'auto-scope',
+  events: ['issues.opened', 'issues.labeled'],
+  run: runAutoScope,
+};
@@ -0,0 +1,136 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+/**
+ * Automation Config
+ *
+ * Rules for webhook-driven automations, read from `config/automation.json`
+ * (or DEVIN_AUTOMATION_CONFIG). The file is re-read on every use so rules can
+ * be tuned without restarting the server.
+ */
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// An issue matches a rule when it satisfies every criterion the rule sets
+export const AutoScopeRuleSchema = z.object({
+  name: z.string(),
+  /** Issue must carry all of these labels */
+  labels: z.array(z.string()).optional(),
+  /** Case-insensitive regex tested against the issue title */
+  titlePattern: z.string()
+    .refine(isValidPattern, { message: 'titlePattern must be a valid regular expression' })
+    .optional(),
+  /** Issue author must be one of these logins */
+  authors: z.array(z.string()).optional(),
+});
+
+export type AutoScopeRule = z.infer<typeof AutoScopeRuleSchema>;
+
+// Limits for one budget period; null means unlimited
+export const BudgetLimitsSchema = z.object({
+  /** Sessions started */
+  sessions: z.number().int().min(0).nullable().default(null),
+  /** Compute units reported by Devin */
+  acus: z.number().min(0).nullable().default(null),
+  /** Hours sessions spent working */
+  hours: z.number().min(0).nullable().default(null),
+});
+
+export type BudgetLimits = z.infer<typeof BudgetLimitsSchema>;
+
+export const AutomationConfigSchema = z.object({
+  autoScope: z.object({
+    enabled: z.boolean().default(false),
+    /** Adding this label to an issue starts a scope session */
+    triggerLabel: z.string().default('devin:scope'),
+    /** Rules evaluated when an issue is opened */
+    rules: z.array(AutoScopeRuleSchema).default([]),
+  }).prefault({}),
+  autoExecute: z.object({
+    enabled: z.boolean().default(false),
+    /** Lowest scope confidence_score that may execute unattended */
+    minConfidence: z.number().min(0).max(100).default(80),
+    /** Only execute when the scope reports ready_to_execute */
+    requireReadyToExecute: z.boolean().default(true),
+    /** Most open unknowns a scope may have */
+    maxUnknowns: z.number().int().min(0).default(2),
+    /** If set, the issue must carry at least one of these labels */
+    allowLabels: z.array(z.string()).default([]),
+    /** Issues carrying any of these labels are never executed automatically */
+    denyLabels: z.array(z.string()).default([]),
+  }).prefault({}),
+  scopeComment: z.object({
+    /** Publish scope results to the issue as soon as a scope completes */
+    autoPost: z.boolean().default(false),
+  }).prefault({}),
+  labelSync: z.object({
+    /** Mirror workflow status onto issues as `devin:*` labels */
+    enabled: z.boolean().default(false),
+  }).prefault({}),
+  ciFix: z.object({
+    /** Follow up automatically when checks fail on a Devin PR */
+    enabled: z.boolean().default(false),
+    /** Most CI fix attempts per issue, automatic and manual combined */
+    maxAttemptsPerIssue: z.number().int().min(0).default(2),
+    /** Log lines included per failed check */
+    logLines: z.number().int().min(0).max(500).default(50),
+  }).prefault({}),
+  reviewResponse: z.object({
+    /** Address review comments automatically when a review is submitted */
+    enabled: z.boolean().default(false),
+    /** Review states that trigger it: `changes_requested`, `commented` or `approved` */
+    triggerStates: z.array(z.enum(['changes_requested', 'commented', 'approved'])).default(['changes_requested']),
+    /** Most review-response sessions per issue, automatic and manual combined */
+    maxAttemptsPerIssue: z.number().int().min(0).default(3),
+  }).prefault({}),
+  batchScope: z.object({
+    /** Batch scope sessions working at the same time */
+    concurrency: z.number().int().min(1).default(3),
+    /** Seconds between starting one batch session and the next */
+    startIntervalSeconds: z.number().min(0).default(10),
+    /** Most issues in a single batch */
+    maxIssues: z.number().int().min(1).default(50),
+  }).prefault({}),
+  budget: z.object({
+    /** Per UTC calendar day */
+    daily: BudgetLimitsSchema.prefault({}),
+    /** Per UTC calendar month */
+    monthly: BudgetLimitsSchema.prefault({}),
+  }).prefault({}),
+});
+
+export type AutomationConfig = z.infer<typeof AutomationConfigSchema>;
+export type AutoExecutePolicy = AutomationConfig['autoExecute'];
+
+const DEFAULT_CONFIG_PATH = 'config/automation.json';
+
+function getConfigPath(): string {
+  return path.resolve(process.cwd(), process.env.DEVIN_AUTOMATION_CONFIG || DEFAULT_CONFIG_PATH);
+}
+
+export async function loadAutomationConfig(): Promise<AutomationConfig> {
+  let raw: unknown = {};
+
+  try {
+    raw = JSON.parse(await fs.readFile(getConfigPath(), 'utf8'));
+  } catch (error) {
+    // No config file means every automation stays off
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new Error(`Invalid automation config: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const result = AutomationConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid automation config: ${result.error.message}`);
+  }
+  return result.data;
+}
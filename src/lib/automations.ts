@@ -0,0 +1,70 @@
+import type { WebhookEvent } from './webhooks';
+import type { RepoConfig } from './repoConfig';
+import { autoScopeAutomation } from './autoScope';
+import { reviewResponseAutomation } from './reviewResponse';
+
+/**
+ * Automation Registry
+ *
+ * Automations react to GitHub webhook events after the store has been updated.
+ * Each one declares the events it cares about as `event` or `event.action`
+ * (e.g. `issues` or `issues.labeled`), and runs with the configured
+ * repository the event came from.
+ */
+
+export interface Automation {
+  name: string;
+  events: string[];
+  run: (event: WebhookEvent, repository: RepoConfig) => Promise<string | void>;
+}
+
+export interface AutomationResult {
+  name: string;
+  status: 'ok' | 'error';
+  detail?: string;
+}
+
+const automations: Automation[] = [
+  autoScopeAutomation,
+  reviewResponseAutomation,
+];
+
+function matchesEvent(automation: Automation, event: WebhookEvent): boolean {
+  return automation.events.some(name =>
+    name === event.name || (event.action !== undefined && name === `${event.name}.${event.action}`)
+  );
+}
+
+/**
+ * Names of the automations subscribed to the event.
+ */
+export function listAutomationsFor(event: WebhookEvent): string[] {
+  return automations.filter(a => matchesEvent(a, event)).map(a => a.name);
+}
+
+/**
+ * Runs every automation subscribed to the event.
+ * A failing automation is reported but never stops the others.
+ */
+export async function runAutomations(
+  event: WebhookEvent,
+  repository: RepoConfig
+): Promise<AutomationResult[]> {
+  const results: AutomationResult[] = [];
+
+  for (const automation of automations.filter(a => matchesEvent(a, event))) {
+    try {
+      const detail = await automation.run(event, repository);
+      results.push({ name: automation.name, status: 'ok', detail: detail || undefined });
+    } catch (error) {
+      console.error(`Automation "${automation.name}" failed:`, error);
+      results.push({
+        name: automation.name,
+        status: 'error',
+        detail: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readStore, updateStore, type StoreData } from './store';
+import { AutomationConfigSchema, loadAutomationConfig } from './automationConfig';
+import { getRepoByFullName, parseFullName, RepoConfigSchema } from './repoConfig';
+import { startScopeSession } from './scopeService';
+import { assertWithinBudget } from './usage';
+import type { SessionRecord } from './sessionStore';
+import { createScopeBatch, type ScopeBatch } from './batchScope';
+
+vi.mock('./store', () => ({ readStore: vi.fn(), updateStore: vi.fn() }));
+vi.mock('./automationConfig', async importOriginal => ({
+  ...(await importOriginal<typeof import('./automationConfig')>()),
+  loadAutomationConfig: vi.fn(),
+}));
+vi.mock('./repoConfig', async importOriginal => ({
+  ...(await importOriginal<typeof import('./repoConfig')>()),
+  getRepoByFullName: vi.fn(),
+}));
+vi.mock('./scopeService', () => ({ startScopeSession: vi.fn() }));
+vi.mock('./usage', () => ({ assertWithinBudget: vi.fn() }));
+
+const PUMP_INTERVAL = 5000;
+
+let data: StoreData;
+
+function setConfig(batchScope: unknown) {
+  vi.mocked(loadAutomationConfig).mockResolvedValue(AutomationConfigSchema.parse({ batchScope }));
+}
+
+function issues(...numbers: number[]) {
+  return numbers.map(number => ({ repository: 'Acme/Widgets', number }));
+}
+
+function jobStatuses(batch: ScopeBatch): string[] {
+  return data.batches.find(b => b.id === batch.id)!.jobs.map(job => job.status);
+}
+
+function settle(sessionId: string, status: string) {
+  data.sessions.find(s => s.session_id === sessionId)!.status_enum = status;
+}
+
+// Lets the queue finish what it started without moving the clock
+function flush(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+async function tick(ms = PUMP_INTERVAL) {
+  vi.advanceTimersByTime(ms);
+  await flush();
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+
+  // The queue outlives module reloads, so reset it between tests
+  const queue = (globalThis as { __devinBatchScopeQueue?: object }).__devinBatchScopeQueue;
+  if (queue) Object.assign(queue, { timer: null, isPumping: false, nextStartAt: 0 });
+
+  data = { sessions: [], batches: [] } as unknown as StoreData;
+  vi.mocked(readStore).mockImplementation(async () => data);
+  vi.mocked(updateStore).mockImplementation(async updater => updater(data));
+  vi.mocked(getRepoByFullName).mockImplementation(async fullName =>
+    RepoConfigSchema.parse(parseFullName(fullName.toLowerCase()))
+  );
+  vi.mocked(startScopeSession).mockImplementation(async (repository, issueNumber) => {
+    const record = {
+      session_id: `scope-${issueNumber}`,
+      type: 'scope',
+      repository: `${repository.owner}/${repository.repo}`,
+      issue_number: issueNumber,
+      url: `https://app.devin.ai/sessions/scope-${issueNumber}`,
+      created_at: new Date().toISOString(),
+      status_enum: 'running',
+    } as SessionRecord;
+    data.sessions.push(record);
+    return { session: { session_id: record.session_id, url: record.url } } as never;
+  });
+  setConfig({ concurrency: 2, startIntervalSeconds: 0 });
+});
+
+afterEach(() => {
+  vi.clearAllTimers();
+  vi.useRealTimers();
+});
+
+describe('createScopeBatch', () => {
+  it('keeps at most `concurrency` sessions working', async () => {
+    const batch = await createScopeBatch(issues(1, 2, 3));
+    await flush();
+
+    expect(jobStatuses(batch)).toEqual(['running', 'running', 'queued']);
+
+    settle('scope-1', 'blocked');
+    await tick();
+    expect(jobStatuses(batch)).toEqual(['done', 'running', 'running']);
+
+    settle('scope-2', 'finished');
+    settle('scope-3', 'expired');
+    await tick();
+    expect(jobStatuses(batch)).toEqual(['done', 'done', 'failed']);
+    expect(data.batches[0].jobs[2].error).toBe('Session ended as expired');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('spaces session starts by `startIntervalSeconds`', async () => {
+    setConfig({ concurrency: 3, startIntervalSeconds: 10 });
+
+    const batch = await createScopeBatch(issues(1, 2));
+    await flush();
+    expect(jobStatuses(batch)).toEqual(['running', 'queued']);
+
+    await tick();
+    expect(jobStatuses(batch)).toEqual(['running', 'queued']);
+
+    await tick();
+    expect(jobStatuses(batch)).toEqual(['running', 'running']);
+  });
+
+  it('requeues a job Devin rate-limited and backs off', async () => {
+    vi.mocked(startScopeSession).mockRejectedValueOnce(new Error('Devin API error (429): Too many requests'));
+
+    const batch = await createScopeBatch(issues(1));
+    await flush();
+    expect(jobStatuses(batch)).toEqual(['queued']);
+
+    await tick(55000);
+    expect(jobStatuses(batch)).toEqual(['queued']);
+
+    await tick();
+    expect(jobStatuses(batch)).toEqual(['running']);
+  });
+
+  it('fails a job whose session could not be started', async () => {
+    vi.mocked(startScopeSession).mockRejectedValueOnce(new Error('Issue #1 already has an active scope session'));
+
+    const batch = await createScopeBatch(issues(1, 2));
+    await flush();
+
+    expect(jobStatuses(batch)).toEqual(['failed', 'running']);
+    expect(data.batches[0].jobs[0].error).toBe('Issue #1 already has an active scope session');
+  });
+
+  it('drops duplicate issues and refuses empty or oversized batches', async () => {
+    setConfig({ concurrency: 2, startIntervalSeconds: 0, maxIssues: 2 });
+
+    const batch = await createScopeBatch([...issues(1, 2), { repository: 'acme/widgets', number: 1 }]);
+    expect(batch.jobs.map(job => `${job.repository}#${job.issue_number}`)).toEqual(['acme/widgets#1', 'acme/widgets#2']);
+
+    await expect(createScopeBatch([])).rejects.toThrow('at least one issue');
+    await expect(createScopeBatch(issues(1, 2, 3))).rejects.toThrow('at most 2 issues');
+  });
+
+  it('refuses a batch once the budget is used up', async () => {
+    vi.mocked(assertWithinBudget).mockRejectedValueOnce(new Error('Devin budget exceeded'));
+
+    await expect(createScopeBatch(issues(1))).rejects.toThrow('Devin budget exceeded');
+    expect(data.batches).toEqual([]);
+  });
+});
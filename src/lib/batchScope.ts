@@ -0,0 +1,246 @@
+import { randomUUID } from 'crypto';
+import { readStore, updateStore } from './store';
+import { loadAutomationConfig } from './automationConfig';
+import { getRepoByFullName, toFullName } from './repoConfig';
+import { startScopeSession } from './scopeService';
+import { isSessionActive } from './sessionLifecycle';
+import { assertWithinBudget } from './usage';
+import type { SessionRecord } from './sessionStore';
+
+/**
+ * Batch Scoping
+ *
+ * Scopes many issues from one request. Each issue becomes a job stored with
+ * its batch, and an in-process queue works them off: at most
+ * `batchScope.concurrency` batch sessions are working at once, and session
+ * starts are spaced `startIntervalSeconds` apart so a large batch stays
+ * within Devin's rate limits. A job is running from the moment its session
+ * is started until the session settles. Queued jobs survive a restart.
+ */
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchJob {
+  /** `owner/repo` */
+  repository: string;
+  issue_number: number;
+  status: BatchJobStatus;
+  session_id?: string;
+  session_url?: string;
+  error?: string;
+  started_at?: string;
+  finished_at?: string;
+}
+
+export interface ScopeBatch {
+  id: string;
+  created_at: string;
+  /** Login of the user who queued the batch; its sessions are recorded as theirs */
+  requested_by?: string;
+  terminate_previous: boolean;
+  jobs: BatchJob[];
+}
+
+export interface BatchIssue {
+  repository: string;
+  number: number;
+}
+
+interface QueueState {
+  timer: ReturnType<typeof setInterval> | null;
+  isPumping: boolean;
+  /** Earliest time the next session may be started */
+  nextStartAt: number;
+}
+
+const PUMP_INTERVAL = 5000; // 5 seconds
+// Pause after Devin reports a rate limit
+const RATE_LIMIT_BACKOFF = 60000; // 1 minute
+const RECENT_BATCHES = 10;
+
+// Survive module reloads in development so only one queue ever runs
+const globalForQueue = globalThis as typeof globalThis & { __devinBatchScopeQueue?: QueueState };
+const state: QueueState = globalForQueue.__devinBatchScopeQueue ??= {
+  timer: null,
+  isPumping: false,
+  nextStartAt: 0,
+};
+
+function isUnfinished(job: BatchJob): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * What a running job's session says about the job, once it has settled.
+ */
+function settleJob(job: BatchJob, record: SessionRecord | undefined): Partial<BatchJob> | null {
+  if (!job.session_id) {
+    // Only the queue starts sessions, and it isn't doing so right now
+    return { status: 'failed', error: 'Interrupted before the session started', finished_at: new Date().toISOString() };
+  }
+  if (!record || isSessionActive(record)) return null;
+
+  const succeeded = !record.terminated_at && ['blocked', 'finished'].includes(record.status_enum ?? '');
+  return {
+    status: succeeded ? 'done' : 'failed',
+    error: succeeded ? undefined : `Session ${record.terminated_at ? 'was stopped' : `ended as ${record.status_enum}`}`,
+    finished_at: new Date().toISOString(),
+  };
+}
+
+async function updateJob(batchId: string, job: BatchJob, changes: Partial<BatchJob>): Promise<void> {
+  await updateStore(data => {
+    const target = data.batches
+      .find(b => b.id === batchId)
+      ?.jobs.find(j => j.repository === job.repository && j.issue_number === job.issue_number);
+    if (target) Object.assign(target, changes);
+  });
+}
+
+async function startJob(batch: ScopeBatch, job: BatchJob, intervalMs: number): Promise<void> {
+  await updateJob(batch.id, job, { status: 'running', started_at: new Date().toISOString() });
+  state.nextStartAt = Date.now() + intervalMs;
+
+  try {
+    const repository = await getRepoByFullName(job.repository);
+    const { session } = await startScopeSession(repository, job.issue_number, {
+      trigger: 'batch',
+      startedBy: batch.requested_by,
+      terminatePrevious: batch.terminate_previous,
+    });
+    await updateJob(batch.id, job, { session_id: session.session_id, session_url: session.url });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (message.includes('Devin API error (429)')) {
+      state.nextStartAt = Date.now() + RATE_LIMIT_BACKOFF;
+      await updateJob(batch.id, job, { status: 'queued', started_at: undefined });
+      return;
+    }
+
+    await updateJob(batch.id, job, { status: 'failed', error: message, finished_at: new Date().toISOString() });
+  }
+}
+
+/**
+ * Settles running jobs whose sessions are done, then starts queued jobs
+ * while there is room and the pacing allows.
+ */
+async function pump() {
+  if (state.isPumping) return;
+  state.isPumping = true;
+
+  try {
+    const config = (await loadAutomationConfig()).batchScope;
+
+    const data = await updateStore(data => {
+      const sessions = new Map(data.sessions.map(s => [s.session_id, s]));
+      for (const job of data.batches.flatMap(b => b.jobs)) {
+        if (job.status !== 'running') continue;
+        const changes = settleJob(job, job.session_id ? sessions.get(job.session_id) : undefined);
+        if (changes) Object.assign(job, changes);
+      }
+      return data;
+    });
+
+    const batches = [...data.batches].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    let running = batches.flatMap(b => b.jobs).filter(j => j.status === 'running').length;
+
+    for (const batch of batches) {
+      for (const job of batch.jobs) {
+        if (job.status !== 'queued') continue;
+        if (running >= config.concurrency || Date.now() < state.nextStartAt) return;
+
+        await startJob(batch, job, config.startIntervalSeconds * 1000);
+        running += 1;
+      }
+    }
+
+    if (!batches.some(b => b.jobs.some(isUnfinished))) stopQueue();
+  } catch (error) {
+    console.error('Batch scope queue failed:', error);
+  } finally {
+    state.isPumping = false;
+  }
+}
+
+function stopQueue() {
+  if (!state.timer) return;
+  clearInterval(state.timer);
+  state.timer = null;
+}
+
+function startQueue() {
+  if (!state.timer) {
+    state.timer = setInterval(pump, PUMP_INTERVAL);
+    // Never keep the process alive just for the queue
+    state.timer.unref?.();
+  }
+  pump();
+}
+
+/**
+ * Restarts the queue after a server restart if any batch has work left.
+ */
+export async function resumeScopeBatches(): Promise<void> {
+  const data = await readStore();
+  if (data.batches.some(b => b.jobs.some(isUnfinished))) startQueue();
+}
+
+/**
+ * Queues a scope job for each issue and starts working them off.
+ * Throws if the batch is empty, too large, names a repository that isn't
+ * configured, or a budget is already used up.
+ */
+export async function createScopeBatch(
+  issues: BatchIssue[],
+  options: { terminatePrevious?: boolean; requestedBy?: string } = {}
+): Promise<ScopeBatch> {
+  const config = (await loadAutomationConfig()).batchScope;
+
+  // Normalize names and drop duplicates
+  const jobs: BatchJob[] = [];
+  for (const issue of issues) {
+    const repository = toFullName(await getRepoByFullName(issue.repository));
+    if (jobs.some(j => j.repository === repository && j.issue_number === issue.number)) continue;
+    jobs.push({ repository, issue_number: issue.number, status: 'queued' });
+  }
+
+  if (jobs.length === 0) {
+    throw new Error('Select at least one issue to scope');
+  }
+  if (jobs.length > config.maxIssues) {
+    throw new Error(`A batch can scope at most ${config.maxIssues} issues`);
+  }
+  // Jobs are still checked one by one as they start
+  await assertWithinBudget();
+
+  const batch: ScopeBatch = {
+    id: randomUUID(),
+    created_at: new Date().toISOString(),
+    requested_by: options.requestedBy,
+    terminate_previous: options.terminatePrevious === true,
+    jobs,
+  };
+  await updateStore(data => {
+    data.batches.push(batch);
+  });
+
+  startQueue();
+  return batch;
+}
+
+export async function getScopeBatch(batchId: string): Promise<ScopeBatch | null> {
+  const data = await readStore();
+  return data.batches.find(b => b.id === batchId) ?? null;
+}
+
+/**
+ * The most recent batches, newest first.
+ */
+export async function listScopeBatches(): Promise<ScopeBatch[]> {
+  const data = await readStore();
+  return [...data.batches]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .slice(0, RECENT_BATCHES);
+}
@@ -0,0 +1,192 @@
+import { getFailedChecks, type FailedCheck } from './github';
+import { sendMessage } from './devin';
+import { EXECUTE_OUTPUT_JSON_SCHEMA } from './schemas';
+import { loadAutomationConfig } from './automationConfig';
+import { listDecisions, recordDecision } from './decisionLog';
+import { getRepoByFullName } from './repoConfig';
+import { AUTOMATION_ACTOR, recordAudit } from './auditLog';
+import { isSessionMessageable } from './workflowStatus';
+import { startFollowUpSession, withFollowUpLock } from './followUp';
+import {
+  findSessionsByPullRequest,
+  getSessionRecord,
+  type PullRequestRecord,
+  type SessionRecord,
+} from './sessionStore';
+
+/**
+ * CI Fix Follow-up
+ *
+ * When checks fail on a PR Devin opened, collects the failed check runs and
+ * their log tails and hands them back to Devin: as a message if a session on
+ * the PR is still working, otherwise as a new "fix CI" session that pushes
+ * to the same branch. Attempts are capped per issue.
+ */
+
+export interface CiFixResult {
+  mode: 'message' | 'session';
+  /** Session that was messaged or started */
+  session_id: string;
+  failed_checks: string[];
+}
+
+function formatFailures(failures: FailedCheck[]): string {
+  return failures.map(failure => {
+    const lines = [`### ${failure.name} (${failure.conclusion})`];
+    if (failure.html_url) lines.push(failure.html_url);
+    if (failure.summary) lines.push('', failure.summary);
+    if (failure.log_excerpt) lines.push('', '```', failure.log_excerpt, '```');
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+function buildCiFixMessage(pullRequest: PullRequestRecord, failures: FailedCheck[]): string {
+  return `CI is failing on ${pullRequest.url}. Please fix the failures below and push to \`${pullRequest.head_ref}\`.
+
+${formatFailures(failures)}`;
+}
+
+export function buildCiFixPromptVariables(failures: FailedCheck[]): Record<string, string> {
+  return {
+    failures: formatFailures(failures),
+    outputSchema: EXECUTE_OUTPUT_JSON_SCHEMA,
+  };
+}
+
+async function countCiFixAttempts(record: SessionRecord): Promise<number> {
+  const decisions = await listDecisions({
+    repository: record.repository,
+    issueNumber: record.issue_number,
+    automation: 'ci-fix',
+  });
+  return decisions.filter(d => d.outcome === 'taken').length;
+}
+
+/**
+ * Hands the failed checks on a session's PR back to Devin.
+ * Throws when the issue has used up its CI fix attempts.
+ */
+export async function startCiFix(
+  sessionId: string,
+  options: { trigger?: string; startedBy?: string } = {}
+): Promise<CiFixResult> {
+  const record = await getSessionRecord(sessionId);
+  if (!record) {
+    throw new Error('Session not found');
+  }
+
+  const pullRequest = record.pull_request;
+  if (record.type !== 'execute' || !pullRequest?.head_ref || !pullRequest.head_sha) {
+    throw new Error('Session has no pull request to fix');
+  }
+  const headSha = pullRequest.head_sha;
+
+  return withFollowUpLock(pullRequest.url, 'A CI fix', async () => {
+    const repository = await getRepoByFullName(record.repository);
+    const config = (await loadAutomationConfig()).ciFix;
+    const attempts = await countCiFixAttempts(record);
+    if (attempts >= config.maxAttemptsPerIssue) {
+      throw new Error(
+        `Issue #${record.issue_number} has reached the CI fix limit (${config.maxAttemptsPerIssue} attempts)`
+      );
+    }
+
+    const failures = await getFailedChecks(repository, headSha, config.logLines);
+    if (failures.length === 0) {
+      throw new Error('No failed checks found on the pull request');
+    }
+    const failedNames = failures.map(failure => failure.name);
+
+    // Prefer a session on this PR that is still working over starting another
+    const linked = await findSessionsByPullRequest({ url: pullRequest.url });
+    const active = linked
+      .filter(s => !s.terminated_at && isSessionMessageable(s.status_enum))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .pop();
+
+    let result: CiFixResult;
+
+    if (active) {
+      const message = buildCiFixMessage(pullRequest, failures);
+      await sendMessage(active.session_id, message);
+      await recordAudit({
+        actor: options.startedBy ?? AUTOMATION_ACTOR,
+        action: 'session.message',
+        repository: active.repository,
+        issue_number: active.issue_number,
+        session_id: active.session_id,
+        summary: `Sent failing checks to the session: ${failedNames.join(', ')}`,
+        details: { kind: 'ci-fix', trigger: options.trigger || 'manual', message },
+      });
+      result = { mode: 'message', session_id: active.session_id, failed_checks: failedNames };
+    } else {
+      const { session } = await startFollowUpSession(record, {
+        kind: 'ci-fix',
+        repository,
+        pullRequest,
+        titlePrefix: 'Fix CI',
+        variables: buildCiFixPromptVariables(failures),
+        trigger: options.trigger,
+        startedBy: options.startedBy,
+        details: { failed_checks: failedNames },
+      });
+
+      result = { mode: 'session', session_id: session.session_id, failed_checks: failedNames };
+    }
+
+    await recordDecision({
+      automation: 'ci-fix',
+      repository: record.repository,
+      issue_number: record.issue_number,
+      session_id: record.session_id,
+      subject: headSha,
+      outcome: 'taken',
+      reason: `${result.mode === 'message' ? 'Messaged' : 'Started'} session for failing checks: ${failedNames.join(', ')}` +
+        ` (attempt ${attempts + 1} of ${config.maxAttemptsPerIssue})`,
+      created_session_id: result.mode === 'session' ? result.session_id : undefined,
+    });
+
+    return result;
+  });
+}
+
+/**
+ * Follows up once per failing commit when `ciFix.enabled` is on, so a new
+ * push that fails again is handled even if checks never went green between.
+ * Only the newest session on the PR acts, so sessions sharing a PR don't
+ * double up.
+ */
+export async function maybeAutoFixCi(record: SessionRecord): Promise<void> {
+  const pullRequest = record.pull_request;
+  if (record.type !== 'execute' || !pullRequest?.head_sha || pullRequest.checks_conclusion !== 'failure') {
+    return;
+  }
+
+  const config = (await loadAutomationConfig()).ciFix;
+  if (!config.enabled) return;
+
+  const linked = await findSessionsByPullRequest({ url: pullRequest.url });
+  const newest = linked.sort((a, b) => a.created_at.localeCompare(b.created_at)).pop();
+  if (newest?.session_id !== record.session_id) return;
+
+  const decisions = await listDecisions({
+    repository: record.repository,
+    issueNumber: record.issue_number,
+    automation: 'ci-fix',
+  });
+  if (decisions.some(d => d.subject === pullRequest.head_sha)) return;
+
+  try {
+    await startCiFix(record.session_id, { trigger: 'ci-fix' });
+  } catch (error) {
+    await recordDecision({
+      automation: 'ci-fix',
+      repository: record.repository,
+      issue_number: record.issue_number,
+      session_id: record.session_id,
+      subject: pullRequest.head_sha,
+      outcome: 'skipped',
+      reason: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
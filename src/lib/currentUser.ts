@@ -0,0 +1,58 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import type { Role } from './roles';
+
+/**
+ * Client-Side Current User
+ *
+ * The signed-in user, fetched once from /api/auth/me and shared by every
+ * component that hides actions the user's role doesn't allow.
+ */
+
+export interface CurrentUser {
+  login: string;
+  role: Role;
+  provider: 'github' | 'password';
+}
+
+let currentUser: CurrentUser | null = null;
+let requested = false;
+const listeners = new Set<() => void>();
+
+function load() {
+  if (requested) return;
+  requested = true;
+
+  fetch('/api/auth/me')
+    .then(response => response.json())
+    .then(data => {
+      currentUser = data.user ?? null;
+      listeners.forEach(listener => listener());
+    })
+    .catch(() => {
+      // Leave actions hidden; the server enforces roles either way
+    });
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  load();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * The signed-in user, or null until it has loaded.
+ */
+export function useCurrentUser(): CurrentUser | null {
+  return useSyncExternalStore(subscribe, () => currentUser, () => null);
+}
+
+export async function signOut(): Promise<void> {
+  await fetch('/api/auth/logout', { method: 'POST' });
+  currentUser = null;
+  requested = false;
+  window.location.href = '/login';
+}
@@ -0,0 +1,79 @@
+import { randomUUID } from 'crypto';
+import { readStore, updateStore } from './store';
+import { AUTOMATION_ACTOR, recordAudit } from './auditLog';
+
+/**
+ * A decision taken (or declined) by an automation, with the reason why.
+ */
+export interface AutomationDecision {
+  id: string;
+  /** Automation name, e.g. `auto-scope` or `auto-execute` */
+  automation: string;
+  /** Repository of the issue, as `owner/repo` */
+  repository: string;
+  issue_number: number;
+  /** Session the decision was made about, if any */
+  session_id?: string;
+  /** What else the decision was about, e.g. the commit SHA whose CI failed */
+  subject?: string;
+  outcome: 'taken' | 'skipped';
+  reason: string;
+  /** Session started as a result of the decision */
+  created_session_id?: string;
+  created_at: string;
+}
+
+export async function recordDecision(
+  decision: Omit<AutomationDecision, 'id' | 'created_at'>
+): Promise<AutomationDecision> {
+  const entry: AutomationDecision = {
+    id: randomUUID(),
+    ...decision,
+    created_at: new Date().toISOString(),
+  };
+
+  console.info(`[${entry.automation}] ${entry.repository}#${entry.issue_number} ${entry.outcome}: ${entry.reason}`);
+
+  await updateStore(data => {
+    data.decisions.push(entry);
+  });
+  await recordAudit({
+    actor: AUTOMATION_ACTOR,
+    action: 'automation.decision',
+    repository: entry.repository,
+    issue_number: entry.issue_number,
+    session_id: entry.created_session_id ?? entry.session_id,
+    summary: `${entry.automation} ${entry.outcome}: ${entry.reason}`,
+    details: {
+      automation: entry.automation,
+      outcome: entry.outcome,
+      reason: entry.reason,
+      subject: entry.subject,
+      session_id: entry.session_id,
+      created_session_id: entry.created_session_id,
+    },
+  });
+
+  return entry;
+}
+
+/**
+ * Lists decisions newest first, optionally narrowed down.
+ */
+export async function listDecisions(filter: {
+  /** `owner/repo` */
+  repository?: string;
+  issueNumber?: number;
+  automation?: string;
+  sessionId?: string;
+} = {}): Promise<AutomationDecision[]> {
+  const data = await readStore();
+  return data.decisions
+    .filter(d =>
+      (filter.repository === undefined || d.repository === filter.repository) &&
+      (filter.issueNumber === undefined || d.issue_number === filter.issueNumber) &&
+      (filter.automation === undefined || d.automation === filter.automation) &&
+      (filter.sessionId === undefined || d.session_id === filter.sessionId)
+    )
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
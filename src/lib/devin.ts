@@ -1,3 +1,5 @@
+import type { PullRequestState, ScopeApproval } from './workflowStatus';
+
 const DEVIN_API_BASE = 'https://api.devin.ai/v1';
 
 function getApiKey(): string {
@@ -33,6 +35,8 @@ export interface DevinSession {
   updated_at: string;
   messages_count?: number;
   title?: string;
+  /** Compute units used so far, when Devin reports them */
+  acus_consumed?: number;
 }
 
 export async function createSession(params: CreateSessionParams): Promise<DevinSession> {
@@ -70,7 +74,18 @@ export async function createSession(params: CreateSessionParams): Promise<DevinS
   };
 }
 
-export async function getSession(sessionId: string): Promise<DevinSession> {
+export interface SessionMessage {
+  event_id: string;
+  /** e.g. `initial_user_message`, `user_message` or `devin_message` */
+  type: string;
+  sender: 'devin' | 'user';
+  /** Devin username of the person who sent a user message */
+  username?: string;
+  message: string;
+  timestamp: string;
+}
+
+async function fetchSessionData(sessionId: string) {
   const apiKey = getApiKey();
   
   const response = await fetch(`${DEVIN_API_BASE}/sessions/${sessionId}`, {
@@ -86,7 +101,11 @@ export async function getSession(sessionId: string): Promise<DevinSession> {
     throw new Error(`Devin API error (${response.status}): ${error}`);
   }
   
-  const data = await response.json();
+  return response.json();
+}
+
+export async function getSession(sessionId: string): Promise<DevinSession> {
+  const data = await fetchSessionData(sessionId);
   
   return {
     session_id: data.session_id,
@@ -97,5 +116,104 @@ export async function getSession(sessionId: string): Promise<DevinSession> {
     updated_at: data.updated_at,
     messages_count: data.messages?.length,
     title: data.title,
+    acus_consumed: typeof data.acus_consumed === 'number' ? data.acus_consumed : undefined,
+  };
+}
+
+/**
+ * The session's conversation, oldest first.
+ */
+export async function getSessionMessages(sessionId: string): Promise<SessionMessage[]> {
+  const data = await fetchSessionData(sessionId);
+  const messages: Array<Record<string, unknown>> = data.messages || [];
+  
+  return messages.map((message, index) => {
+    const type = String(message.type || 'unknown');
+    return {
+      event_id: String(message.event_id || index),
+      type,
+      sender: type === 'devin_message' ? 'devin' : 'user',
+      username: typeof message.username === 'string' ? message.username : undefined,
+      message: String(message.message || ''),
+      timestamp: String(message.timestamp || ''),
+    };
+  });
+}
+
+/**
+ * Sends a message to a session, e.g. to answer a question it is blocked on.
+ */
+export async function sendMessage(sessionId: string, message: string): Promise<void> {
+  const apiKey = getApiKey();
+  
+  const response = await fetch(`${DEVIN_API_BASE}/sessions/${sessionId}/message`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ message }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Devin API error (${response.status}): ${error}`);
+  }
+}
+
+/**
+ * Terminates a session. Devin stops working on it and it cannot be resumed.
+ */
+export async function terminateSession(sessionId: string): Promise<void> {
+  const apiKey = getApiKey();
+  
+  const response = await fetch(`${DEVIN_API_BASE}/sessions/${sessionId}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+  });
+  
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Devin API error (${response.status}): ${error}`);
+  }
+}
+
+/**
+ * Session details as sent to the browser (never includes the API key or prompt).
+ */
+export interface SessionSnapshot {
+  session_id: string;
+  url: string;
+  status_enum: DevinSession['status_enum'];
+  structured_output: Record<string, unknown> | null;
+  pull_request_url: string | null;
+  /** PR review, CI and merge state as tracked from GitHub */
+  pull_request_state: PullRequestState | null;
+  /** Approval of a scope session, where the repository requires one */
+  approval: ScopeApproval | null;
+  updated_at: string;
+  messages_count?: number;
+  title?: string;
+}
+
+export function toSessionSnapshot(
+  session: DevinSession,
+  pullRequest?: PullRequestState | null,
+  approval?: ScopeApproval | null
+): SessionSnapshot {
+  return {
+    session_id: session.session_id,
+    url: session.url,
+    status_enum: session.status_enum,
+    structured_output: session.structured_output,
+    pull_request_url: session.pull_request?.url || null,
+    pull_request_state: pullRequest ?? null,
+    approval: approval ?? null,
+    updated_at: session.updated_at,
+    messages_count: session.messages_count,
+    title: session.title,
   };
 }
@@ -0,0 +1,158 @@
+import { getIssue, type GitHubIssue } from './github';
+import { createSession, getSession, type DevinSession } from './devin';
+import { EXECUTE_OUTPUT_JSON_SCHEMA, formatActionPlan } from './schemas';
+import { getSessionRecord, recordSession, type SessionRecord } from './sessionStore';
+import { stopActiveSessions } from './sessionLifecycle';
+import { getActiveTemplate, getIssueVariables, renderTemplate } from './promptTemplates';
+import { appendPlaybook, loadPlaybook, toPlaybookRef } from './playbook';
+import { toFullName, type RepoConfig } from './repoConfig';
+import { assertWithinBudget } from './usage';
+import { AUTOMATION_ACTOR, recordSessionCreated } from './auditLog';
+import { getApprovedPlan } from './scopeApproval';
+
+/**
+ * Execute Service
+ *
+ * Starts execute sessions from a scope session's action plan. Shared by the
+ * execute route and the auto-execute policy.
+ */
+
+export interface StartExecuteOptions {
+  scopeSessionId: string;
+  clarifications?: string;
+  /** What started the session, e.g. `manual` or `auto-execute` */
+  trigger?: string;
+  /** Login of the user starting the session; unset for automations */
+  startedBy?: string;
+  /** Terminate execute sessions still running for the issue first */
+  terminatePrevious?: boolean;
+}
+
+export interface ExecuteSessionResult {
+  session: DevinSession;
+  issue: GitHubIssue;
+  record: SessionRecord;
+  /** Sessions terminated to make way for this one */
+  stoppedSessionIds: string[];
+}
+
+/**
+ * The scope session's action plan as a numbered list, or its raw output if
+ * that doesn't match the scope schema.
+ */
+export async function getActionPlanText(scopeSessionId: string): Promise<string> {
+  const scopeSession = await getSession(scopeSessionId);
+
+  if (!scopeSession.structured_output) {
+    throw new Error('Scope session has no structured output yet. Wait for scoping to complete.');
+  }
+
+  return formatActionPlan(scopeSession.structured_output);
+}
+
+export function buildExecutePromptVariables(
+  repository: RepoConfig,
+  issue: GitHubIssue,
+  actionPlan: string,
+  clarifications?: string
+): Record<string, string> {
+  return {
+    ...getIssueVariables(repository, issue),
+    actionPlan,
+    clarifications: clarifications || '',
+    outputSchema: EXECUTE_OUTPUT_JSON_SCHEMA,
+  };
+}
+
+/**
+ * The recorded scope session to take the plan from. Throws unless it is a
+ * scope session this dashboard started for the same issue, so a plan can't
+ * be carried over from another issue or repository.
+ */
+async function getIssueScope(repository: RepoConfig, issueNumber: number, scopeSessionId: string): Promise<SessionRecord> {
+  const record = await getSessionRecord(scopeSessionId);
+  if (!record || record.type !== 'scope' || record.repository !== toFullName(repository) || record.issue_number !== issueNumber) {
+    throw new Error(`Scope session ${scopeSessionId} not found for issue #${issueNumber} in ${toFullName(repository)}`);
+  }
+  return record;
+}
+
+export async function startExecuteSession(
+  repository: RepoConfig,
+  issueNumber: number,
+  options: StartExecuteOptions
+): Promise<ExecuteSessionResult> {
+  const { scopeSessionId, clarifications } = options;
+
+  const scope = await getIssueScope(repository, issueNumber, scopeSessionId);
+
+  // Sensitive repos run the plan a second person signed off, even if the
+  // scope's output has changed since
+  const approvedPlan = getApprovedPlan(repository, scope);
+  const actionPlanText = approvedPlan ?? await getActionPlanText(scopeSessionId);
+
+  // Fetch issue details
+  const issue = await getIssue(repository, issueNumber);
+  const template = await getActiveTemplate('execute');
+  const playbook = await loadPlaybook(repository);
+
+  // Get GITHUB_TOKEN for session secret
+  const githubToken = process.env.GITHUB_TOKEN;
+  if (!githubToken) {
+    throw new Error('GITHUB_TOKEN environment variable is required for execution');
+  }
+
+  await assertWithinBudget();
+
+  // Stop the attempt this one replaces so it doesn't keep working in parallel
+  const stoppedSessionIds = options.terminatePrevious
+    ? await stopActiveSessions(repository, issueNumber, 'execute', options.startedBy ?? AUTOMATION_ACTOR)
+    : [];
+
+  // Create Devin execution session with secrets
+  const session = await createSession({
+    prompt: appendPlaybook(
+      renderTemplate(template.body, buildExecutePromptVariables(repository, issue, actionPlanText, clarifications)),
+      playbook
+    ),
+    title: `Execute: ${issue.title.substring(0, 50)}`,
+    tags: [
+      'cognition-takehome',
+      'github-issues',
+      'stage:execute',
+      `issue:${issueNumber}`,
+      `repo:${toFullName(repository)}`,
+      `scope:${scopeSessionId}`,
+    ],
+    unlisted: true,
+    session_secrets: [
+      {
+        key: 'GITHUB_TOKEN',
+        value: githubToken,
+        sensitive: true,
+      },
+    ],
+  });
+
+  // Persist so every dashboard user sees the session
+  const record = await recordSession({
+    session_id: session.session_id,
+    type: 'execute',
+    repository: toFullName(repository),
+    issue_number: issueNumber,
+    url: session.url,
+    title: issue.title,
+    created_at: new Date().toISOString(),
+    scope_session_id: scopeSessionId,
+    trigger: options.trigger || 'manual',
+    started_by: options.startedBy,
+    prompt_template: { name: 'execute', version: template.version },
+    playbook: toPlaybookRef(playbook),
+  });
+  await recordSessionCreated(record, {
+    clarifications: clarifications || undefined,
+    stopped_session_ids: stoppedSessionIds,
+  });
+
+  return { session, issue, record, stoppedSessionIds };
+}
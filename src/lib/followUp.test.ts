@@ -0,0 +1,119 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getIssue, type GitHubIssue } from './github';
+import { createSession, type DevinSession } from './devin';
+import { loadPlaybook } from './playbook';
+import { readStore, type StoreData } from './store';
+import { recordSession, type SessionRecord } from './sessionStore';
+import { RepoConfigSchema } from './repoConfig';
+import { startFollowUpSession } from './followUp';
+
+vi.mock('./github', () => ({ getIssue: vi.fn() }));
+vi.mock('./devin', () => ({ createSession: vi.fn() }));
+vi.mock('./playbook', async importOriginal => ({
+  ...(await importOriginal<typeof import('./playbook')>()),
+  loadPlaybook: vi.fn(),
+}));
+vi.mock('./store', () => ({ readStore: vi.fn(), updateStore: vi.fn() }));
+vi.mock('./sessionStore', () => ({ listSessions: vi.fn(), recordSession: vi.fn() }));
+vi.mock('./usage', () => ({ assertWithinBudget: vi.fn() }));
+vi.mock('./auditLog', () => ({ recordSessionCreated: vi.fn() }));
+
+const repository = RepoConfigSchema.parse({ owner: 'acme', repo: 'widgets' });
+
+const issue = {
+  number: 7,
+  title: 'Fix the thing',
+  body: 'It is broken',
+  html_url: 'https://github.com/acme/widgets/issues/7',
+} as GitHubIssue;
+
+const pullRequest = {
+  url: 'https://github.com/acme/widgets/pull/12',
+  number: 12,
+  head_ref: 'devin/fix-the-thing',
+  head_sha: 'abc123',
+  updated_at: '2026-10-01T00:00:00.000Z',
+};
+
+const parent: SessionRecord = {
+  session_id: 'exec-1',
+  type: 'execute',
+  repository: 'acme/widgets',
+  issue_number: 7,
+  url: 'https://app.devin.ai/sessions/exec-1',
+  created_at: '2026-10-01T00:00:00.000Z',
+  pull_request: pullRequest,
+};
+
+function getPrompt(): string {
+  return vi.mocked(createSession).mock.calls[0][0].prompt;
+}
+
+beforeAll(() => {
+  vi.stubEnv('GITHUB_TOKEN', 'token');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(readStore).mockResolvedValue({ templates: [] } as unknown as StoreData);
+  vi.mocked(getIssue).mockResolvedValue(issue);
+  vi.mocked(loadPlaybook).mockResolvedValue(null);
+  vi.mocked(createSession).mockResolvedValue({
+    session_id: 'fix-1',
+    url: 'https://app.devin.ai/sessions/fix-1',
+  } as DevinSession);
+  vi.mocked(recordSession).mockImplementation(async record => record);
+});
+
+describe('startFollowUpSession', () => {
+  it('renders the built-in template of its kind', async () => {
+    const { record } = await startFollowUpSession(parent, {
+      kind: 'ci-fix',
+      repository,
+      pullRequest,
+      titlePrefix: 'Fix CI',
+      variables: { failures: '### build (failure)', outputSchema: '{}' },
+    });
+
+    const prompt = getPrompt();
+    expect(prompt).toContain('# Task: Fix Failing CI for GitHub Issue #7');
+    expect(prompt).toContain('**Pull Request:** https://github.com/acme/widgets/pull/12');
+    expect(prompt).toContain('check out the existing branch `devin/fix-the-thing`');
+    expect(prompt).toContain('### build (failure)');
+    expect(prompt).not.toMatch(/\{\{/);
+    expect(record.prompt_template).toEqual({ name: 'ci-fix', version: 1 });
+    expect(record.followup).toEqual({ kind: 'ci-fix', parent_session_id: 'exec-1' });
+  });
+
+  it('uses the latest saved version and appends the playbook', async () => {
+    vi.mocked(readStore).mockResolvedValue({
+      templates: [
+        { name: 'review-response', version: 2, body: 'Old {{threads}}' },
+        { name: 'review-response', version: 3, body: 'Address {{threads}} on {{pullRequest.branch}}' },
+        { name: 'ci-fix', version: 4, body: 'Fix {{failures}}' },
+      ],
+    } as unknown as StoreData);
+    vi.mocked(loadPlaybook).mockResolvedValue({
+      source: 'repo',
+      path: '.devin/playbook.md',
+      revision: 'def456',
+      content: 'Run npm test',
+    });
+
+    const { record } = await startFollowUpSession(parent, {
+      kind: 'review-response',
+      repository,
+      pullRequest,
+      titlePrefix: 'Address review',
+      variables: { threads: '2 threads', outputSchema: '{}' },
+    });
+
+    expect(getPrompt()).toMatch(/^Address 2 threads on devin\/fix-the-thing\n[\s\S]*Run npm test/);
+    expect(record.prompt_template).toEqual({ name: 'review-response', version: 3 });
+    expect(record.playbook).toEqual({ source: 'repo', path: '.devin/playbook.md', revision: 'def456' });
+  });
+});
@@ -0,0 +1,150 @@
+import { getIssue, type GitHubIssue } from './github';
+import { createSession, type DevinSession } from './devin';
+import { appendPlaybook, loadPlaybook, toPlaybookRef } from './playbook';
+import { toFullName, type RepoConfig } from './repoConfig';
+import { getActiveTemplate, getIssueVariables, renderTemplate } from './promptTemplates';
+import { assertWithinBudget } from './usage';
+import { recordSessionCreated } from './auditLog';
+import { recordSession, type FollowUpKind, type PullRequestRecord, type SessionRecord } from './sessionStore';
+
+/**
+ * Follow-up Sessions
+ *
+ * Starts execute sessions that continue on the PR an earlier one opened, e.g.
+ * to fix CI or address review. Shared by the CI fix and review response
+ * follow-ups so both render their prompt template, hand over GITHUB_TOKEN,
+ * tag and record their sessions the same way.
+ */
+
+export interface StartFollowUpOptions {
+  kind: FollowUpKind;
+  repository: RepoConfig;
+  pullRequest: PullRequestRecord;
+  /** Session title, before the issue title */
+  titlePrefix: string;
+  /** Template variables of the follow-up kind, e.g. `failures` */
+  variables: Record<string, string>;
+  /** What started the session, e.g. `manual` or `ci-fix` */
+  trigger?: string;
+  /** Login of the user starting the session; unset for automations */
+  startedBy?: string;
+  /** Recorded with the session.created audit entry */
+  details?: Record<string, unknown>;
+}
+
+// PRs being followed up in this process
+const inFlight = new Set<string>();
+
+/**
+ * Runs `start` unless another follow-up is already being started on the PR
+ * in this process. `description` names the follow-up in the error, e.g.
+ * "A CI fix".
+ */
+export async function withFollowUpLock<T>(
+  pullRequestUrl: string,
+  description: string,
+  start: () => Promise<T>
+): Promise<T> {
+  if (inFlight.has(pullRequestUrl)) {
+    throw new Error(`${description} for ${pullRequestUrl} is already being started`);
+  }
+
+  inFlight.add(pullRequestUrl);
+  try {
+    return await start();
+  } finally {
+    inFlight.delete(pullRequestUrl);
+  }
+}
+
+export function buildFollowUpPromptVariables(
+  repository: RepoConfig,
+  issue: GitHubIssue,
+  pullRequest: PullRequestRecord,
+  variables: Record<string, string>
+): Record<string, string> {
+  return {
+    ...getIssueVariables(repository, issue),
+    'pullRequest.url': pullRequest.url,
+    'pullRequest.branch': pullRequest.head_ref ?? '',
+    ...variables,
+  };
+}
+
+/**
+ * Starts a follow-up session on the PR of `record`, an execute session.
+ * The prompt is the active template named after the follow-up kind.
+ */
+export async function startFollowUpSession(
+  record: SessionRecord,
+  options: StartFollowUpOptions
+): Promise<{ session: DevinSession; record: SessionRecord }> {
+  const { repository, pullRequest } = options;
+
+  const githubToken = process.env.GITHUB_TOKEN;
+  if (!githubToken) {
+    throw new Error('GITHUB_TOKEN environment variable is required for execution');
+  }
+
+  await assertWithinBudget();
+
+  const issue = await getIssue(repository, record.issue_number);
+  const playbook = await loadPlaybook(repository);
+  const template = await getActiveTemplate(options.kind);
+  // Follow-ups always point at the session that opened the PR
+  const parentSessionId = record.followup?.parent_session_id ?? record.session_id;
+
+  const session = await createSession({
+    prompt: appendPlaybook(
+      renderTemplate(
+        template.body,
+        buildFollowUpPromptVariables(repository, issue, pullRequest, options.variables)
+      ),
+      playbook
+    ),
+    title: `${options.titlePrefix}: ${issue.title.substring(0, 50)}`,
+    tags: [
+      'cognition-takehome',
+      'github-issues',
+      `stage:${options.kind}`,
+      `issue:${record.issue_number}`,
+      `repo:${toFullName(repository)}`,
+      `parent:${parentSessionId}`,
+    ],
+    unlisted: true,
+    session_secrets: [
+      {
+        key: 'GITHUB_TOKEN',
+        value: githubToken,
+        sensitive: true,
+      },
+    ],
+  });
+
+  const created = await recordSession({
+    session_id: session.session_id,
+    type: 'execute',
+    repository: record.repository,
+    issue_number: record.issue_number,
+    url: session.url,
+    title: issue.title,
+    created_at: new Date().toISOString(),
+    scope_session_id: record.scope_session_id,
+    trigger: options.trigger || 'manual',
+    started_by: options.startedBy,
+    followup: { kind: options.kind, parent_session_id: parentSessionId },
+    prompt_template: { name: options.kind, version: template.version },
+    playbook: toPlaybookRef(playbook),
+    // Same PR, so the new session's status follows it too
+    pull_request: {
+      url: pullRequest.url,
+      number: pullRequest.number,
+      head_ref: pullRequest.head_ref,
+      head_sha: pullRequest.head_sha,
+      updated_at: new Date().toISOString(),
+    },
+  });
+  await recordSessionCreated(created, { pull_request: pullRequest.url, ...options.details });
+
+  return { session, record: created };
+}
@@ -0,0 +1,147 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getCheckSummary, getFailedChecks } from './github';
+
+const octokit = vi.hoisted(() => ({
+  paginate: vi.fn(),
+  rest: {
+    checks: { listForRef: 'checks.listForRef' },
+    repos: { getCombinedStatusForRef: vi.fn() },
+    actions: { downloadJobLogsForWorkflowRun: vi.fn() },
+  },
+}));
+
+vi.mock('octokit', () => ({
+  Octokit: class {
+    constructor() {
+      return octokit;
+    }
+  },
+}));
+
+const repository = { owner: 'acme', repo: 'widgets' };
+
+function checkRun(id: number, name: string, conclusion: string | null, fields: Record<string, unknown> = {}) {
+  return {
+    id,
+    name,
+    status: conclusion === null ? 'in_progress' : 'completed',
+    conclusion,
+    html_url: `https://github.com/acme/widgets/runs/${id}`,
+    app: { slug: 'github-actions' },
+    output: { title: `${name} ${conclusion}`, summary: null },
+    ...fields,
+  };
+}
+
+function status(context: string, state: string) {
+  return { context, state, target_url: `https://ci.example/${context}`, description: `${context} ${state}` };
+}
+
+function mockChecks(checkRuns: unknown[], statuses: unknown[]) {
+  octokit.paginate.mockResolvedValue(checkRuns);
+  octokit.rest.repos.getCombinedStatusForRef.mockResolvedValue({ data: { statuses } });
+}
+
+beforeAll(() => {
+  vi.stubEnv('GITHUB_TOKEN', 'token');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  octokit.rest.actions.downloadJobLogsForWorkflowRun.mockResolvedValue({ data: 'line 1\nline 2\nline 3\n' });
+});
+
+describe('failed checks', () => {
+  it('counts failed check runs and commit statuses, but not cancelled runs', async () => {
+    mockChecks(
+      [
+        checkRun(1, 'build', 'failure'),
+        checkRun(2, 'lint', 'success'),
+        checkRun(3, 'e2e', 'cancelled'),
+        checkRun(4, 'deploy', 'timed_out'),
+      ],
+      [status('ci/jenkins', 'error'), status('coverage', 'success')]
+    );
+
+    const summary = await getCheckSummary(repository, 'abc123');
+    const failures = await getFailedChecks(repository, 'abc123');
+
+    expect(summary).toEqual({
+      status: 'completed',
+      conclusion: 'failure',
+      total: 6,
+      failed: ['build', 'deploy', 'ci/jenkins'],
+    });
+    expect(failures.map(f => f.name)).toEqual(summary.failed);
+  });
+
+  it('succeeds once every check is done and none failed', async () => {
+    mockChecks([checkRun(1, 'build', 'success'), checkRun(2, 'e2e', 'cancelled')], [status('coverage', 'success')]);
+
+    expect(await getCheckSummary(repository, 'abc123')).toEqual({
+      status: 'completed',
+      conclusion: 'success',
+      total: 3,
+      failed: [],
+    });
+    expect(await getFailedChecks(repository, 'abc123')).toEqual([]);
+  });
+
+  it('has no conclusion while runs or statuses are pending, or without checks', async () => {
+    mockChecks([checkRun(1, 'build', 'success')], [status('ci/jenkins', 'pending')]);
+
+    const summary = await getCheckSummary(repository, 'abc123');
+    expect(summary.status).toBe('in_progress');
+    expect(summary.conclusion).toBeNull();
+
+    mockChecks([], []);
+    expect((await getCheckSummary(repository, 'abc123')).conclusion).toBeNull();
+  });
+
+  it('adds the log tail of Actions jobs and the description of statuses', async () => {
+    mockChecks(
+      [checkRun(1, 'build', 'failure'), checkRun(2, 'external', 'failure', { app: { slug: 'circleci' } })],
+      [status('ci/jenkins', 'failure')]
+    );
+
+    const failures = await getFailedChecks(repository, 'abc123', 2);
+
+    expect(failures).toEqual([
+      {
+        name: 'build',
+        conclusion: 'failure',
+        html_url: 'https://github.com/acme/widgets/runs/1',
+        summary: 'build failure',
+        log_excerpt: 'line 2\nline 3',
+      },
+      {
+        name: 'external',
+        conclusion: 'failure',
+        html_url: 'https://github.com/acme/widgets/runs/2',
+        summary: 'external failure',
+        log_excerpt: '',
+      },
+      {
+        name: 'ci/jenkins',
+        conclusion: 'failure',
+        html_url: 'https://ci.example/ci/jenkins',
+        summary: 'ci/jenkins failure',
+        log_excerpt: '',
+      },
+    ]);
+    expect(octokit.rest.actions.downloadJobLogsForWorkflowRun).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the summary when the log has expired', async () => {
+    mockChecks([checkRun(1, 'build', 'failure')], []);
+    octokit.rest.actions.downloadJobLogsForWorkflowRun.mockRejectedValue(Object.assign(new Error('Gone'), { status: 404 }));
+
+    const [failure] = await getFailedChecks(repository, 'abc123');
+    expect(failure.log_excerpt).toBe('');
+    expect(failure.summary).toBe('build failure');
+  });
+});
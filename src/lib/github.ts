@@ -1,4 +1,5 @@
 import { Octokit } from 'octokit';
+import type { RepoRef } from './repoConfig';
 
 // Initialize Octokit client
 function getOctokit(): Octokit {
@@ -9,17 +10,6 @@ function getOctokit(): Octokit {
   return new Octokit({ auth: token });
 }
 
-function getRepoConfig() {
-  const owner = process.env.GITHUB_OWNER;
-  const repo = process.env.GITHUB_REPO;
-  
-  if (!owner || !repo) {
-    throw new Error('GITHUB_OWNER and GITHUB_REPO environment variables are required');
-  }
-  
-  return { owner, repo };
-}
-
 export interface GitHubIssue {
   number: number;
   title: string;
@@ -39,56 +29,26 @@ export interface GitHubIssue {
 
 export type IssueState = 'open' | 'closed' | 'all';
 
-export async function listIssues(state: IssueState = 'open'): Promise<GitHubIssue[]> {
-  const octokit = getOctokit();
-  const { owner, repo } = getRepoConfig();
-  
-  const response = await octokit.rest.issues.listForRepo({
-    owner,
-    repo,
-    state,
-    per_page: 50,
-    sort: 'updated',
-    direction: 'desc',
-  });
-  
-  // Filter out pull requests (GitHub API returns PRs as issues)
-  return response.data
-    .filter(issue => !issue.pull_request)
-    .map(issue => ({
-      number: issue.number,
-      title: issue.title,
-      body: issue.body ?? null,
-      html_url: issue.html_url,
-      updated_at: issue.updated_at,
-      labels: issue.labels
-        .filter((label): label is { name: string; color: string } => 
-          typeof label === 'object' && label !== null && 'name' in label
-        )
-        .map(label => ({
-          name: label.name,
-          color: label.color || 'gray',
-        })),
-      state: issue.state,
-      user: issue.user ? {
-        login: issue.user.login,
-        avatar_url: issue.user.avatar_url,
-      } : null,
-    }));
+export interface IssueSearchResult {
+  total_count: number;
+  /** GitHub timed out before finding every match */
+  incomplete_results: boolean;
+  items: Array<GitHubIssue & { repository: RepoRef }>;
 }
 
-export async function getIssue(issueNumber: number): Promise<GitHubIssue> {
-  const octokit = getOctokit();
-  const { owner, repo } = getRepoConfig();
-  
-  const response = await octokit.rest.issues.get({
-    owner,
-    repo,
-    issue_number: issueNumber,
-  });
-  
-  const issue = response.data;
-  
+// Structural subset of the issue payloads returned by the REST endpoints
+interface RestIssue {
+  number: number;
+  title: string;
+  body?: string | null;
+  html_url: string;
+  updated_at: string;
+  labels: Array<string | { name?: string; color?: string | null }>;
+  state: string;
+  user: { login: string; avatar_url: string } | null;
+}
+
+function toGitHubIssue(issue: RestIssue): GitHubIssue {
   return {
     number: issue.number,
     title: issue.title,
@@ -96,8 +56,8 @@ export async function getIssue(issueNumber: number): Promise<GitHubIssue> {
     html_url: issue.html_url,
     updated_at: issue.updated_at,
     labels: issue.labels
-      .filter((label): label is { name: string; color: string } => 
-        typeof label === 'object' && label !== null && 'name' in label
+      .filter((label): label is { name: string; color?: string | null } =>
+        typeof label === 'object' && label !== null && typeof label.name === 'string'
       )
       .map(label => ({
         name: label.name,
@@ -111,6 +71,677 @@ export async function getIssue(issueNumber: number): Promise<GitHubIssue> {
   };
 }
 
-export function getRepoInfo() {
-  return getRepoConfig();
+/**
+ * Runs a GitHub issue search, most recently updated first. `query` must
+ * include the `repo:` and `is:issue` qualifiers. GitHub returns at most
+ * 1000 results per query.
+ */
+export async function searchIssues(query: string, page: number, perPage: number): Promise<IssueSearchResult> {
+  const octokit = getOctokit();
+  
+  const response = await octokit.rest.search.issuesAndPullRequests({
+    q: query,
+    sort: 'updated',
+    order: 'desc',
+    page,
+    per_page: perPage,
+  });
+  
+  return {
+    total_count: response.data.total_count,
+    incomplete_results: response.data.incomplete_results,
+    items: response.data.items.map(item => {
+      // https://api.github.com/repos/{owner}/{repo}
+      const [owner, repo] = item.repository_url.split('/').slice(-2);
+      return { ...toGitHubIssue(item), repository: { owner, repo } };
+    }),
+  };
+}
+
+export async function listLabels(repository: RepoRef): Promise<Array<{ name: string; color: string }>> {
+  const octokit = getOctokit();
+  const { owner, repo } = repository;
+  
+  const labels = await octokit.paginate(octokit.rest.issues.listLabelsForRepo, {
+    owner,
+    repo,
+    per_page: 100,
+  });
+  
+  return labels.map(label => ({ name: label.name, color: label.color || 'gray' }));
+}
+
+export async function getIssue(repository: RepoRef, issueNumber: number): Promise<GitHubIssue> {
+  const octokit = getOctokit();
+  const { owner, repo } = repository;
+  
+  const response = await octokit.rest.issues.get({
+    owner,
+    repo,
+    issue_number: issueNumber,
+  });
+  
+  return toGitHubIssue(response.data);
+}
+
+export interface RepoFile {
+  path: string;
+  content: string;
+  /** Blob SHA, which changes whenever the content does */
+  sha: string;
+  html_url: string | null;
+}
+
+/**
+ * Reads a text file from the repository, or returns null if it doesn't exist.
+ */
+export async function getRepoFile(repository: RepoRef, filePath: string, ref?: string): Promise<RepoFile | null> {
+  const octokit = getOctokit();
+  const { owner, repo } = repository;
+  
+  try {
+    const response = await octokit.rest.repos.getContent({
+      owner,
+      repo,
+      path: filePath,
+      ref,
+    });
+    
+    const file = response.data;
+    // Directories come back as arrays, symlinks and submodules without content
+    if (Array.isArray(file) || file.type !== 'file') return null;
+    
+    return {
+      path: file.path,
+      content: Buffer.from(file.content, file.encoding as BufferEncoding).toString('utf8'),
+      sha: file.sha,
+      html_url: file.html_url,
+    };
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+}
+
+export interface IssueComment {
+  id: number;
+  html_url: string;
+  /** True when an existing comment was edited instead of a new one posted */
+  updated: boolean;
+}
+
+/**
+ * Posts a comment on the issue, or edits the one this token already posted
+ * with `marker`. The marker should be an HTML comment so it stays invisible
+ * on GitHub; comments by anyone else that quote it are left alone.
+ */
+export async function upsertIssueComment(
+  repository: RepoRef,
+  issueNumber: number,
+  marker: string,
+  body: string
+): Promise<IssueComment> {
+  const octokit = getOctokit();
+  const { owner, repo } = repository;
+  
+  const [{ data: tokenUser }, comments] = await Promise.all([
+    octokit.rest.users.getAuthenticated(),
+    octokit.paginate(octokit.rest.issues.listComments, {
+      owner,
+      repo,
+      issue_number: issueNumber,
+      per_page: 100,
+    }),
+  ]);
+  
+  const existing = comments.find(comment =>
+    comment.user?.login === tokenUser.login && comment.body?.includes(marker)
+  );
+  const fullBody = `${marker}\n${body}`;
+  
+  if (existing) {
+    const response = await octokit.rest.issues.updateComment({
+      owner,
+      repo,
+      comment_id: existing.id,
+      body: fullBody,
+    });
+    return { id: response.data.id, html_url: response.data.html_url, updated: true };
+  }
+  
+  const response = await octokit.rest.issues.createComment({
+    owner,
+    repo,
+    issue_number: issueNumber,
+    body: fullBody,
+  });
+  return { id: response.data.id, html_url: response.data.html_url, updated: false };
+}
+
+export interface IssueDiscussionComment {
+  id: number;
+  author: string;
+  body: string;
+  created_at: string;
+  html_url: string;
+}
+
+/**
+ * Lists every comment on the issue, oldest first.
+ */
+export async function listIssueComments(repository: RepoRef, issueNumber: number): Promise<IssueDiscussionComment[]> {
+  const octokit = getOctokit();
+  const { owner, repo } = repository;
+  
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner,
+    repo,
+    issue_number: issueNumber,
+    per_page: 100,
+  });
+  
+  return comments.map(comment => ({
+    id: comment.id,
+    author: comment.user?.login ?? 'ghost',
+    body: comment.body ?? '',
+    created_at: comment.created_at,
+    html_url: comment.html_url,
+  }));
+}
+
+export interface LinkedIssue {
+  number: number;
+  title: string;
+  state: string;
+  html_url: string;
+  is_pull_request: boolean;
+  body: string | null;
+}
+
+interface TimelineSourceIssue {
+  number: number;
+  title: string;
+  state: string;
+  html_url: string;
+  body?: string | null;
+  pull_request?: unknown;
+}
+
+/**
+ * Issue numbers in this repository referenced from markdown, either as
+ * `#123` or as a full issue/PR URL.
+ */
+export function parseIssueReferences(repository: RepoRef, text: string): number[] {
+  const { owner, repo } = repository;
+  const numbers = new Set<number>();
+  
+  for (const match of text.matchAll(/(?:^|[^\w/&])#(\d+)\b/g)) {
+    numbers.add(parseInt(match[1], 10));
+  }
+  
+  const urlPattern = /github\.com\/([^/\s]+)\/([^/\s]+)\/(?:issues|pull)\/(\d+)/g;
+  for (const match of text.matchAll(urlPattern)) {
+    if (match[1].toLowerCase() === owner.toLowerCase() && match[2].toLowerCase() === repo.toLowerCase()) {
+      numbers.add(parseInt(match[3], 10));
+    }
+  }
+  
+  return Array.from(numbers);
+}
+
+/**
+ * Issues and PRs linked to an issue: those that mention it (from its
+ * timeline) and those it mentions in `texts` (its body and comments).
+ * References that no longer resolve are skipped.
+ */
+export async function getLinkedIssues(
+  repository: RepoRef,
+  issueNumber: number,
+  texts: string[],
+  limit = 10
+): Promise<LinkedIssue[]> {
+  const octokit = getOctokit();
+  const { owner, repo } = repository;
+  
+  const linked = new Map<string, LinkedIssue>();
+  
+  const events = await octokit.paginate(octokit.rest.issues.listEventsForTimeline, {
+    owner,
+    repo,
+    issue_number: issueNumber,
+    per_page: 100,
+  });
+  
+  for (const event of events) {
+    if (!('event' in event) || event.event !== 'cross-referenced') continue;
+    const source = (event as { source?: { issue?: TimelineSourceIssue } }).source?.issue;
+    if (!source || source.number === issueNumber) continue;
+    linked.set(source.html_url, {
+      number: source.number,
+      title: source.title,
+      state: source.state,
+      html_url: source.html_url,
+      is_pull_request: source.pull_request !== undefined,
+      body: source.body ?? null,
+    });
+  }
+  
+  const referenced = parseIssueReferences(repository, texts.join('\n')).filter(n => n !== issueNumber);
+  for (const number of referenced) {
+    if (linked.size >= limit) break;
+    if (Array.from(linked.values()).some(issue => issue.number === number)) continue;
+    
+    try {
+      const response = await octokit.rest.issues.get({ owner, repo, issue_number: number });
+      const issue = response.data;
+      linked.set(issue.html_url, {
+        number: issue.number,
+        title: issue.title,
+        state: issue.state,
+        html_url: issue.html_url,
+        is_pull_request: issue.pull_request !== undefined,
+        body: issue.body ?? null,
+      });
+    } catch (error) {
+      // `#123` in prose doesn't always point at something real
+      if (!isNotFound(error)) throw error;
+    }
+  }
+  
+  return Array.from(linked.values()).slice(0, limit);
+}
+
+/**
+ * Image URLs embedded in markdown, as `![alt](url)` or `<img src="url">`.
+ */
+export function extractImageUrls(markdown: string): string[] {
+  const urls = new Set<string>();
+  
+  for (const match of markdown.matchAll(/!\[[^\]]*\]\((\S+?)(?:\s+"[^"]*")?\)/g)) {
+    urls.add(match[1]);
+  }
+  for (const match of markdown.matchAll(/<img[^>]+src=["']([^"']+)["']/gi)) {
+    urls.add(match[1]);
+  }
+  
+  return Array.from(urls);
+}
+
+function isNotFound(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { status?: number }).status === 404;
+}
+
+// Labels (as `owner/repo:name`) already known to exist, checked once per process
+const ensuredLabels = new Set<string>();
+
+/**
+ * Creates the label in the repository if it does not exist yet.
+ */
+export async function ensureLabel(
+  repository: RepoRef,
+  name: string,
+  color: string,
+  description?: string
+): Promise<void> {
+  const { owner, repo } = repository;
+  const key = `${owner}/${repo}:${name}`;
+  if (ensuredLabels.has(key)) return;
+  
+  const octokit = getOctokit();
+  
+  try {
+    await octokit.rest.issues.getLabel({ owner, repo, name });
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+    await octokit.rest.issues.createLabel({ owner, repo, name, color, description });
+  }
+  
+  ensuredLabels.add(key);
+}
+
+export async function addIssueLabels(repository: RepoRef, issueNumber: number, labels: string[]): Promise<void> {
+  const octokit = getOctokit();
+  const { owner, repo } = repository;
+  
+  await octokit.rest.issues.addLabels({
+    owner,
+    repo,
+    issue_number: issueNumber,
+    labels,
+  });
+}
+
+export async function removeIssueLabel(repository: RepoRef, issueNumber: number, label: string): Promise<void> {
+  const octokit = getOctokit();
+  const { owner, repo } = repository;
+  
+  try {
+    await octokit.rest.issues.removeLabel({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      name: label,
+    });
+  } catch (error) {
+    // Already gone
+    if (!isNotFound(error)) throw error;
+  }
+}
+
+export interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  state: 'open' | 'closed';
+  merged: boolean;
+  draft: boolean;
+  /** `dirty` means the PR has merge conflicts */
+  mergeable_state: string;
+  head: {
+    ref: string;
+    sha: string;
+  };
+  base: {
+    ref: string;
+  };
+  updated_at: string;
+}
+
+/**
+ * Extracts the PR number from a pull request URL in the configured repository.
+ */
+export function parsePullRequestNumber(repository: RepoRef, url: string): number | null {
+  const { owner, repo } = repository;
+  const match = url.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
+  
+  if (!match || match[1].toLowerCase() !== owner.toLowerCase() || match[2].toLowerCase() !== repo.toLowerCase()) {
+    return null;
+  }
+  
+  return parseInt(match[3], 10);
+}
+
+export async function getPullRequest(repository: RepoRef, pullNumber: number): Promise<GitHubPullRequest> {
+  const octokit = getOctokit();
+  const { owner, repo } = repository;
+  
+  const response = await octokit.rest.pulls.get({
+    owner,
+    repo,
+    pull_number: pullNumber,
+  });
+  
+  const pr = response.data;
+  
+  return {
+    number: pr.number,
+    html_url: pr.html_url,
+    state: pr.state as 'open' | 'closed',
+    merged: pr.merged,
+    draft: pr.draft ?? false,
+    mergeable_state: pr.mergeable_state,
+    head: {
+      ref: pr.head.ref,
+      sha: pr.head.sha,
+    },
+    base: {
+      ref: pr.base.ref,
+    },
+    updated_at: pr.updated_at,
+  };
+}
+
+export type ReviewDecision = 'approved' | 'changes_requested';
+
+/**
+ * Overall review state of a PR, from each reviewer's latest decisive review.
+ * Returns null while nobody has approved or requested changes.
+ */
+export async function getReviewDecision(repository: RepoRef, pullNumber: number): Promise<ReviewDecision | null> {
+  const octokit = getOctokit();
+  const { owner, repo } = repository;
+  
+  const reviews = await octokit.paginate(octokit.rest.pulls.listReviews, {
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: 100,
+  });
+  
+  // Reviews come oldest first; comments alone don't change a reviewer's decision
+  const latestByReviewer = new Map<string, string>();
+  for (const review of reviews) {
+    if (!review.user) continue;
+    if (['APPROVED', 'CHANGES_REQUESTED', 'DISMISSED'].includes(review.state)) {
+      latestByReviewer.set(review.user.login, review.state);
+    }
+  }
+  
+  const decisions = Array.from(latestByReviewer.values());
+  if (decisions.includes('CHANGES_REQUESTED')) return 'changes_requested';
+  if (decisions.includes('APPROVED')) return 'approved';
+  return null;
+}
+
+export interface CheckSummary {
+  status: 'queued' | 'in_progress' | 'completed';
+  /** `failure` if any check failed, otherwise `success` once all are done */
+  conclusion: 'success' | 'failure' | null;
+  total: number;
+  /** Names of the checks that failed */
+  failed: string[];
+}
+
+// A cancelled run was usually superseded by a newer push, so it isn't a failure
+const FAILED_CONCLUSIONS = ['failure', 'timed_out', 'action_required', 'startup_failure'];
+const FAILED_STATES = ['failure', 'error'];
+
+/**
+ * Check runs and commit statuses for a commit; CI can report through either.
+ */
+async function listChecks(repository: RepoRef, ref: string) {
+  const octokit = getOctokit();
+  const { owner, repo } = repository;
+  
+  const [checkRuns, combined] = await Promise.all([
+    octokit.paginate(octokit.rest.checks.listForRef, {
+      owner,
+      repo,
+      ref,
+      per_page: 100,
+    }),
+    octokit.rest.repos.getCombinedStatusForRef({ owner, repo, ref }),
+  ]);
+  
+  return {
+    checkRuns,
+    statuses: combined.data.statuses,
+    failedRuns: checkRuns.filter(run =>
+      run.status === 'completed' && run.conclusion !== null && FAILED_CONCLUSIONS.includes(run.conclusion)
+    ),
+    failedStatuses: combined.data.statuses.filter(status => FAILED_STATES.includes(status.state)),
+  };
+}
+
+/**
+ * Combines check runs and commit statuses for a commit into one CI result.
+ */
+export async function getCheckSummary(repository: RepoRef, ref: string): Promise<CheckSummary> {
+  const { checkRuns, statuses, failedRuns, failedStatuses } = await listChecks(repository, ref);
+  
+  const failed = [...failedRuns.map(run => run.name), ...failedStatuses.map(status => status.context)];
+  const pending =
+    checkRuns.filter(run => run.status !== 'completed').length +
+    statuses.filter(status => status.state === 'pending').length;
+  
+  const total = checkRuns.length + statuses.length;
+  const isDone = pending === 0;
+  
+  return {
+    status: isDone ? 'completed' : total > 0 ? 'in_progress' : 'queued',
+    conclusion: failed.length > 0 ? 'failure' : isDone && total > 0 ? 'success' : null,
+    total,
+    failed,
+  };
+}
+
+export interface FailedCheck {
+  name: string;
+  conclusion: string;
+  html_url: string | null;
+  /** Title and summary the check reported, if any */
+  summary: string;
+  /** Tail of the job log (GitHub Actions only), empty if unavailable */
+  log_excerpt: string;
+}
+
+/**
+ * Lists the failed checks for a commit, the same ones `getCheckSummary`
+ * counts, with a log excerpt for each. Logs are only available for GitHub
+ * Actions jobs; other check runs fall back to the summary they reported, and
+ * commit statuses to their description.
+ */
+export async function getFailedChecks(repository: RepoRef, ref: string, maxLogLines = 50): Promise<FailedCheck[]> {
+  const octokit = getOctokit();
+  const { owner, repo } = repository;
+  
+  const { failedRuns, failedStatuses } = await listChecks(repository, ref);
+  
+  const failed: FailedCheck[] = [];
+  for (const run of failedRuns) {
+    let logExcerpt = '';
+    
+    if (run.app?.slug === 'github-actions') {
+      try {
+        // For Actions, the check run ID is the job ID
+        const response = await octokit.rest.actions.downloadJobLogsForWorkflowRun({
+          owner,
+          repo,
+          job_id: run.id,
+        });
+        logExcerpt = String(response.data).trimEnd().split('\n').slice(-maxLogLines).join('\n');
+      } catch (error) {
+        // Logs expire or may be restricted; the summary is still useful
+        if (!isNotFound(error)) throw error;
+      }
+    }
+    
+    failed.push({
+      name: run.name,
+      conclusion: run.conclusion ?? 'failure',
+      html_url: run.html_url ?? null,
+      summary: [run.output.title, run.output.summary].filter(Boolean).join('\n'),
+      log_excerpt: logExcerpt,
+    });
+  }
+  
+  for (const status of failedStatuses) {
+    failed.push({
+      name: status.context,
+      conclusion: status.state,
+      html_url: status.target_url ?? null,
+      summary: status.description ?? '',
+      log_excerpt: '',
+    });
+  }
+  
+  return failed;
+}
+
+export interface ReviewThread {
+  /** GraphQL node ID of the thread */
+  id: string;
+  path: string;
+  /** Line in the current diff, null when the thread is outdated */
+  line: number | null;
+  is_outdated: boolean;
+  comments: Array<{
+    author: string;
+    body: string;
+    url: string;
+  }>;
+}
+
+interface ReviewThreadsResponse {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        nodes: Array<{
+          id: string;
+          isResolved: boolean;
+          isOutdated: boolean;
+          path: string;
+          line: number | null;
+          comments: {
+            nodes: Array<{ author: { login: string } | null; body: string; url: string }>;
+          };
+        }>;
+      };
+    } | null;
+  };
+}
+
+const REVIEW_THREADS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            id
+            isResolved
+            isOutdated
+            path
+            line
+            comments(first: 50) {
+              nodes { author { login } body url }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Lists the review threads on a PR that nobody has resolved yet.
+ * Resolution is only exposed through GraphQL, hence the query.
+ */
+export async function getUnresolvedReviewThreads(repository: RepoRef, pullNumber: number): Promise<ReviewThread[]> {
+  const octokit = getOctokit();
+  const { owner, repo } = repository;
+  
+  const threads: ReviewThread[] = [];
+  let cursor: string | null = null;
+  
+  do {
+    const response: ReviewThreadsResponse = await octokit.graphql(REVIEW_THREADS_QUERY, {
+      owner,
+      repo,
+      number: pullNumber,
+      cursor,
+    });
+    
+    const reviewThreads = response.repository.pullRequest?.reviewThreads;
+    if (!reviewThreads) break;
+    
+    for (const thread of reviewThreads.nodes) {
+      if (thread.isResolved) continue;
+      threads.push({
+        id: thread.id,
+        path: thread.path,
+        line: thread.line,
+        is_outdated: thread.isOutdated,
+        comments: thread.comments.nodes.map(comment => ({
+          author: comment.author?.login ?? 'ghost',
+          body: comment.body,
+          url: comment.url,
+        })),
+      });
+    }
+    
+    cursor = reviewThreads.pageInfo.hasNextPage ? reviewThreads.pageInfo.endCursor : null;
+  } while (cursor);
+  
+  return threads;
 }
@@ -0,0 +1,86 @@
+/**
+ * GitHub OAuth
+ *
+ * Sign-in with GitHub through an OAuth app (GITHUB_CLIENT_ID and
+ * GITHUB_CLIENT_SECRET). The only thing taken from GitHub is the account's
+ * login; what it may do comes from the users config. GITHUB_OAUTH_URL and
+ * GITHUB_OAUTH_API_URL point sign-in at another server, such as the local
+ * stub in `scripts/oauth-stub.mjs`.
+ */
+
+// Stored in a cookie while the user is away at GitHub
+export const OAUTH_STATE_COOKIE = 'devin_oauth_state';
+
+function getOAuthUrl(): string {
+  return (process.env.GITHUB_OAUTH_URL || 'https://github.com').replace(/\/$/, '');
+}
+
+function getApiUrl(): string {
+  return (process.env.GITHUB_OAUTH_API_URL || 'https://api.github.com').replace(/\/$/, '');
+}
+
+function getCredentials(): { clientId: string; clientSecret: string } {
+  const clientId = process.env.GITHUB_CLIENT_ID;
+  const clientSecret = process.env.GITHUB_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error('GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET environment variables are required for GitHub sign-in');
+  }
+  return { clientId, clientSecret };
+}
+
+export function isGitHubOAuthConfigured(): boolean {
+  return Boolean(process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET);
+}
+
+export function getAuthorizeUrl(state: string, redirectUri: string): string {
+  const { clientId } = getCredentials();
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    state,
+    // No scopes: only the public profile is needed
+    scope: '',
+    allow_signup: 'false',
+  });
+  return `${getOAuthUrl()}/login/oauth/authorize?${params}`;
+}
+
+/**
+ * Trades the code GitHub redirected back with for the login of the account
+ * that approved it.
+ */
+export async function getGitHubLogin(code: string, redirectUri: string): Promise<string> {
+  const { clientId, clientSecret } = getCredentials();
+
+  const tokenResponse = await fetch(`${getOAuthUrl()}/login/oauth/access_token`, {
+    method: 'POST',
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      client_id: clientId,
+      client_secret: clientSecret,
+      code,
+      redirect_uri: redirectUri,
+    }),
+  });
+
+  const token = await tokenResponse.json().catch(() => ({}));
+  if (!tokenResponse.ok || !token.access_token) {
+    throw new Error(`GitHub OAuth error: ${token.error_description || token.error || tokenResponse.status}`);
+  }
+
+  const userResponse = await fetch(`${getApiUrl()}/user`, {
+    headers: {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${token.access_token}`,
+    },
+  });
+
+  const user = await userResponse.json().catch(() => ({}));
+  if (!userResponse.ok || typeof user.login !== 'string') {
+    throw new Error(`GitHub OAuth error: could not read the signed-in user (${userResponse.status})`);
+  }
+  return user.login;
+}
@@ -0,0 +1,107 @@
+import {
+  extractImageUrls,
+  getLinkedIssues,
+  listIssueComments,
+  type GitHubIssue,
+  type IssueDiscussionComment,
+  type LinkedIssue,
+} from './github';
+import { SCOPE_COMMENT_MARKER } from './scopeComment';
+import type { RepoRef } from './repoConfig';
+
+/**
+ * Issue Context
+ *
+ * Gathers what the scope prompt needs beyond the issue itself: the comment
+ * discussion (often where the real repro is), linked issues and PRs, and
+ * image attachments. Everything is capped so a long thread can't crowd out
+ * the instructions; anything cut is marked in the prompt.
+ */
+
+// Character budgets, roughly 4 characters per token
+const CONTEXT_LIMITS = {
+  body: 8000,
+  comment: 2000,
+  /** All comments combined; the newest are kept */
+  comments: 16000,
+  linkedIssues: 10,
+  linkedBody: 500,
+  images: 10,
+};
+
+export interface IssueContext {
+  comments: IssueDiscussionComment[];
+  linked: LinkedIssue[];
+  imageUrls: string[];
+}
+
+export function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars).trimEnd()}\n\n[… truncated ${text.length - maxChars} characters]`;
+}
+
+export async function loadIssueContext(repository: RepoRef, issue: GitHubIssue): Promise<IssueContext> {
+  // Our own scope results would only echo an earlier attempt back
+  const comments = (await listIssueComments(repository, issue.number))
+    .filter(comment => !comment.body.includes(SCOPE_COMMENT_MARKER));
+
+  const texts = [issue.body ?? '', ...comments.map(comment => comment.body)];
+  const linked = await getLinkedIssues(repository, issue.number, texts, CONTEXT_LIMITS.linkedIssues);
+  const imageUrls = Array.from(new Set(texts.flatMap(extractImageUrls)));
+
+  return { comments, linked, imageUrls };
+}
+
+function formatComments(comments: IssueDiscussionComment[]): string {
+  if (comments.length === 0) return 'No comments.';
+
+  // Walk back from the newest comment until the budget runs out
+  const kept: string[] = [];
+  let used = 0;
+  for (const comment of [...comments].reverse()) {
+    const entry = `**@${comment.author}** (${comment.created_at.slice(0, 10)}):\n${truncate(comment.body, CONTEXT_LIMITS.comment)}`;
+    if (kept.length > 0 && used + entry.length > CONTEXT_LIMITS.comments) break;
+    kept.unshift(entry);
+    used += entry.length;
+  }
+
+  const omitted = comments.length - kept.length;
+  const header = omitted > 0 ? [`[… ${omitted} earlier comment(s) omitted]`] : [];
+  return [...header, ...kept].join('\n\n---\n\n');
+}
+
+function formatLinked(linked: LinkedIssue[]): string {
+  if (linked.length === 0) return 'None found.';
+
+  return linked.map(item => {
+    const kind = item.is_pull_request ? 'PR' : 'Issue';
+    const summary = item.body?.trim() ? `\n  > ${truncate(item.body.trim(), CONTEXT_LIMITS.linkedBody).replace(/\n/g, '\n  > ')}` : '';
+    return `- ${kind} #${item.number} (${item.state}): ${item.title} - ${item.html_url}${summary}`;
+  }).join('\n');
+}
+
+function formatImages(imageUrls: string[]): string {
+  if (imageUrls.length === 0) return 'None.';
+
+  const shown = imageUrls.slice(0, CONTEXT_LIMITS.images).map(url => `- ${url}`);
+  const omitted = imageUrls.length - shown.length;
+  if (omitted > 0) shown.push(`- [… ${omitted} more image(s) omitted]`);
+  return shown.join('\n');
+}
+
+/**
+ * Renders the context as prompt sections, starting at the issue description.
+ */
+export function formatIssueContext(issue: GitHubIssue, context: IssueContext): string {
+  return `**Description:**
+${truncate(issue.body || 'No description provided.', CONTEXT_LIMITS.body)}
+
+### Comments (${context.comments.length})
+${formatComments(context.comments)}
+
+### Linked Issues & Pull Requests
+${formatLinked(context.linked)}
+
+### Attached Images
+${formatImages(context.imageUrls)}`;
+}
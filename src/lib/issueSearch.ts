@@ -0,0 +1,176 @@
+import { searchIssues, type GitHubIssue, type IssueState } from './github';
+import { isSameRepo, toFullName, type RepoRef } from './repoConfig';
+import { applyStoredIssueState } from './issueStore';
+
+/**
+ * Issue Search
+ *
+ * Builds the dashboard's issue list from the GitHub search API, so filters
+ * apply to every issue in the configured repositories rather than to the
+ * page that happens to be loaded. Several repositories are searched in one
+ * query, which keeps the aggregated view paged like a single repository.
+ * Issues a webhook has reported on since the index was updated show the
+ * webhook's state.
+ */
+
+export interface IssueFilters {
+  state: IssueState;
+  /** Free text, matched against titles, bodies and comments */
+  text?: string;
+  /** All of these labels */
+  labels: string[];
+  /** Login, or `none` for unassigned issues */
+  assignee?: string;
+  /** Milestone title, or `none` for issues without one */
+  milestone?: string;
+  /** Login of whoever opened the issue */
+  author?: string;
+}
+
+export interface Pagination {
+  page: number;
+  perPage: number;
+}
+
+export interface IssueSummary extends GitHubIssue {
+  /** `owner/repo` */
+  repository: string;
+  body_snippet: string | null;
+}
+
+export interface IssuePage {
+  issues: IssueSummary[];
+  page: number;
+  per_page: number;
+  total_count: number;
+  has_more: boolean;
+  /** GitHub timed out before finding every match */
+  incomplete_results: boolean;
+}
+
+const VALID_STATES: IssueState[] = ['open', 'closed', 'all'];
+
+const DEFAULT_PER_PAGE = 30;
+const MAX_PER_PAGE = 100;
+// The search API stops at 1000 results
+const MAX_RESULTS = 1000;
+
+// Qualifiers that would widen the search beyond the configured repositories
+const SCOPE_QUALIFIER = /^-?(repo|org|user|is|type):/i;
+
+function optional(value: string | null): string | undefined {
+  return value?.trim() || undefined;
+}
+
+/**
+ * Reads filters from `state`, `q`, `label` (repeatable or comma-separated),
+ * `assignee`, `milestone` and `author` query parameters.
+ */
+export function parseIssueFilters(params: URLSearchParams): IssueFilters {
+  const stateParam = params.get('state');
+
+  return {
+    state: stateParam && VALID_STATES.includes(stateParam as IssueState)
+      ? (stateParam as IssueState)
+      : 'open',
+    text: optional(params.get('q')),
+    labels: params.getAll('label')
+      .flatMap(value => value.split(','))
+      .map(label => label.trim())
+      .filter(Boolean),
+    assignee: optional(params.get('assignee')),
+    milestone: optional(params.get('milestone')),
+    author: optional(params.get('author')),
+  };
+}
+
+/**
+ * Reads `page` (1-based) and `per_page`, clamped to what GitHub allows.
+ */
+export function parsePagination(params: URLSearchParams): Pagination {
+  const page = parseInt(params.get('page') || '', 10);
+  const perPage = parseInt(params.get('per_page') || '', 10);
+
+  return {
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    perPage: Number.isInteger(perPage) && perPage > 0 ? Math.min(perPage, MAX_PER_PAGE) : DEFAULT_PER_PAGE,
+  };
+}
+
+function qualifier(name: string, value: string): string {
+  // Quotes can't be escaped in search queries, so drop them
+  const cleaned = value.replace(/"/g, '');
+  return /\s/.test(cleaned) ? `${name}:"${cleaned}"` : `${name}:${cleaned}`;
+}
+
+/**
+ * The search query for the filters, limited to the given repositories.
+ */
+export function buildSearchQuery(repositories: RepoRef[], filters: IssueFilters): string {
+  const terms = repositories.map(repository => `repo:${toFullName(repository)}`);
+  terms.push('is:issue');
+
+  if (filters.state !== 'all') terms.push(`is:${filters.state}`);
+  for (const label of filters.labels) terms.push(qualifier('label', label));
+
+  if (filters.assignee === 'none') terms.push('no:assignee');
+  else if (filters.assignee) terms.push(qualifier('assignee', filters.assignee.replace(/^@(?!me$)/, '')));
+
+  if (filters.milestone === 'none') terms.push('no:milestone');
+  else if (filters.milestone) terms.push(qualifier('milestone', filters.milestone));
+
+  if (filters.author) terms.push(qualifier('author', filters.author.replace(/^@(?!me$)/, '')));
+
+  if (filters.text) {
+    const words = filters.text
+      .split(/\s+/)
+      .filter(word => !SCOPE_QUALIFIER.test(word))
+      // "#123" finds the issue by number
+      .map(word => word.replace(/^#(\d+)$/, '$1'));
+    terms.push(...words);
+  }
+
+  return terms.join(' ');
+}
+
+/**
+ * One page of issues matching the filters across the given repositories.
+ */
+export async function listIssuePage(
+  repositories: RepoRef[],
+  filters: IssueFilters,
+  pagination: Pagination
+): Promise<IssuePage> {
+  const { page, perPage } = pagination;
+  const empty = { issues: [], page, per_page: perPage, total_count: 0, has_more: false, incomplete_results: false };
+
+  if (repositories.length === 0 || (page - 1) * perPage >= MAX_RESULTS) {
+    return empty;
+  }
+
+  const result = await searchIssues(buildSearchQuery(repositories, filters), page, perPage);
+  const reachable = Math.min(result.total_count, MAX_RESULTS);
+
+  const issues: IssueSummary[] = result.items.flatMap(({ repository, ...issue }) => {
+    // Never list issues from repositories that aren't configured
+    const configured = repositories.find(r => isSameRepo(r, repository));
+    if (!configured) return [];
+
+    return [{
+      ...issue,
+      repository: toFullName(configured),
+      body_snippet: issue.body
+        ? issue.body.substring(0, 200) + (issue.body.length > 200 ? '...' : '')
+        : null,
+    }];
+  });
+
+  return {
+    issues: await applyStoredIssueState(issues),
+    page,
+    per_page: perPage,
+    total_count: result.total_count,
+    has_more: page * perPage < reachable,
+    incomplete_results: result.incomplete_results,
+  };
+}
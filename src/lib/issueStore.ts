@@ -0,0 +1,58 @@
+import { readStore, updateStore } from './store';
+
+/**
+ * Last known state of a GitHub issue, as reported by webhooks.
+ */
+export interface IssueRecord {
+  /** Repository the issue belongs to, as `owner/repo` */
+  repository: string;
+  number: number;
+  title: string;
+  state: string;
+  labels: Array<{
+    name: string;
+    color: string;
+  }>;
+  author: string | null;
+  updated_at: string;
+  comments_count?: number;
+  last_comment_at?: string;
+}
+
+export async function upsertIssueRecord(record: IssueRecord): Promise<IssueRecord> {
+  return updateStore(data => {
+    const existing = data.issues.findIndex(i => i.repository === record.repository && i.number === record.number);
+    if (existing >= 0) {
+      data.issues[existing] = { ...data.issues[existing], ...record };
+      return data.issues[existing];
+    }
+    data.issues.push(record);
+    return record;
+  });
+}
+
+type IssueFields = Pick<IssueRecord, 'repository' | 'number' | 'title' | 'state' | 'labels' | 'updated_at'>;
+
+/**
+ * Overlays webhook-reported state on issues read from GitHub. The search
+ * index can lag behind the webhook by a minute or more, so whichever was
+ * updated last wins.
+ */
+export async function applyStoredIssueState<T extends IssueFields>(issues: T[]): Promise<T[]> {
+  if (issues.length === 0) return issues;
+
+  const data = await readStore();
+  return issues.map(issue => {
+    const record = data.issues.find(i => i.repository === issue.repository && i.number === issue.number);
+    if (!record || Date.parse(record.updated_at) <= Date.parse(issue.updated_at)) {
+      return issue;
+    }
+    return {
+      ...issue,
+      title: record.title,
+      state: record.state,
+      labels: record.labels,
+      updated_at: record.updated_at,
+    };
+  });
+}
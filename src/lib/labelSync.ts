@@ -0,0 +1,136 @@
+import { addIssueLabels, ensureLabel, getIssue, removeIssueLabel } from './github';
+import type { DevinSession } from './devin';
+import { loadAutomationConfig } from './automationConfig';
+import { getRepoByFullName } from './repoConfig';
+import { AUTOMATION_ACTOR, recordAudit } from './auditLog';
+import { listSessionsForIssue, type SessionRecord } from './sessionStore';
+import {
+  deriveWorkflowStatus,
+  getWorkflowKindColor,
+  type WorkflowKind,
+  type WorkflowStatus,
+} from './workflowStatus';
+
+/**
+ * Label Sync
+ *
+ * Mirrors each issue's position in the pipeline onto GitHub as a `devin:*`
+ * label, so the repository shows where an issue is without the dashboard.
+ * An issue carries at most one pipeline label, derived from its latest session.
+ */
+
+interface PipelineLabel {
+  name: string;
+  kind: WorkflowKind;
+  description: string;
+}
+
+const PIPELINE_LABELS = {
+  scoping: { name: 'devin:scoping', kind: 'active', description: 'Devin is scoping this issue' },
+  scoped: { name: 'devin:scoped', kind: 'success', description: 'Devin has scoped this issue' },
+  executing: { name: 'devin:executing', kind: 'active', description: 'Devin is implementing this issue' },
+  prOpen: { name: 'devin:pr-open', kind: 'success', description: 'Devin has opened a pull request' },
+  needsInput: { name: 'devin:needs-input', kind: 'warning', description: 'Devin is waiting for human input' },
+  awaitingApproval: { name: 'devin:awaiting-approval', kind: 'warning', description: 'The scope needs a second person to approve it' },
+} satisfies Record<string, PipelineLabel>;
+
+const PIPELINE_LABEL_NAMES: string[] = Object.values(PIPELINE_LABELS).map(label => label.name);
+
+function getPipelineLabel(
+  type: 'scope' | 'execute',
+  status: WorkflowStatus,
+  isFollowingPullRequest: boolean,
+  isAwaitingApproval: boolean
+): PipelineLabel | null {
+  if (isAwaitingApproval) {
+    return PIPELINE_LABELS.awaitingApproval;
+  }
+
+  // An open PR keeps its label through CI and review, even while it waits on
+  // its author for changes or a rebase; merged or closed ends the pipeline
+  if (isFollowingPullRequest) {
+    return status.isTerminal ? null : PIPELINE_LABELS.prOpen;
+  }
+
+  // Only a session Devin has blocked on a person
+  if (status.kind === 'warning') {
+    return PIPELINE_LABELS.needsInput;
+  }
+
+  if (status.kind === 'pending' || status.kind === 'active') {
+    return type === 'scope' ? PIPELINE_LABELS.scoping : PIPELINE_LABELS.executing;
+  }
+
+  if (status.kind === 'success' && type === 'scope') {
+    return PIPELINE_LABELS.scoped;
+  }
+
+  // Failed, cancelled, or finished without a PR: the issue is out of the pipeline
+  return null;
+}
+
+/**
+ * The parts of a session its label depends on: the session fresh from Devin,
+ * or, for a session Devin is done with, what the store last saw of it.
+ */
+export type LabelSessionState = Pick<DevinSession, 'structured_output' | 'pull_request'> & {
+  status_enum: string;
+};
+
+/**
+ * Brings the issue's pipeline label in line with the session's current status.
+ * Only the issue's latest session drives its label.
+ */
+export async function syncIssueLabels(record: SessionRecord, session: LabelSessionState): Promise<void> {
+  const config = (await loadAutomationConfig()).labelSync;
+  if (!config.enabled) return;
+
+  const repository = await getRepoByFullName(record.repository);
+  const sessions = await listSessionsForIssue(repository, record.issue_number);
+  if (sessions[sessions.length - 1]?.session_id !== record.session_id) return;
+
+  const status = deriveWorkflowStatus(
+    record.type,
+    session.status_enum,
+    session.structured_output,
+    session.pull_request?.url,
+    record.pull_request,
+    record.approval
+  );
+  // Once Devin finishes, an execute session's status follows its PR
+  const isFollowingPullRequest =
+    record.type === 'execute' && session.status_enum === 'finished' && Boolean(session.pull_request?.url);
+  // Approval only comes into play once scoping is done
+  const isAwaitingApproval = record.approval?.state === 'requested' && status.isTerminal;
+  const desired = getPipelineLabel(record.type, status, isFollowingPullRequest, isAwaitingApproval);
+
+  const issue = await getIssue(repository, record.issue_number);
+  const current = issue.labels.map(label => label.name);
+
+  for (const name of current.filter(n => PIPELINE_LABEL_NAMES.includes(n) && n !== desired?.name)) {
+    await removeIssueLabel(repository, record.issue_number, name);
+    await recordAudit({
+      actor: AUTOMATION_ACTOR,
+      action: 'github.label.removed',
+      repository: record.repository,
+      issue_number: record.issue_number,
+      session_id: record.session_id,
+      summary: `Removed label ${name} from #${record.issue_number}`,
+      details: { label: name },
+    });
+  }
+
+  if (desired && !current.includes(desired.name)) {
+    await ensureLabel(repository, desired.name, getWorkflowKindColor(desired.kind), desired.description);
+    await addIssueLabels(repository, record.issue_number, [desired.name]);
+    await recordAudit({
+      actor: AUTOMATION_ACTOR,
+      action: 'github.label.added',
+      repository: record.repository,
+      issue_number: record.issue_number,
+      session_id: record.session_id,
+      summary: `Added label ${desired.name} to #${record.issue_number}`,
+      details: { label: desired.name, status },
+    });
+  }
+}
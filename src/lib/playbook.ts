@@ -0,0 +1,93 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getRepoFile } from './github';
+import { truncate } from './issueContext';
+import type { RepoConfig } from './repoConfig';
+
+/**
+ * Repository Playbook
+ *
+ * Conventions Devin should follow in the target repository (test commands,
+ * lint rules, branch naming, PR template), appended to every session prompt.
+ * Read from `.devin/playbook.md` on the repository's base branch, unless a
+ * local override exists at the repository's `playbookPath`. The repository
+ * configured through the environment uses `config/playbook.md` (or
+ * DEVIN_PLAYBOOK_PATH) as its override.
+ */
+
+export interface Playbook {
+  source: 'repo' | 'local';
+  path: string;
+  /** Blob SHA for repo playbooks, content hash for local ones */
+  revision: string;
+  content: string;
+}
+
+/** What a session records about the playbook it was started with */
+export type PlaybookRef = Omit<Playbook, 'content'>;
+
+const DEFAULT_REPO_PATH = '.devin/playbook.md';
+
+// Long enough for a real playbook, short enough not to crowd out the task
+const MAX_PLAYBOOK_CHARS = 12000;
+
+async function loadLocalPlaybook(localPath: string): Promise<Playbook | null> {
+  try {
+    const content = await fs.readFile(path.resolve(process.cwd(), localPath), 'utf8');
+    return {
+      source: 'local',
+      path: localPath,
+      revision: createHash('sha1').update(content).digest('hex'),
+      content,
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * The playbook new sessions in a repository use, or null if it has none.
+ */
+export async function loadPlaybook(repository: RepoConfig): Promise<Playbook | null> {
+  if (repository.playbookPath) {
+    const local = await loadLocalPlaybook(repository.playbookPath);
+    if (local) return local;
+  }
+
+  const file = await getRepoFile(
+    repository,
+    process.env.DEVIN_PLAYBOOK_REPO_PATH || DEFAULT_REPO_PATH,
+    repository.baseBranch
+  );
+  if (!file) return null;
+
+  return {
+    source: 'repo',
+    path: file.path,
+    revision: file.sha,
+    content: file.content,
+  };
+}
+
+export function toPlaybookRef(playbook: Playbook | null): PlaybookRef | undefined {
+  if (!playbook) return undefined;
+  return { source: playbook.source, path: playbook.path, revision: playbook.revision };
+}
+
+/**
+ * Appends the playbook to a rendered prompt. Prompts are returned unchanged
+ * when there is no playbook or it is empty.
+ */
+export function appendPlaybook(prompt: string, playbook: Playbook | null): string {
+  if (!playbook?.content.trim()) return prompt;
+
+  return `${prompt}
+
+## Repository Playbook
+
+The maintainers of this repository ask that all work follows these conventions (from \`${playbook.path}\`). Where they conflict with the instructions above, the structured output requirements still apply.
+
+${truncate(playbook.content.trim(), MAX_PLAYBOOK_CHARS)}`;
+}
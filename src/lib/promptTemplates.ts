@@ -0,0 +1,377 @@
+import { readStore, updateStore } from './store';
+import type { GitHubIssue } from './github';
+import type { RepoConfig } from './repoConfig';
+import { listSessions } from './sessionStore';
+
+/**
+ * Prompt Templates
+ *
+ * The scope and execute prompts, and those of the CI fix and review response
+ * follow-ups, are templates that can be edited from the admin page without a
+ * redeploy. Every save adds a new version to the store;
+ * the built-in text is version 1. Sessions record the version they were
+ * started with so outcomes can be compared across prompt changes.
+ *
+ * Syntax: `{{name}}` inserts a variable, and `{{#name}}...{{/name}}` keeps
+ * the enclosed text only when the variable is non-empty.
+ */
+
+export type PromptTemplateName = 'scope' | 'execute' | 'ci-fix' | 'review-response';
+
+export const PROMPT_TEMPLATE_NAMES: PromptTemplateName[] = ['scope', 'execute', 'ci-fix', 'review-response'];
+
+export interface PromptTemplateVersion {
+  name: PromptTemplateName;
+  version: number;
+  body: string;
+  /** What changed, as entered by whoever saved it */
+  note?: string;
+  /** Unset for the built-in version */
+  created_at?: string;
+}
+
+/** Which template and version a session's prompt was rendered from */
+export interface PromptTemplateRef {
+  name: PromptTemplateName;
+  version: number;
+}
+
+const COMMON_VARIABLES: Record<string, string> = {
+  owner: 'Repository owner',
+  repo: 'Repository name',
+  baseBranch: 'Branch PRs are opened against',
+  'issue.number': 'Issue number',
+  'issue.title': 'Issue title',
+  'issue.url': 'Issue URL on GitHub',
+  'issue.body': 'Issue description',
+  outputSchema: 'Example structured output JSON',
+};
+
+const PULL_REQUEST_VARIABLES: Record<string, string> = {
+  'pullRequest.url': 'Pull request the follow-up pushes to',
+  'pullRequest.branch': 'Branch of the pull request',
+};
+
+export const TEMPLATE_VARIABLES: Record<PromptTemplateName, Record<string, string>> = {
+  scope: {
+    ...COMMON_VARIABLES,
+    'issue.context': 'Description, comments, linked issues/PRs and images, size-limited',
+  },
+  execute: {
+    ...COMMON_VARIABLES,
+    actionPlan: 'Numbered action plan from the scope session',
+    clarifications: 'Extra constraints entered before executing (may be empty)',
+  },
+  'ci-fix': {
+    ...COMMON_VARIABLES,
+    ...PULL_REQUEST_VARIABLES,
+    failures: 'Failed checks, with their summaries and log tails',
+  },
+  'review-response': {
+    ...COMMON_VARIABLES,
+    ...PULL_REQUEST_VARIABLES,
+    threads: 'Unresolved review threads, with their comments and thread IDs',
+  },
+};
+
+const DEFAULT_SCOPE_TEMPLATE = `# Task: Scope GitHub Issue #{{issue.number}}
+
+## Issue Details
+**Repository:** {{owner}}/{{repo}}
+**Title:** {{issue.title}}
+**URL:** {{issue.url}}
+
+{{issue.context}}
+
+## Your Task
+
+You are an expert software engineer. Analyze this GitHub issue and produce a comprehensive scope assessment.
+
+1. **Read and understand the issue thoroughly**, including the comments, linked issues and PRs, and images above
+2. **Summarize root cause hypotheses** if it's a bug, or implementation approaches if it's a feature
+3. **Assess the confidence level** (0-100) based on:
+   - Clarity of requirements
+   - Availability of reproduction steps
+   - Existing test coverage
+   - Complexity of the codebase area involved
+4. **Identify assumptions you're making**
+5. **List unknowns** that need clarification
+6. **Identify potential risks**
+7. **Create a step-by-step action plan**
+
+## IMPORTANT: Structured Output
+
+You MUST update the structured_output field with the following JSON schema. Update it as your analysis progresses.
+
+\`\`\`json
+{{outputSchema}}
+\`\`\`
+
+**Guidelines:**
+- Set \`issue_number\` to {{issue.number}}
+- Set \`title\` to the issue title
+- \`confidence_score\` should be 0-100 based on clarity and feasibility
+- \`confidence_rationale\` should explain your score
+- Include at least 1-3 items in \`assumptions\`, \`unknowns\`, and \`risks\`
+- \`action_plan\` should have 2-5 concrete steps
+- Set \`ready_to_execute\` to true when you have a complete plan
+
+Keep updating structured_output as your understanding evolves.`;
+
+const DEFAULT_EXECUTE_TEMPLATE = `# Task: Execute Action Plan for GitHub Issue #{{issue.number}}
+
+## Issue Details
+**Repository:** {{owner}}/{{repo}}
+**Title:** {{issue.title}}
+**URL:** {{issue.url}}
+
+**Description:**
+{{issue.body}}
+
+## Action Plan from Scoping Session
+
+{{actionPlan}}
+{{#clarifications}}
+## Additional Constraints/Clarifications
+
+{{clarifications}}
+{{/clarifications}}
+## Your Task
+
+You are an expert software engineer. Execute the action plan above to resolve this GitHub issue.
+
+### Instructions:
+
+1. **Clone the repository** if needed: \`git clone https://github.com/{{owner}}/{{repo}}.git\`
+2. **Authenticate to GitHub** using the secret GITHUB_TOKEN provided to this session
+3. **Create a feature branch** from \`{{baseBranch}}\`
+4. **Implement the changes** following the action plan
+5. **Keep changes small and focused** - one logical change at a time
+6. **Add or update tests** as appropriate
+7. **Update documentation** if necessary
+8. **Create a Pull Request** against \`{{baseBranch}}\`
+
+### PR Guidelines:
+- Use a clear, descriptive title referencing issue #{{issue.number}}
+- Include a summary of changes in the PR description
+- Link to the issue using "Fixes #{{issue.number}}" or "Closes #{{issue.number}}"
+
+## IMPORTANT: Structured Output
+
+You MUST update the structured_output field with progress. Update it frequently as you work.
+
+\`\`\`json
+{{outputSchema}}
+\`\`\`
+
+**Status values:**
+- \`pending\` - Not started yet
+- \`in_progress\` - Actively working
+- \`completed\` - Successfully finished
+- \`blocked\` - Need human input or hit an issue
+- \`failed\` - Unable to complete
+
+Name \`completed_tasks\`, \`current_task\` and \`next_task\` after the action plan steps (e.g. "Step 2: Implement fix") so progress can be tracked against the plan.
+
+Update structured_output after each major step.`;
+
+const DEFAULT_CI_FIX_TEMPLATE = `# Task: Fix Failing CI for GitHub Issue #{{issue.number}}
+
+## Context
+**Repository:** {{owner}}/{{repo}}
+**Issue:** {{issue.title}} ({{issue.url}})
+**Pull Request:** {{pullRequest.url}}
+**Branch:** \`{{pullRequest.branch}}\`
+
+A previous Devin session opened this pull request to resolve the issue. Its checks are failing.
+
+## Failed Checks
+
+{{failures}}
+
+## Your Task
+
+1. **Clone the repository** and check out the existing branch \`{{pullRequest.branch}}\`
+2. **Authenticate to GitHub** using the secret GITHUB_TOKEN provided to this session
+3. **Reproduce the failures** locally where possible
+4. **Fix the cause** - do not disable or skip the failing checks
+5. **Push to \`{{pullRequest.branch}}\`** so the existing pull request updates. Do NOT open a new pull request.
+
+## IMPORTANT: Structured Output
+
+You MUST update the structured_output field with progress. Update it frequently as you work.
+
+\`\`\`json
+{{outputSchema}}
+\`\`\`
+
+Use one \`completed_tasks\` entry per failed check you fixed, named after the check.`;
+
+const DEFAULT_REVIEW_RESPONSE_TEMPLATE = `# Task: Address Review Comments for GitHub Issue #{{issue.number}}
+
+## Context
+**Repository:** {{owner}}/{{repo}}
+**Issue:** {{issue.title}} ({{issue.url}})
+**Pull Request:** {{pullRequest.url}}
+**Branch:** \`{{pullRequest.branch}}\`
+
+A previous Devin session opened this pull request to resolve the issue. Reviewers left the unresolved comments below.
+
+## Unresolved Review Comments
+
+{{threads}}
+
+## Your Task
+
+1. **Clone the repository** and check out the existing branch \`{{pullRequest.branch}}\`
+2. **Authenticate to GitHub** using the secret GITHUB_TOKEN provided to this session
+3. **Work through every thread** - make the requested change, or decline it with a reason if it would be wrong for the issue
+4. **Run the tests** affected by your changes
+5. **Push to \`{{pullRequest.branch}}\`** so the existing pull request updates. Do NOT open a new pull request.
+6. **Reply on each thread** summarizing what you did. Do not resolve threads yourself; reviewers will.
+
+## IMPORTANT: Structured Output
+
+You MUST update the structured_output field with progress. Update it frequently as you work.
+
+\`\`\`json
+{{outputSchema}}
+\`\`\`
+
+Add one \`review_comments\` entry per thread above, using its thread ID. \`resolution\` is one of \`pending\`, \`fixed\`, \`declined\` or \`needs_discussion\`; explain it in \`note\`.`;
+
+const BUILT_IN_TEMPLATES: Record<PromptTemplateName, PromptTemplateVersion> = {
+  scope: { name: 'scope', version: 1, body: DEFAULT_SCOPE_TEMPLATE, note: 'Built-in' },
+  execute: { name: 'execute', version: 1, body: DEFAULT_EXECUTE_TEMPLATE, note: 'Built-in' },
+  'ci-fix': { name: 'ci-fix', version: 1, body: DEFAULT_CI_FIX_TEMPLATE, note: 'Built-in' },
+  'review-response': { name: 'review-response', version: 1, body: DEFAULT_REVIEW_RESPONSE_TEMPLATE, note: 'Built-in' },
+};
+
+export function isPromptTemplateName(name: string): name is PromptTemplateName {
+  return (PROMPT_TEMPLATE_NAMES as string[]).includes(name);
+}
+
+const SECTION_PATTERN = /\{\{#([\w.]+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*([#/]?)([\w.]+)\s*\}\}/g;
+
+/**
+ * Variables every template gets for an issue.
+ */
+export function getIssueVariables(repository: RepoConfig, issue: GitHubIssue): Record<string, string> {
+  return {
+    owner: repository.owner,
+    repo: repository.repo,
+    baseBranch: repository.baseBranch,
+    'issue.number': String(issue.number),
+    'issue.title': issue.title,
+    'issue.url': issue.html_url,
+    'issue.body': issue.body || 'No description provided.',
+  };
+}
+
+/**
+ * Variables used by a template body that the template doesn't provide.
+ */
+export function findUnknownVariables(name: PromptTemplateName, body: string): string[] {
+  const known = TEMPLATE_VARIABLES[name];
+  const unknown = new Set<string>();
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    if (!(match[2] in known)) unknown.add(match[2]);
+  }
+  return Array.from(unknown);
+}
+
+export function renderTemplate(body: string, variables: Record<string, string>): string {
+  return body
+    .replace(SECTION_PATTERN, (_, name: string, inner: string) =>
+      variables[name]?.trim() ? inner : ''
+    )
+    .replace(VARIABLE_PATTERN, (placeholder, marker: string, name: string) =>
+      // Stray section markers and unknown names are left for the reader to spot
+      !marker && name in variables ? variables[name] : placeholder
+    );
+}
+
+/**
+ * Every version of a template, newest first. The built-in one is last.
+ */
+export async function listTemplateVersions(name: PromptTemplateName): Promise<PromptTemplateVersion[]> {
+  const data = await readStore();
+  const saved = data.templates
+    .filter(t => t.name === name)
+    .sort((a, b) => b.version - a.version);
+  return [...saved, BUILT_IN_TEMPLATES[name]];
+}
+
+/**
+ * The version new sessions use: the latest saved one, or the built-in text.
+ */
+export async function getActiveTemplate(name: PromptTemplateName): Promise<PromptTemplateVersion> {
+  return (await listTemplateVersions(name))[0];
+}
+
+/**
+ * Saves a new version, which becomes active immediately.
+ * Throws if the body uses variables the template doesn't provide.
+ */
+export async function saveTemplateVersion(
+  name: PromptTemplateName,
+  body: string,
+  note?: string
+): Promise<PromptTemplateVersion> {
+  if (!body.trim()) {
+    throw new Error('Template body is required');
+  }
+
+  const unknown = findUnknownVariables(name, body);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown template variable(s): ${unknown.join(', ')}`);
+  }
+
+  return updateStore(data => {
+    const latest = data.templates
+      .filter(t => t.name === name)
+      .reduce((max, t) => Math.max(max, t.version), BUILT_IN_TEMPLATES[name].version);
+
+    const entry: PromptTemplateVersion = {
+      name,
+      version: latest + 1,
+      body,
+      note: note?.trim() || undefined,
+      created_at: new Date().toISOString(),
+    };
+    data.templates.push(entry);
+    return entry;
+  });
+}
+
+export interface TemplateVersionUsage {
+  sessions: number;
+  /** Sessions Devin reported as finished */
+  finished: number;
+  /** Sessions that failed, expired or were stopped */
+  failed: number;
+  /** Execute sessions whose PR was merged */
+  merged: number;
+}
+
+/**
+ * Outcomes of the sessions started with each version of a template.
+ */
+export async function getTemplateUsage(name: PromptTemplateName): Promise<Record<number, TemplateVersionUsage>> {
+  const usage: Record<number, TemplateVersionUsage> = {};
+
+  for (const session of await listSessions()) {
+    if (session.prompt_template?.name !== name) continue;
+
+    const entry = usage[session.prompt_template.version] ??= { sessions: 0, finished: 0, failed: 0, merged: 0 };
+    entry.sessions += 1;
+    if (session.status_enum === 'finished') entry.finished += 1;
+    if (session.terminated_at || ['failed', 'expired', 'cancelled'].includes(session.status_enum ?? '')) {
+      entry.failed += 1;
+    }
+    if (session.pull_request?.merged) entry.merged += 1;
+  }
+
+  return usage;
+}
@@ -0,0 +1,91 @@
+import { getCheckSummary, getPullRequest, getReviewDecision, parsePullRequestNumber } from './github';
+import { getRepoByFullName } from './repoConfig';
+import { updateSessionRecord, type PullRequestRecord, type SessionRecord } from './sessionStore';
+
+/**
+ * Pull Request Tracker
+ *
+ * Follows the PR an execute session opened until it is merged or closed:
+ * review decision, CI checks and merge conflicts. Webhooks mark a PR stale
+ * as soon as something happens on GitHub; open PRs are also refreshed on an
+ * interval in case a delivery is missed.
+ */
+
+const REFRESH_INTERVAL = 60000; // 1 minute
+
+export function isPullRequestOpen(pullRequest: PullRequestRecord | undefined): boolean {
+  return pullRequest !== undefined && !pullRequest.merged && pullRequest.state !== 'closed';
+}
+
+/**
+ * Whether the session's PR should be re-read from GitHub: never read yet,
+ * marked stale by a webhook, or open and not checked for a while.
+ */
+export function needsPullRequestRefresh(record: SessionRecord): boolean {
+  const pullRequest = record.pull_request;
+  if (record.type !== 'execute' || !pullRequest) return false;
+  if (!pullRequest.synced_at) return true;
+
+  return isPullRequestOpen(pullRequest) &&
+    Date.now() - new Date(pullRequest.synced_at).getTime() >= REFRESH_INTERVAL;
+}
+
+/**
+ * Reads the PR's current state from GitHub into the session record.
+ * Returns the updated record, or null if the PR is not in the session's repository.
+ */
+export async function refreshPullRequest(record: SessionRecord): Promise<SessionRecord | null> {
+  const current = record.pull_request;
+  if (!current) return null;
+
+  const repository = await getRepoByFullName(record.repository);
+  const pullNumber = current.number ?? parsePullRequestNumber(repository, current.url);
+  if (!pullNumber) return null;
+
+  const pr = await getPullRequest(repository, pullNumber);
+  const [reviewDecision, checks] = await Promise.all([
+    getReviewDecision(repository, pullNumber),
+    getCheckSummary(repository, pr.head.sha),
+  ]);
+
+  const now = new Date().toISOString();
+  const pullRequest: PullRequestRecord = {
+    ...current,
+    url: pr.html_url,
+    number: pr.number,
+    state: pr.state,
+    merged: pr.merged,
+    draft: pr.draft,
+    mergeable_state: pr.mergeable_state,
+    review_decision: reviewDecision,
+    head_ref: pr.head.ref,
+    head_sha: pr.head.sha,
+    checks_status: checks.status,
+    checks_conclusion: checks.conclusion,
+    checks_failed: checks.failed,
+    updated_at: now,
+    synced_at: now,
+  };
+
+  return updateSessionRecord(record.session_id, { pull_request: pullRequest });
+}
+
+/**
+ * The parts of a PR that change its workflow status, for change detection.
+ * A new head commit counts too, since its checks start over.
+ */
+export function getPullRequestFingerprint(pullRequest: PullRequestRecord | undefined): string {
+  if (!pullRequest) return '';
+
+  return JSON.stringify([
+    pullRequest.url,
+    pullRequest.head_sha,
+    pullRequest.state,
+    pullRequest.merged,
+    pullRequest.draft,
+    pullRequest.mergeable_state,
+    pullRequest.review_decision,
+    pullRequest.checks_status,
+    pullRequest.checks_conclusion,
+  ]);
+}
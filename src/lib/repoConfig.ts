@@ -0,0 +1,127 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+/**
+ * Repository Config
+ *
+ * The repositories this deployment works on, read from `config/repos.json`
+ * (or DEVIN_REPOS_CONFIG). Without that file, the single repository from
+ * GITHUB_OWNER/GITHUB_REPO/GITHUB_BASE_BRANCH is used, as before multi-repo
+ * support. The file is re-read on every use like the automation config.
+ */
+
+/** Identifies a repository, in the shape Octokit expects */
+export interface RepoRef {
+  owner: string;
+  repo: string;
+}
+
+export const RepoConfigSchema = z.object({
+  owner: z.string().min(1),
+  repo: z.string().min(1),
+  /** Branch Devin branches from and opens PRs against */
+  baseBranch: z.string().default('main'),
+  /** Local playbook that overrides the one in the repository */
+  playbookPath: z.string().optional(),
+  /** Scopes must be approved by a second person before they can be executed */
+  requireApproval: z.boolean().default(false),
+});
+
+export type RepoConfig = z.infer<typeof RepoConfigSchema>;
+
+const ReposFileSchema = z.object({
+  repositories: z.array(RepoConfigSchema).min(1),
+});
+
+const DEFAULT_CONFIG_PATH = 'config/repos.json';
+
+function getConfigPath(): string {
+  return path.resolve(process.cwd(), process.env.DEVIN_REPOS_CONFIG || DEFAULT_CONFIG_PATH);
+}
+
+/** `owner/repo`, the form stored on records and used in the UI */
+export function toFullName(ref: RepoRef): string {
+  return `${ref.owner}/${ref.repo}`;
+}
+
+export function parseFullName(fullName: string): RepoRef | null {
+  const [owner, repo, ...rest] = fullName.split('/');
+  if (!owner || !repo || rest.length > 0) return null;
+  return { owner, repo };
+}
+
+export function isSameRepo(a: RepoRef, b: RepoRef): boolean {
+  return toFullName(a).toLowerCase() === toFullName(b).toLowerCase();
+}
+
+/**
+ * The repository configured through environment variables, if any.
+ * Records written before multi-repo support belong to it.
+ */
+export function getEnvRepo(): RepoConfig | null {
+  const owner = process.env.GITHUB_OWNER;
+  const repo = process.env.GITHUB_REPO;
+  if (!owner || !repo) return null;
+
+  return {
+    owner,
+    repo,
+    baseBranch: process.env.GITHUB_BASE_BRANCH || 'main',
+    playbookPath: process.env.DEVIN_PLAYBOOK_PATH || 'config/playbook.md',
+    requireApproval: process.env.DEVIN_REQUIRE_APPROVAL === 'true',
+  };
+}
+
+export async function loadRepos(): Promise<RepoConfig[]> {
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(await fs.readFile(getConfigPath(), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new Error(`Invalid repository config: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const envRepo = getEnvRepo();
+    if (!envRepo) {
+      throw new Error('GITHUB_OWNER and GITHUB_REPO environment variables are required when config/repos.json is absent');
+    }
+    return [envRepo];
+  }
+
+  const result = ReposFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid repository config: ${result.error.message}`);
+  }
+  return result.data.repositories;
+}
+
+/**
+ * Looks up a configured repository. Throws for repositories this deployment
+ * doesn't work on, so routes and webhooks can't reach arbitrary repos.
+ */
+export async function getRepo(ref: RepoRef): Promise<RepoConfig> {
+  const repos = await loadRepos();
+  const match = repos.find(r => isSameRepo(r, ref));
+  if (!match) {
+    throw new Error(`Repository ${toFullName(ref)} is not configured`);
+  }
+  return match;
+}
+
+/**
+ * Looks up the repository a record belongs to by its `owner/repo` name.
+ */
+export async function getRepoByFullName(fullName: string): Promise<RepoConfig> {
+  const ref = parseFullName(fullName);
+  if (!ref) {
+    throw new Error(`Repository ${fullName} is not configured`);
+  }
+  return getRepo(ref);
+}
+
+/** First configured repository, used where no repository is given */
+export async function getDefaultRepo(): Promise<RepoConfig> {
+  return (await loadRepos())[0];
+}
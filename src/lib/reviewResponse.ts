@@ -0,0 +1,207 @@
+import type { Automation } from './automations';
+import type { WebhookEvent } from './webhooks';
+import {
+  getUnresolvedReviewThreads,
+  parsePullRequestNumber,
+  type ReviewThread,
+} from './github';
+import { REVIEW_RESPONSE_OUTPUT_JSON_SCHEMA } from './schemas';
+import { loadAutomationConfig } from './automationConfig';
+import { listDecisions, recordDecision } from './decisionLog';
+import { isSessionActive } from './sessionLifecycle';
+import { getRepoByFullName, type RepoConfig } from './repoConfig';
+import { startFollowUpSession, withFollowUpLock } from './followUp';
+import {
+  findSessionsByPullRequest,
+  getSessionRecord,
+  type SessionRecord,
+} from './sessionStore';
+
+/**
+ * Review Response
+ *
+ * Gathers the unresolved review threads on a PR Devin opened and starts a
+ * session that addresses them on the same branch, reporting a resolution for
+ * every thread. Runs from the dashboard, or on submitted reviews when
+ * `reviewResponse.enabled` is on. Sessions are capped per issue.
+ */
+
+export interface ReviewResponseResult {
+  session_id: string;
+  /** Number of unresolved threads handed to Devin */
+  thread_count: number;
+}
+
+function formatThreads(threads: ReviewThread[]): string {
+  return threads.map(thread => {
+    const location = thread.line !== null ? `${thread.path}:${thread.line}` : thread.path;
+    const lines = [`### ${location}${thread.is_outdated ? ' (outdated)' : ''}`, `Thread ID: \`${thread.id}\``, ''];
+    for (const comment of thread.comments) {
+      lines.push(`**@${comment.author}:** ${comment.body}`, '');
+    }
+    return lines.join('\n').trimEnd();
+  }).join('\n\n');
+}
+
+export function buildReviewResponsePromptVariables(threads: ReviewThread[]): Record<string, string> {
+  return {
+    threads: formatThreads(threads),
+    outputSchema: REVIEW_RESPONSE_OUTPUT_JSON_SCHEMA,
+  };
+}
+
+async function countReviewResponses(record: SessionRecord): Promise<number> {
+  const decisions = await listDecisions({
+    repository: record.repository,
+    issueNumber: record.issue_number,
+    automation: 'review-response',
+  });
+  return decisions.filter(d => d.outcome === 'taken').length;
+}
+
+/**
+ * Starts a session addressing the unresolved review threads on a session's PR.
+ * `subject` identifies what prompted it in the decision log, e.g. a review ID.
+ */
+export async function startReviewResponse(
+  sessionId: string,
+  options: { trigger?: string; subject?: string; startedBy?: string } = {}
+): Promise<ReviewResponseResult> {
+  const record = await getSessionRecord(sessionId);
+  if (!record) {
+    throw new Error('Session not found');
+  }
+
+  const pullRequest = record.pull_request;
+  if (record.type !== 'execute' || !pullRequest?.head_ref) {
+    throw new Error('Session has no pull request to address');
+  }
+  if (pullRequest.state === 'closed') {
+    throw new Error('The pull request is closed');
+  }
+
+  const repository = await getRepoByFullName(record.repository);
+  const pullNumber = pullRequest.number ?? parsePullRequestNumber(repository, pullRequest.url);
+  if (!pullNumber) {
+    throw new Error('Session has no pull request to address');
+  }
+
+  return withFollowUpLock(pullRequest.url, 'A review response', async () => {
+    // Two sessions pushing to the same branch would trip over each other
+    const linked = await findSessionsByPullRequest({ url: pullRequest.url });
+    const active = linked.find(isSessionActive);
+    if (active) {
+      throw new Error(`Session ${active.session_id} is still working on the pull request`);
+    }
+
+    const config = (await loadAutomationConfig()).reviewResponse;
+    const attempts = await countReviewResponses(record);
+    if (attempts >= config.maxAttemptsPerIssue) {
+      throw new Error(
+        `Issue #${record.issue_number} has reached the review response limit (${config.maxAttemptsPerIssue} sessions)`
+      );
+    }
+
+    const threads = await getUnresolvedReviewThreads(repository, pullNumber);
+    if (threads.length === 0) {
+      throw new Error('No unresolved review comments on the pull request');
+    }
+
+    const { session } = await startFollowUpSession(record, {
+      kind: 'review-response',
+      repository,
+      pullRequest: { ...pullRequest, number: pullNumber },
+      titlePrefix: 'Address review',
+      variables: buildReviewResponsePromptVariables(threads),
+      trigger: options.trigger,
+      startedBy: options.startedBy,
+      details: { review_threads: threads.length },
+    });
+
+    await recordDecision({
+      automation: 'review-response',
+      repository: record.repository,
+      issue_number: record.issue_number,
+      session_id: record.session_id,
+      subject: options.subject ?? pullRequest.head_sha,
+      outcome: 'taken',
+      reason: `Started session for ${threads.length} unresolved review thread(s)` +
+        ` (session ${attempts + 1} of ${config.maxAttemptsPerIssue})`,
+      created_session_id: session.session_id,
+    });
+
+    return { session_id: session.session_id, thread_count: threads.length };
+  });
+}
+
+interface ReviewPayload {
+  id: number;
+  state: string;
+  user: { login: string } | null;
+}
+
+// Outcomes that leave nothing for the automation to do
+const EXPECTED_SKIPS = [
+  'still working on',
+  'review response limit',
+  'No unresolved review comments',
+  'is closed',
+  'budget exceeded',
+];
+
+async function runReviewResponse(event: WebhookEvent, repository: RepoConfig): Promise<string> {
+  const config = (await loadAutomationConfig()).reviewResponse;
+  if (!config.enabled) {
+    return 'Review response disabled';
+  }
+
+  const review = event.payload.review as ReviewPayload;
+  const pr = event.payload.pull_request as { number: number; html_url: string };
+
+  const state = review.state.toLowerCase();
+  if (!(config.triggerStates as string[]).includes(state)) {
+    return `Skipped: review state ${state}`;
+  }
+
+  // The newest session on the PR carries the latest branch state
+  const linked = await findSessionsByPullRequest({ url: pr.html_url, repository, number: pr.number });
+  const newest = linked.sort((a, b) => a.created_at.localeCompare(b.created_at)).pop();
+  if (!newest) {
+    return `No sessions linked to PR #${pr.number}`;
+  }
+
+  const subject = `review:${review.id}`;
+  const decisions = await listDecisions({
+    repository: newest.repository,
+    issueNumber: newest.issue_number,
+    automation: 'review-response',
+  });
+  if (decisions.some(d => d.subject === subject)) {
+    return `Skipped: review ${review.id} already handled`;
+  }
+
+  try {
+    const result = await startReviewResponse(newest.session_id, { trigger: 'review-response', subject });
+    return `Started review response session ${result.session_id} (${result.thread_count} threads)`;
+  } catch (error) {
+    if (error instanceof Error && EXPECTED_SKIPS.some(reason => error.message.includes(reason))) {
+      await recordDecision({
+        automation: 'review-response',
+        repository: newest.repository,
+        issue_number: newest.issue_number,
+        session_id: newest.session_id,
+        subject,
+        outcome: 'skipped',
+        reason: `Review by ${review.user?.login ?? 'unknown'}, but ${error.message}`,
+      });
+      return `Skipped: ${error.message}`;
+    }
+    throw error;
+  }
+}
+
+export const reviewResponseAutomation: Automation = {
+  name: 'review-response',
+  events: ['pull_request_review.submitted'],
+  run: runReviewResponse,
+};
@@ -0,0 +1,13 @@
+/**
+ * Dashboard roles, shared by the server and the UI. The server enforces them;
+ * the UI only uses them to hide actions a user can't take.
+ */
+
+/** From least to most trusted; each role can do everything the ones before it can */
+export const ROLES = ['viewer', 'scoper', 'executor', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export function hasRole(user: { role: Role } | null | undefined, required: Role): boolean {
+  return !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(required);
+}
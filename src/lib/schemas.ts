@@ -19,6 +19,22 @@ export const ScopeOutputSchema = z.object({
 
 export type ScopeOutput = z.infer<typeof ScopeOutputSchema>;
 
+/**
+ * A scope's action plan as a numbered list, or its raw output if that
+ * doesn't match the scope schema.
+ */
+export function formatActionPlan(structuredOutput: Record<string, unknown>): string {
+  const scopeResult = ScopeOutputSchema.safeParse(structuredOutput);
+  if (scopeResult.success) {
+    return scopeResult.data.action_plan
+      .map(step => `${step.step}. **${step.title}**: ${step.details}`)
+      .join('\n');
+  }
+
+  // Fall back to raw JSON if validation fails
+  return JSON.stringify(structuredOutput, null, 2);
+}
+
 // Execute session structured output schema
 export const ExecuteOutputSchema = z.object({
   status: z.enum(['pending', 'in_progress', 'completed', 'blocked', 'failed']),
@@ -36,6 +52,22 @@ export const ExecuteOutputSchema = z.object({
 
 export type ExecuteOutput = z.infer<typeof ExecuteOutputSchema>;
 
+// Review-response sessions report execute progress plus one entry per review thread
+export const ReviewCommentResolutionSchema = z.object({
+  thread_id: z.string(),
+  path: z.string(),
+  line: z.number().nullable(),
+  resolution: z.enum(['pending', 'fixed', 'declined', 'needs_discussion']),
+  note: z.string(),
+});
+
+export const ReviewResponseOutputSchema = ExecuteOutputSchema.extend({
+  review_comments: z.array(ReviewCommentResolutionSchema),
+});
+
+export type ReviewCommentResolution = z.infer<typeof ReviewCommentResolutionSchema>;
+export type ReviewResponseOutput = z.infer<typeof ReviewResponseOutputSchema>;
+
 // JSON schema strings for including in prompts
 export const SCOPE_OUTPUT_JSON_SCHEMA = `{
   "issue_number": 123,
@@ -63,3 +95,18 @@ export const EXECUTE_OUTPUT_JSON_SCHEMA = `{
   "needs_human_input": false,
   "blocking_issue": ""
 }`;
+
+export const REVIEW_RESPONSE_OUTPUT_JSON_SCHEMA = `{
+  "status": "in_progress",
+  "current_task": "Add regression test for redirect loop",
+  "completed_tasks": ["Rename callback helper"],
+  "next_task": "Reply on the remaining thread",
+  "files_changed": ["src/auth/callback.ts", "src/auth/callback.test.ts"],
+  "tests_run": {"ran": true, "summary": "auth suite passes"},
+  "needs_human_input": false,
+  "blocking_issue": "",
+  "review_comments": [
+    {"thread_id": "PRRT_kwDOA1", "path": "src/auth/callback.ts", "line": 42, "resolution": "fixed", "note": "Renamed to handleOAuthCallback"},
+    {"thread_id": "PRRT_kwDOA2", "path": "src/auth/oauth.ts", "line": 10, "resolution": "declined", "note": "The retry is required by the provider's rate limits"}
+  ]
+}`;
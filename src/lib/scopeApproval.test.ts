@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSession, type DevinSession } from './devin';
+import { updateStore, type StoreData } from './store';
+import { getSessionRecord, type SessionRecord } from './sessionStore';
+import { getRepoByFullName, RepoConfigSchema } from './repoConfig';
+import { decideApproval, requestApproval } from './scopeApproval';
+import type { ScopeOutput } from './schemas';
+import type { ScopeApproval } from './workflowStatus';
+
+vi.mock('./devin', () => ({ getSession: vi.fn() }));
+vi.mock('./store', () => ({ updateStore: vi.fn() }));
+vi.mock('./sessionStore', () => ({ getSessionRecord: vi.fn() }));
+vi.mock('./repoConfig', async importOriginal => ({
+  ...(await importOriginal<typeof import('./repoConfig')>()),
+  getRepoByFullName: vi.fn(),
+}));
+vi.mock('./auditLog', () => ({ AUTOMATION_ACTOR: 'automation', recordAudit: vi.fn() }));
+vi.mock('./labelSync', () => ({ syncIssueLabels: vi.fn() }));
+vi.mock('./sessionPoller', () => ({ refreshWatchedSession: vi.fn() }));
+
+const output: ScopeOutput = {
+  issue_number: 7,
+  title: 'Fix the thing',
+  confidence_score: 90,
+  confidence_rationale: 'Small change',
+  assumptions: [],
+  unknowns: [],
+  risks: [],
+  action_plan: [{ step: 1, title: 'Fix', details: 'Change the line' }],
+  ready_to_execute: true,
+};
+
+const requested: ScopeApproval = {
+  state: 'requested',
+  requested_by: 'alice',
+  history: [{ state: 'requested', actor: 'alice', at: '2026-10-01T00:00:00.000Z' }],
+};
+
+let data: StoreData;
+
+function setUp(approval: ScopeApproval | undefined, status = 'blocked') {
+  const record: SessionRecord = {
+    session_id: 'scope-1',
+    type: 'scope',
+    repository: 'acme/widgets',
+    issue_number: 7,
+    url: 'https://app.devin.ai/sessions/scope-1',
+    created_at: '2026-10-01T00:00:00.000Z',
+    started_by: 'alice',
+    approval,
+  };
+  data = { sessions: [record] } as unknown as StoreData;
+
+  vi.mocked(getSessionRecord).mockImplementation(async id => data.sessions.find(s => s.session_id === id) ?? null);
+  vi.mocked(getSession).mockResolvedValue({
+    session_id: 'scope-1',
+    status_enum: status,
+    structured_output: status === 'running' ? undefined : output,
+  } as unknown as DevinSession);
+}
+
+function stored(): ScopeApproval | undefined {
+  return data.sessions[0].approval;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(updateStore).mockImplementation(async updater => updater(data));
+  vi.mocked(getRepoByFullName).mockResolvedValue(
+    RepoConfigSchema.parse({ owner: 'acme', repo: 'widgets', requireApproval: true })
+  );
+});
+
+describe('decideApproval', () => {
+  it('approves a pending request and saves the plan', async () => {
+    setUp(requested);
+
+    const approval = await decideApproval('scope-1', 'bob', 'approved');
+
+    expect(approval.state).toBe('approved');
+    expect(approval.approved_plan).toContain('Change the line');
+    expect(approval.history.map(e => e.state)).toEqual(['requested', 'approved']);
+    expect(stored()).toEqual(approval);
+  });
+
+  it('refuses the requester and whoever started the scope', async () => {
+    setUp({ ...requested, requested_by: 'carol' });
+
+    await expect(decideApproval('scope-1', 'Carol', 'approved')).rejects.toThrow('other than carol');
+    await expect(decideApproval('scope-1', 'alice', 'approved')).rejects.toThrow('other than alice');
+    expect(stored()?.state).toBe('requested');
+  });
+
+  it('only decides a pending request once', async () => {
+    setUp(requested);
+
+    await decideApproval('scope-1', 'bob', 'approved');
+
+    await expect(decideApproval('scope-1', 'dave', 'rejected', 'No')).rejects.toThrow('No approval is pending');
+    expect(stored()?.state).toBe('approved');
+  });
+
+  it('needs a comment to reject', async () => {
+    setUp(requested);
+
+    await expect(decideApproval('scope-1', 'bob', 'rejected', '  ')).rejects.toThrow('comment is required');
+
+    const approval = await decideApproval('scope-1', 'bob', 'rejected', 'Too risky');
+    expect(approval.state).toBe('rejected');
+    expect(approval.approved_plan).toBeUndefined();
+  });
+
+  it('waits for the plan to be complete', async () => {
+    setUp(requested, 'running');
+
+    await expect(decideApproval('scope-1', 'bob', 'approved')).rejects.toThrow('no complete plan');
+    expect(updateStore).not.toHaveBeenCalled();
+  });
+});
+
+describe('requestApproval', () => {
+  it('requests a rejected scope again', async () => {
+    setUp({
+      state: 'rejected',
+      requested_by: 'alice',
+      history: [...requested.history, { state: 'rejected', actor: 'bob', at: '2026-10-02T00:00:00.000Z' }],
+    });
+
+    const approval = await requestApproval('scope-1', 'alice', 'Answered the concerns');
+
+    expect(approval.state).toBe('requested');
+    expect(approval.history.map(e => e.state)).toEqual(['requested', 'rejected', 'requested']);
+  });
+
+  it('refuses a pending or approved scope', async () => {
+    setUp(requested);
+    await expect(requestApproval('scope-1', 'alice')).rejects.toThrow('already been requested');
+
+    setUp({ ...requested, state: 'approved', approved_plan: '1. Fix' });
+    await expect(requestApproval('scope-1', 'alice')).rejects.toThrow('already been approved');
+  });
+
+  it('requests again a scope approved before plans were saved', async () => {
+    setUp({ ...requested, state: 'approved' });
+
+    expect((await requestApproval('scope-1', 'alice')).state).toBe('requested');
+  });
+
+  it('waits for the plan to be complete', async () => {
+    setUp(undefined, 'running');
+
+    await expect(requestApproval('scope-1', 'alice')).rejects.toThrow('no complete plan');
+    expect(updateStore).not.toHaveBeenCalled();
+  });
+
+  it('refuses repositories that do not require approval', async () => {
+    setUp(undefined);
+    vi.mocked(getRepoByFullName).mockResolvedValue(RepoConfigSchema.parse({ owner: 'acme', repo: 'widgets' }));
+
+    await expect(requestApproval('scope-1', 'alice')).rejects.toThrow('does not require approval');
+  });
+});
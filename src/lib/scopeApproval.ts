@@ -0,0 +1,219 @@
+import { getSession, type DevinSession } from './devin';
+import { formatActionPlan } from './schemas';
+import { updateStore } from './store';
+import { getSessionRecord, type SessionRecord } from './sessionStore';
+import { getRepoByFullName, toFullName, type RepoConfig } from './repoConfig';
+import { AUTOMATION_ACTOR, recordAudit } from './auditLog';
+import { syncIssueLabels } from './labelSync';
+import { refreshWatchedSession } from './sessionPoller';
+import { isScopeComplete } from './sessionLifecycle';
+import type { ApprovalEvent, ApprovalState, ScopeApproval } from './workflowStatus';
+
+/**
+ * Scope Approval
+ *
+ * Two-person sign-off on scopes in repositories with `requireApproval`.
+ * Scope sessions there start out `requested` by whoever started them; once
+ * scoping is done, someone else approves or rejects the scope, with a
+ * comment, and only an approved scope can be executed. Approving saves the
+ * action plan as it stands, and execution runs that saved plan. A rejected
+ * scope can be requested again, e.g. after answering the concerns in the
+ * comment.
+ *
+ *   requested → approved
+ *   requested → rejected → requested → ...
+ */
+
+export type ApprovalDecision = Exclude<ApprovalState, 'requested'>;
+
+function toEvent(state: ApprovalState, actor: string, comment?: string): ApprovalEvent {
+  return { state, actor, at: new Date().toISOString(), comment: comment?.trim() || undefined };
+}
+
+/**
+ * The approval a new scope session in the repository starts with, if it
+ * needs one. `startedBy` is unset for automations.
+ */
+export function createApprovalRequest(repository: RepoConfig, startedBy?: string): ScopeApproval | undefined {
+  if (!repository.requireApproval) return undefined;
+
+  const requestedBy = startedBy ?? AUTOMATION_ACTOR;
+  return { state: 'requested', requested_by: requestedBy, history: [toEvent('requested', requestedBy)] };
+}
+
+/**
+ * Applies a transition to the stored record. `check` throws if the
+ * transition isn't allowed from the record's current state; it runs inside
+ * the store update so two reviewers can't both act on the same request.
+ */
+async function transition(
+  sessionId: string,
+  check: (record: SessionRecord) => void,
+  apply: (approval: ScopeApproval | undefined) => ScopeApproval
+): Promise<SessionRecord> {
+  const record = await updateStore(data => {
+    const target = data.sessions.find(s => s.session_id === sessionId);
+    if (!target) {
+      throw new Error('Session not found');
+    }
+    check(target);
+    target.approval = apply(target.approval);
+    return target;
+  });
+
+  // Push the new state to open dashboards and the issue's pipeline label
+  try {
+    await refreshWatchedSession(sessionId);
+    await syncIssueLabels(record, await getSession(sessionId));
+  } catch (error) {
+    console.error('Refreshing session after approval change failed:', error);
+  }
+  return record;
+}
+
+async function getScopeRecord(sessionId: string): Promise<SessionRecord> {
+  const record = await getSessionRecord(sessionId);
+  if (!record) {
+    throw new Error('Session not found');
+  }
+  if (record.type !== 'scope') {
+    throw new Error('Only scope sessions need approval');
+  }
+  return record;
+}
+
+/**
+ * The scope's Devin session, once scoping is done: a plan still being
+ * written can't be reviewed, nor frozen by an approval.
+ */
+async function getCompleteScope(sessionId: string): Promise<DevinSession> {
+  const session = await getSession(sessionId);
+  if (!isScopeComplete(session.status_enum, session.structured_output)) {
+    throw new Error('Scope session has no complete plan yet. Wait for scoping to complete.');
+  }
+  return session;
+}
+
+/**
+ * Asks for approval of a finished scope that has none yet (e.g. one started
+ * before the repository required it) or was rejected.
+ */
+export async function requestApproval(sessionId: string, actor: string, comment?: string): Promise<ScopeApproval> {
+  const existing = await getScopeRecord(sessionId);
+  const repository = await getRepoByFullName(existing.repository);
+  if (!repository.requireApproval) {
+    throw new Error(`Repository ${toFullName(repository)} does not require approval`);
+  }
+  await getCompleteScope(sessionId);
+
+  const record = await transition(
+    sessionId,
+    current => {
+      if (current.approval?.state === 'requested') {
+        throw new Error('Approval has already been requested for this scope');
+      }
+      // Approvals from before plans were saved can be requested again
+      if (current.approval?.state === 'approved' && current.approval.approved_plan !== undefined) {
+        throw new Error('This scope has already been approved');
+      }
+    },
+    approval => ({
+      state: 'requested',
+      requested_by: actor,
+      history: [...(approval?.history ?? []), toEvent('requested', actor, comment)],
+    })
+  );
+
+  await recordAudit({
+    actor,
+    action: 'approval.requested',
+    repository: record.repository,
+    issue_number: record.issue_number,
+    session_id: sessionId,
+    summary: `Requested approval of the scope for #${record.issue_number}`,
+    details: { comment: comment?.trim() || undefined },
+  });
+  return record.approval!;
+}
+
+/**
+ * Approves or rejects a scope whose approval is pending and whose scoping is
+ * done. The reviewer must be someone other than who requested it and who
+ * started the scope, and a rejection must say why.
+ */
+export async function decideApproval(
+  sessionId: string,
+  actor: string,
+  decision: ApprovalDecision,
+  comment?: string
+): Promise<ScopeApproval> {
+  const existing = await getScopeRecord(sessionId);
+
+  if (decision === 'rejected' && !comment?.trim()) {
+    throw new Error('A comment is required to reject a scope');
+  }
+
+  const session = await getCompleteScope(sessionId);
+  const approvedPlan = decision === 'approved' ? formatActionPlan(session.structured_output!) : undefined;
+
+  const record = await transition(
+    sessionId,
+    current => {
+      if (current.approval?.state !== 'requested') {
+        throw new Error('No approval is pending for this scope');
+      }
+      const requesters = [current.approval.requested_by, current.started_by];
+      const requester = requesters.find(login => login?.toLowerCase() === actor.toLowerCase());
+      if (requester) {
+        throw new Error(`Approval must come from someone other than ${requester}, who requested it`);
+      }
+    },
+    approval => ({
+      ...approval!,
+      state: decision,
+      history: [...approval!.history, toEvent(decision, actor, comment)],
+      approved_plan: approvedPlan,
+    })
+  );
+
+  await recordAudit({
+    actor,
+    action: decision === 'approved' ? 'approval.approved' : 'approval.rejected',
+    repository: existing.repository,
+    issue_number: existing.issue_number,
+    session_id: sessionId,
+    summary: `${decision === 'approved' ? 'Approved' : 'Rejected'} the scope for #${existing.issue_number}`,
+    details: { comment: comment?.trim() || undefined, requested_by: existing.approval?.requested_by },
+  });
+  return record.approval!;
+}
+
+/**
+ * The action plan to execute for a scope in a repository that requires
+ * approval: the one saved when it was approved. Null when the repository
+ * doesn't require approval. Throws unless the scope has been approved.
+ */
+export function getApprovedPlan(repository: RepoConfig, record: SessionRecord): string | null {
+  if (!repository.requireApproval) return null;
+
+  const scopeSessionId = record.session_id;
+  const approval = record.approval;
+  if (approval?.state === 'approved' && approval.approved_plan !== undefined) {
+    return approval.approved_plan;
+  }
+
+  if (approval?.state === 'approved') {
+    throw new Error(`Execution needs an approved scope: ${scopeSessionId} was approved before plans were saved; request approval again`);
+  }
+
+  if (approval?.state === 'rejected') {
+    const latest = approval.history[approval.history.length - 1];
+    throw new Error(`Execution needs an approved scope: ${scopeSessionId} was rejected by ${latest.actor}`);
+  }
+
+  throw new Error(
+    approval?.state === 'requested'
+      ? `Execution needs an approved scope: ${scopeSessionId} is awaiting approval from someone other than ${approval.requested_by}`
+      : `Execution needs an approved scope: request approval of ${scopeSessionId} first`
+  );
+}
@@ -0,0 +1,153 @@
+import { upsertIssueComment } from './github';
+import type { DevinSession } from './devin';
+import { ScopeOutputSchema, type ScopeOutput } from './schemas';
+import { updateSessionRecord, type SessionRecord } from './sessionStore';
+import { loadAutomationConfig } from './automationConfig';
+import { recordDecision } from './decisionLog';
+import { getRepoByFullName } from './repoConfig';
+import { AUTOMATION_ACTOR, recordAudit } from './auditLog';
+
+/**
+ * Scope Comment
+ *
+ * Publishes a scope session's output to the GitHub issue so reporters can see
+ * the plan and answer open questions. There is one scope comment per issue;
+ * re-scoping edits it in place.
+ */
+
+export const SCOPE_COMMENT_MARKER = '<!-- devin-automation:scope -->';
+
+// Scope sessions being published in this process
+const publishing = new Set<string>();
+
+function confidenceIcon(score: number): string {
+  if (score >= 80) return '🟢';
+  if (score >= 50) return '🟡';
+  return '🔴';
+}
+
+/**
+ * Turns an unknown into a question for the reporter, unless it already is one.
+ */
+function toQuestion(unknown: string): string {
+  const trimmed = unknown.trim();
+  if (trimmed.endsWith('?')) {
+    return trimmed;
+  }
+  const statement = trimmed.replace(/[.!:;]+$/, '');
+  return `Could you clarify: ${statement.charAt(0).toLowerCase()}${statement.slice(1)}?`;
+}
+
+export function formatScopeComment(output: ScopeOutput, sessionUrl?: string): string {
+  const lines: string[] = [
+    '## 🤖 Devin scope assessment',
+    '',
+    `**Confidence:** ${confidenceIcon(output.confidence_score)} ${output.confidence_score}/100`,
+    `> ${output.confidence_rationale}`,
+    '',
+    `**Ready to execute:** ${output.ready_to_execute ? '✅ Yes' : '⏳ Not yet'}`,
+    '',
+    '### Action plan',
+    ...output.action_plan.map(step => `${step.step}. **${step.title}** — ${step.details}`),
+  ];
+
+  if (output.assumptions.length > 0) {
+    lines.push('', '### Assumptions', ...output.assumptions.map(item => `- ${item}`));
+  }
+
+  if (output.unknowns.length > 0) {
+    lines.push(
+      '',
+      '### Open questions',
+      'Answers in a reply to this issue help the next scope attempt:',
+      '',
+      ...output.unknowns.map(item => `- ${toQuestion(item)}`)
+    );
+  }
+
+  const source = sessionUrl ? `[Devin session](${sessionUrl})` : 'a Devin session';
+  lines.push(
+    '',
+    '---',
+    `<sub>Generated from ${source}. This comment is updated in place when the issue is re-scoped.</sub>`
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Posts (or updates) the scope comment for a scope session and records it.
+ * `actor` is who published it, for the audit log.
+ */
+export async function publishScopeComment(
+  record: SessionRecord,
+  output: ScopeOutput,
+  actor: string
+): Promise<NonNullable<SessionRecord['scope_comment']> & { updated: boolean }> {
+  const comment = await upsertIssueComment(
+    await getRepoByFullName(record.repository),
+    record.issue_number,
+    SCOPE_COMMENT_MARKER,
+    formatScopeComment(output, record.url)
+  );
+
+  const scopeComment = {
+    id: comment.id,
+    url: comment.html_url,
+    posted_at: new Date().toISOString(),
+  };
+  await updateSessionRecord(record.session_id, { scope_comment: scopeComment });
+  await recordAudit({
+    actor,
+    action: 'github.comment',
+    repository: record.repository,
+    issue_number: record.issue_number,
+    session_id: record.session_id,
+    summary: `${comment.updated ? 'Updated' : 'Posted'} scope comment on #${record.issue_number}`,
+    details: { comment_id: comment.id, url: comment.html_url },
+  });
+
+  return { ...scopeComment, updated: comment.updated };
+}
+
+/**
+ * Publishes a scope session that just completed, if `scopeComment.autoPost`
+ * is on. Only called for the issue's latest scope, so an older one never
+ * overwrites the comment. A failure is logged as a decision and not retried;
+ * the scope can still be published from the dashboard.
+ */
+export async function maybeAutoPublishScopeComment(
+  record: SessionRecord,
+  session: DevinSession
+): Promise<void> {
+  if (record.type !== 'scope' || publishing.has(record.session_id)) {
+    return;
+  }
+
+  const config = (await loadAutomationConfig()).scopeComment;
+  const parsed = ScopeOutputSchema.safeParse(session.structured_output);
+  if (!config.autoPost || !parsed.success) {
+    return;
+  }
+
+  const decide = (outcome: 'taken' | 'skipped', reason: string) =>
+    recordDecision({
+      automation: 'scope-comment',
+      repository: record.repository,
+      issue_number: record.issue_number,
+      session_id: record.session_id,
+      outcome,
+      reason,
+    });
+
+  publishing.add(record.session_id);
+  try {
+    const comment = await publishScopeComment(record, parsed.data, AUTOMATION_ACTOR);
+    await decide('taken', comment.updated ? 'Updated scope comment on issue' : 'Posted scope comment on issue');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await decide('skipped', `Publishing the scope comment failed: ${message}`);
+  } finally {
+    publishing.delete(record.session_id);
+  }
+}
@@ -0,0 +1,153 @@
+import { getIssue, type GitHubIssue } from './github';
+import { createSession, getSession, type DevinSession } from './devin';
+import { SCOPE_OUTPUT_JSON_SCHEMA } from './schemas';
+import { formatIssueContext, loadIssueContext } from './issueContext';
+import { getActiveTemplate, getIssueVariables, renderTemplate } from './promptTemplates';
+import { appendPlaybook, loadPlaybook, toPlaybookRef } from './playbook';
+import { toFullName, type RepoConfig, type RepoRef } from './repoConfig';
+import { listSessionsForIssue, recordSession, type SessionRecord } from './sessionStore';
+import { isSessionSettled, stopActiveSessions, syncSession } from './sessionLifecycle';
+import { assertWithinBudget } from './usage';
+import { AUTOMATION_ACTOR, recordSessionCreated } from './auditLog';
+import { createApprovalRequest } from './scopeApproval';
+
+/**
+ * Scope Service
+ *
+ * Starts scope sessions for an issue. Shared by the scope route and the
+ * webhook-driven auto-scoping automation so both build the same prompt and
+ * respect the same duplicate guard.
+ */
+
+export interface StartScopeOptions {
+  /** What started the session, e.g. `manual` or `label:devin:scope` */
+  trigger?: string;
+  /** Login of the user starting the session; unset for automations */
+  startedBy?: string;
+  /** Terminate scope sessions still running for the issue instead of refusing */
+  terminatePrevious?: boolean;
+}
+
+export interface ScopeSessionResult {
+  session: DevinSession;
+  issue: GitHubIssue;
+  record: SessionRecord;
+  /** Sessions terminated to make way for this one */
+  stoppedSessionIds: string[];
+}
+
+// Issues (`owner/repo#number`) with a scope session being created in this process
+const inFlight = new Set<string>();
+
+export async function buildScopePromptVariables(
+  repository: RepoConfig,
+  issue: GitHubIssue
+): Promise<Record<string, string>> {
+  const context = await loadIssueContext(repository, issue);
+  return {
+    ...getIssueVariables(repository, issue),
+    'issue.context': formatIssueContext(issue, context),
+    outputSchema: SCOPE_OUTPUT_JSON_SCHEMA,
+  };
+}
+
+/**
+ * Throws if the issue already has a scope session that is still working.
+ * Sessions whose status has not been seen yet are refreshed from Devin first.
+ */
+async function assertNoActiveScopeSession(repository: RepoRef, issueNumber: number): Promise<void> {
+  const records = await listSessionsForIssue(repository, issueNumber);
+
+  for (const record of records.filter(r => r.type === 'scope' && !r.terminated_at)) {
+    let status = record.status_enum;
+
+    if (!isSessionSettled(status)) {
+      try {
+        const session = await getSession(record.session_id);
+        await syncSession(session);
+        status = session.status_enum;
+      } catch (error) {
+        // A session Devin no longer knows about can't be doing any work
+        if (error instanceof Error && error.message.includes('Devin API error (404)')) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    if (!isSessionSettled(status)) {
+      throw new Error(
+        `Issue #${issueNumber} already has an active scope session (${record.session_id})`
+      );
+    }
+  }
+}
+
+export async function startScopeSession(
+  repository: RepoConfig,
+  issueNumber: number,
+  options: StartScopeOptions = {}
+): Promise<ScopeSessionResult> {
+  const key = `${toFullName(repository)}#${issueNumber}`;
+  if (inFlight.has(key)) {
+    throw new Error(`Issue #${issueNumber} already has an active scope session being created`);
+  }
+
+  inFlight.add(key);
+  try {
+    // Check before stopping anything, so a blocked start leaves the old session running
+    await assertWithinBudget();
+
+    const stoppedSessionIds = options.terminatePrevious
+      ? await stopActiveSessions(repository, issueNumber, 'scope', options.startedBy ?? AUTOMATION_ACTOR)
+      : [];
+
+    await assertNoActiveScopeSession(repository, issueNumber);
+
+    // Fetch issue details from GitHub
+    const issue = await getIssue(repository, issueNumber);
+    const template = await getActiveTemplate('scope');
+    const playbook = await loadPlaybook(repository);
+
+    const session = await createSession({
+      prompt: appendPlaybook(
+        renderTemplate(template.body, await buildScopePromptVariables(repository, issue)),
+        playbook
+      ),
+      title: `Scope: ${issue.title.substring(0, 50)}`,
+      tags: [
+        'cognition-takehome',
+        'github-issues',
+        'stage:scope',
+        `issue:${issueNumber}`,
+        `repo:${toFullName(repository)}`,
+      ],
+      unlisted: true,
+    });
+
+    // Persist so every dashboard user sees the session
+    const approval = createApprovalRequest(repository, options.startedBy);
+    const record = await recordSession({
+      session_id: session.session_id,
+      type: 'scope',
+      repository: toFullName(repository),
+      issue_number: issueNumber,
+      url: session.url,
+      title: issue.title,
+      created_at: new Date().toISOString(),
+      trigger: options.trigger || 'manual',
+      started_by: options.startedBy,
+      prompt_template: { name: 'scope', version: template.version },
+      playbook: toPlaybookRef(playbook),
+      approval,
+    });
+    await recordSessionCreated(record, {
+      stopped_session_ids: stoppedSessionIds,
+      approval_required: approval !== undefined,
+    });
+
+    return { session, issue, record, stoppedSessionIds };
+  } finally {
+    inFlight.delete(key);
+  }
+}
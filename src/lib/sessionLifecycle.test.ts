@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSessionRecord, listSessionsForIssue, syncSessionRecord, type SessionRecord } from './sessionStore';
+import { maybeAutoExecute } from './autoExecute';
+import { maybeAutoPublishScopeComment } from './scopeComment';
+import { isLatestScope, isScopeComplete, syncSession } from './sessionLifecycle';
+import type { DevinSession } from './devin';
+
+vi.mock('./devin', () => ({ getSession: vi.fn(), terminateSession: vi.fn() }));
+vi.mock('./sessionStore', () => ({
+  getSessionRecord: vi.fn(),
+  listSessionsForIssue: vi.fn(),
+  syncSessionRecord: vi.fn(),
+  updateSessionRecord: vi.fn(),
+}));
+vi.mock('./autoExecute', () => ({ maybeAutoExecute: vi.fn() }));
+vi.mock('./scopeComment', () => ({ maybeAutoPublishScopeComment: vi.fn() }));
+vi.mock('./labelSync', () => ({ syncIssueLabels: vi.fn() }));
+vi.mock('./ciFix', () => ({ maybeAutoFixCi: vi.fn() }));
+vi.mock('./pullRequestTracker', () => ({
+  getPullRequestFingerprint: vi.fn(() => ''),
+  needsPullRequestRefresh: vi.fn(() => false),
+  refreshPullRequest: vi.fn(),
+}));
+vi.mock('./auditLog', () => ({ recordAudit: vi.fn() }));
+
+const completeOutput = {
+  issue_number: 7,
+  title: 'Fix the thing',
+  confidence_score: 90,
+  confidence_rationale: 'Small change',
+  assumptions: [],
+  unknowns: [],
+  risks: [],
+  action_plan: [{ step: 1, title: 'Fix', details: 'Change the line' }],
+  ready_to_execute: true,
+};
+
+// What a scope reports when it stops partway through to ask a question
+const partialOutput = { issue_number: 7, title: 'Fix the thing', assumptions: [] };
+
+function scopeRecord(sessionId: string, patch: Partial<SessionRecord> = {}): SessionRecord {
+  return {
+    session_id: sessionId,
+    type: 'scope',
+    repository: 'acme/widgets',
+    issue_number: 7,
+    url: `https://app.devin.ai/sessions/${sessionId}`,
+    created_at: '2026-10-01T00:00:00.000Z',
+    ...patch,
+  };
+}
+
+function devinSession(sessionId: string, status: string, output: Record<string, unknown> | null): DevinSession {
+  return { session_id: sessionId, status_enum: status, structured_output: output } as unknown as DevinSession;
+}
+
+/** Syncs `session` over a stored record whose last seen status was `previousStatus` */
+async function sync(record: SessionRecord, previousStatus: string, session: DevinSession, issueSessions = [record]) {
+  vi.mocked(getSessionRecord).mockResolvedValue({ ...record, status_enum: previousStatus });
+  vi.mocked(syncSessionRecord).mockResolvedValue({ ...record, status_enum: session.status_enum });
+  vi.mocked(listSessionsForIssue).mockResolvedValue(issueSessions);
+  await syncSession(session);
+}
+
+describe('isScopeComplete', () => {
+  it('needs a settled status and complete output', () => {
+    expect(isScopeComplete('blocked', completeOutput)).toBe(true);
+    expect(isScopeComplete('finished', completeOutput)).toBe(true);
+    expect(isScopeComplete('running', completeOutput)).toBe(false);
+    expect(isScopeComplete('blocked', partialOutput)).toBe(false);
+    expect(isScopeComplete('blocked', null)).toBe(false);
+  });
+});
+
+describe('isLatestScope', () => {
+  it('ignores execute sessions and archived scopes', () => {
+    const older = scopeRecord('scope-1');
+    const archived = scopeRecord('scope-2', { archived_at: '2026-10-03T00:00:00.000Z' });
+    const execute = scopeRecord('exec-1', { type: 'execute' });
+
+    expect(isLatestScope(older, [older, archived, execute])).toBe(true);
+    expect(isLatestScope(older, [older, scopeRecord('scope-3')])).toBe(false);
+  });
+});
+
+describe('syncSession scope automations', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('runs the scope automations when the latest scope moves to done', async () => {
+    const record = scopeRecord('scope-1');
+    await sync(record, 'running', devinSession('scope-1', 'blocked', completeOutput));
+
+    expect(maybeAutoPublishScopeComment).toHaveBeenCalledTimes(1);
+    expect(maybeAutoExecute).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves an older scope alone once the issue has been scoped again', async () => {
+    const record = scopeRecord('scope-1');
+    const replacement = scopeRecord('scope-2', { created_at: '2026-10-02T00:00:00.000Z' });
+    await sync(record, 'running', devinSession('scope-1', 'blocked', completeOutput), [record, replacement]);
+
+    expect(maybeAutoExecute).not.toHaveBeenCalled();
+    expect(maybeAutoPublishScopeComment).not.toHaveBeenCalled();
+  });
+
+  it('leaves a scope alone that was already done when it is synced again', async () => {
+    const record = scopeRecord('scope-1');
+    await sync(record, 'blocked', devinSession('scope-1', 'blocked', completeOutput));
+
+    expect(maybeAutoExecute).not.toHaveBeenCalled();
+    expect(maybeAutoPublishScopeComment).not.toHaveBeenCalled();
+  });
+
+  it('waits for a scope that stops to ask a question, and checks it once it is done', async () => {
+    const record = scopeRecord('scope-1');
+
+    await sync(record, 'running', devinSession('scope-1', 'blocked', partialOutput));
+    expect(maybeAutoExecute).not.toHaveBeenCalled();
+
+    await sync(record, 'blocked', devinSession('scope-1', 'running', partialOutput));
+    await sync(record, 'running', devinSession('scope-1', 'blocked', completeOutput));
+    expect(maybeAutoExecute).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,215 @@
+import { getSession, terminateSession, type DevinSession } from './devin';
+import {
+  getSessionRecord,
+  listSessionsForIssue,
+  syncSessionRecord,
+  updateSessionRecord,
+  type SessionRecord,
+  type SessionType,
+} from './sessionStore';
+import { maybeAutoExecute } from './autoExecute';
+import { maybeAutoPublishScopeComment } from './scopeComment';
+import { syncIssueLabels, type LabelSessionState } from './labelSync';
+import { maybeAutoFixCi } from './ciFix';
+import {
+  getPullRequestFingerprint,
+  needsPullRequestRefresh,
+  refreshPullRequest,
+} from './pullRequestTracker';
+import { parseFullName, type RepoRef } from './repoConfig';
+import { recordAudit } from './auditLog';
+import { ScopeOutputSchema } from './schemas';
+
+/**
+ * Session Lifecycle
+ *
+ * Single entry point for folding fresh Devin session state into the store.
+ * Whoever observes a session (a dashboard poll, the duplicate guard) goes
+ * through here, so follow-up work such as auto-execute runs no matter who
+ * saw the change first.
+ */
+
+// Statuses after which a session no longer does any work.
+// Scope sessions go to "blocked" once their output is complete.
+export const SETTLED_STATUSES = ['blocked', 'finished', 'failed', 'cancelled', 'expired'];
+
+export function isSessionSettled(statusEnum: string | undefined): boolean {
+  return statusEnum !== undefined && SETTLED_STATUSES.includes(statusEnum);
+}
+
+/**
+ * Whether a scope session is done: it settled with output that parses as a
+ * complete scope. A scope can also go `blocked` partway through, to ask a
+ * question, with partial output.
+ */
+export function isScopeComplete(
+  statusEnum: string | undefined,
+  structuredOutput: Record<string, unknown> | null
+): boolean {
+  return isSessionSettled(statusEnum) && ScopeOutputSchema.safeParse(structuredOutput).success;
+}
+
+/**
+ * Whether the record is the latest scope for its issue that hasn't been
+ * archived. `issueSessions` are the issue's sessions, oldest first.
+ */
+export function isLatestScope(record: SessionRecord, issueSessions: SessionRecord[]): boolean {
+  const scopes = issueSessions.filter(s => s.type === 'scope' && !s.archived_at);
+  return scopes[scopes.length - 1]?.session_id === record.session_id;
+}
+
+/**
+ * Whether a recorded session can still be doing work. Sessions stopped from
+ * the dashboard count as done even before Devin reports their final status.
+ */
+export function isSessionActive(record: SessionRecord): boolean {
+  return !record.terminated_at && !isSessionSettled(record.status_enum);
+}
+
+export async function syncSession(session: DevinSession): Promise<SessionRecord | null> {
+  const previous = await getSessionRecord(session.session_id);
+  let record = await syncSessionRecord(session);
+  if (!previous || !record) return null;
+
+  // Follow the session's PR on GitHub once there is one
+  if (needsPullRequestRefresh(record)) {
+    try {
+      record = (await refreshPullRequest(record)) ?? record;
+    } catch (error) {
+      console.error('Refreshing pull request failed:', error);
+    }
+  }
+
+  const hasTransitioned =
+    previous.status_enum !== record.status_enum ||
+    getPullRequestFingerprint(previous.pull_request) !== getPullRequestFingerprint(record.pull_request);
+
+  if (hasTransitioned) {
+    await onTransition(record, session);
+  }
+
+  if (previous.status_enum !== record.status_enum && await isScopeCompletion(record, session)) {
+    try {
+      await maybeAutoPublishScopeComment(record, session);
+    } catch (error) {
+      console.error('Publishing scope comment failed:', error);
+    }
+
+    try {
+      await maybeAutoExecute(record, session);
+    } catch (error) {
+      console.error('Auto-execute evaluation failed:', error);
+    }
+  }
+
+  return record;
+}
+
+/**
+ * Whether a status change just completed the issue's latest scope. Scope
+ * automations only run then, so re-syncing an older or replaced scope, or
+ * one that finished before an automation was turned on, never acts on it.
+ */
+async function isScopeCompletion(record: SessionRecord, session: DevinSession): Promise<boolean> {
+  if (record.type !== 'scope' || !isScopeComplete(session.status_enum, session.structured_output)) {
+    return false;
+  }
+
+  const repository = parseFullName(record.repository);
+  return repository !== null && isLatestScope(record, await listSessionsForIssue(repository, record.issue_number));
+}
+
+async function onTransition(record: SessionRecord, session: LabelSessionState): Promise<void> {
+  try {
+    await syncIssueLabels(record, session);
+  } catch (error) {
+    console.error('Syncing issue labels failed:', error);
+  }
+
+  try {
+    await maybeAutoFixCi(record);
+  } catch (error) {
+    console.error('CI fix follow-up failed:', error);
+  }
+}
+
+/**
+ * Re-reads the PR of an execute session Devin is done with, without asking
+ * Devin again: its status can't change any more, only the PR's can. Runs the
+ * same follow-ups as `syncSession` when the PR moved on.
+ */
+export async function syncPullRequest(record: SessionRecord): Promise<SessionRecord> {
+  const pullRequest = record.pull_request;
+  if (!pullRequest || !record.status_enum) return record;
+
+  const updated = (await refreshPullRequest(record)) ?? record;
+
+  if (getPullRequestFingerprint(pullRequest) !== getPullRequestFingerprint(updated.pull_request)) {
+    // A finished session's status follows its PR, so its output isn't needed
+    await onTransition(updated, {
+      status_enum: updated.status_enum ?? record.status_enum,
+      structured_output: null,
+      pull_request: { url: pullRequest.url },
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Terminates a session in Devin and marks it stopped in the store.
+ * `actor` is who stopped it, for the audit log.
+ */
+export async function stopSession(sessionId: string, actor: string): Promise<SessionRecord | null> {
+  await terminateSession(sessionId);
+
+  const record = await updateSessionRecord(sessionId, {
+    terminated_at: new Date().toISOString(),
+  });
+
+  await recordAudit({
+    actor,
+    action: 'session.terminated',
+    repository: record?.repository,
+    issue_number: record?.issue_number,
+    session_id: sessionId,
+    summary: record ? `Stopped ${record.type} session for #${record.issue_number}` : 'Stopped session',
+  });
+
+  // Pick up the final status so labels and the dashboard catch up right away
+  try {
+    await syncSession(await getSession(sessionId));
+  } catch (error) {
+    console.error('Refreshing stopped session failed:', error);
+  }
+
+  return record ? getSessionRecord(sessionId) : null;
+}
+
+/**
+ * Stops every session of the given type that is still working on the issue,
+ * e.g. before re-scoping. Returns the IDs of the stopped sessions.
+ */
+export async function stopActiveSessions(
+  repository: RepoRef,
+  issueNumber: number,
+  type: SessionType,
+  actor: string
+): Promise<string[]> {
+  const records = await listSessionsForIssue(repository, issueNumber);
+  const stopped: string[] = [];
+
+  for (const record of records.filter(r => r.type === type && isSessionActive(r))) {
+    try {
+      await stopSession(record.session_id, actor);
+      stopped.push(record.session_id);
+    } catch (error) {
+      // A session Devin no longer knows about has nothing left to stop
+      if (!(error instanceof Error && error.message.includes('Devin API error (404)'))) {
+        throw error;
+      }
+    }
+  }
+
+  return stopped;
+}
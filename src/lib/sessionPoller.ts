@@ -0,0 +1,220 @@
+import { getSession, toSessionSnapshot, type SessionSnapshot } from './devin';
+import { listSessions, type SessionRecord } from './sessionStore';
+import { isSessionActive, syncPullRequest, syncSession } from './sessionLifecycle';
+import { needsPullRequestRefresh } from './pullRequestTracker';
+import { deriveWorkflowStatus } from './workflowStatus';
+
+/**
+ * Server-Side Session Poller
+ *
+ * One polling loop per server process, shared by every browser. Sessions are
+ * polled while a dashboard is watching them (via the SSE stream), and recorded
+ * sessions that are still in flight are polled even when nobody is watching,
+ * so automations fire on status transitions without an open browser. Pull
+ * requests of sessions Devin is done with are followed on GitHub alone.
+ */
+
+export interface SessionUpdate {
+  session_id: string;
+  session: SessionSnapshot | null;
+  error: string | null;
+}
+
+export type SessionListener = (update: SessionUpdate) => void;
+
+interface WatchedSession {
+  listeners: Set<SessionListener>;
+  last: SessionUpdate | null;
+}
+
+interface PollerState {
+  watched: Map<string, WatchedSession>;
+  /** Sessions sent a message, polled until this time (ms) whatever their status */
+  resumed: Map<string, number>;
+  timer: ReturnType<typeof setInterval> | null;
+  isTicking: boolean;
+}
+
+const POLL_INTERVAL = 15000; // 15 seconds, per Devin's recommended 10-30s
+// Devin can take a while to pick up a message and leave `blocked`
+const RESUME_WINDOW = 2 * 60 * 1000;
+
+// Watched sessions in these states will not change again
+const FINAL_STATUSES = ['finished', 'failed', 'cancelled', 'expired'];
+
+/**
+ * Whether Devin has nothing more to report for a watched session: it ended,
+ * or its workflow status is terminal, like a scope that settled in `blocked`
+ * with its plan. Sessions sent a message are polled again for a while.
+ */
+function isDoneChanging(snapshot: SessionSnapshot, record: SessionRecord | undefined): boolean {
+  if (FINAL_STATUSES.includes(snapshot.status_enum)) return true;
+  if (!record) return false;
+
+  return deriveWorkflowStatus(
+    record.type,
+    snapshot.status_enum,
+    snapshot.structured_output,
+    snapshot.pull_request_url,
+    snapshot.pull_request_state,
+    snapshot.approval
+  ).isTerminal;
+}
+
+// Survive module reloads in development so only one loop ever runs
+const globalForPoller = globalThis as typeof globalThis & { __devinSessionPoller?: PollerState };
+const state: PollerState = globalForPoller.__devinSessionPoller ??= {
+  watched: new Map(),
+  resumed: new Map(),
+  timer: null,
+  isTicking: false,
+};
+
+function publish(update: SessionUpdate) {
+  const entry = state.watched.get(update.session_id);
+  if (!entry) return;
+
+  // Only notify on real changes
+  if (entry.last && JSON.stringify(entry.last) === JSON.stringify(update)) return;
+
+  entry.last = update;
+  entry.listeners.forEach(listener => listener(update));
+}
+
+async function pollSession(sessionId: string) {
+  try {
+    const session = await getSession(sessionId);
+    const record = await syncSession(session);
+    publish({
+      session_id: sessionId,
+      session: toSessionSnapshot(session, record?.pull_request, record?.approval),
+      error: null,
+    });
+  } catch (error) {
+    const message = error instanceof Error && error.message.includes('Devin API error (404)')
+      ? 'Session not found'
+      : error instanceof Error ? error.message : 'Failed to fetch session';
+    const previous = state.watched.get(sessionId)?.last?.session ?? null;
+    publish({ session_id: sessionId, session: previous, error: message });
+  }
+}
+
+async function pollPullRequest(record: SessionRecord) {
+  try {
+    const updated = await syncPullRequest(record);
+
+    // Devin's side hasn't changed, so only the PR part of the snapshot needs updating
+    const last = state.watched.get(record.session_id)?.last;
+    if (last?.session) {
+      publish({ ...last, session: { ...last.session, pull_request_state: updated.pull_request ?? null } });
+    }
+  } catch (error) {
+    console.error('Refreshing pull request failed:', error);
+  }
+}
+
+async function tick() {
+  if (state.isTicking) return;
+  state.isTicking = true;
+
+  try {
+    const ids = new Set<string>();
+    const records = await listSessions();
+    const recordsById = new Map(records.map(record => [record.session_id, record]));
+
+    state.watched.forEach((entry, sessionId) => {
+      const snapshot = entry.last?.session;
+      if (!snapshot || !isDoneChanging(snapshot, recordsById.get(sessionId))) ids.add(sessionId);
+    });
+
+    const now = Date.now();
+    state.resumed.forEach((until, sessionId) => {
+      if (until < now) state.resumed.delete(sessionId);
+      else ids.add(sessionId);
+    });
+
+    // Recorded sessions still in flight, so automations run unattended
+    const pullRequestRecords: SessionRecord[] = [];
+    for (const record of records) {
+      if (isSessionActive(record)) {
+        ids.add(record.session_id);
+      } else if (needsPullRequestRefresh(record)) {
+        pullRequestRecords.push(record);
+      }
+    }
+
+    for (const sessionId of ids) {
+      await pollSession(sessionId);
+    }
+
+    // Polling the others refreshes their PRs along the way; these only need
+    // GitHub, at the PR tracker's slower pace
+    for (const record of pullRequestRecords.filter(r => !ids.has(r.session_id))) {
+      await pollPullRequest(record);
+    }
+  } catch (error) {
+    console.error('Session poller tick failed:', error);
+  } finally {
+    state.isTicking = false;
+  }
+}
+
+/**
+ * Re-polls a session right away if anyone is watching it, for changes made
+ * in the dashboard (like an approval) that Devin's status wouldn't reveal.
+ */
+export function refreshWatchedSession(sessionId: string): Promise<void> {
+  return state.watched.has(sessionId) ? pollSession(sessionId) : Promise.resolve();
+}
+
+/**
+ * Keeps polling a session that was just sent a message, even if it looked
+ * done, until Devin has had time to pick the message up.
+ */
+export function resumePolling(sessionId: string) {
+  state.resumed.set(sessionId, Date.now() + RESUME_WINDOW);
+}
+
+/**
+ * Starts the shared polling loop if it is not already running.
+ */
+export function startSessionPoller() {
+  if (state.timer || !process.env.DEVIN_API_KEY) return;
+
+  state.timer = setInterval(tick, POLL_INTERVAL);
+  // Never keep the process alive just for polling
+  state.timer.unref?.();
+}
+
+/**
+ * Subscribes to updates for the given sessions. The listener receives the
+ * latest known state right away (fetching it if needed), then every change.
+ * Returns an unsubscribe function.
+ */
+export function watchSessions(sessionIds: string[], listener: SessionListener): () => void {
+  startSessionPoller();
+
+  for (const sessionId of sessionIds) {
+    let entry = state.watched.get(sessionId);
+    if (!entry) {
+      entry = { listeners: new Set(), last: null };
+      state.watched.set(sessionId, entry);
+      pollSession(sessionId);
+    } else if (entry.last) {
+      const last = entry.last;
+      queueMicrotask(() => listener(last));
+    }
+    entry.listeners.add(listener);
+  }
+
+  return () => {
+    for (const sessionId of sessionIds) {
+      const entry = state.watched.get(sessionId);
+      if (!entry) continue;
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        state.watched.delete(sessionId);
+      }
+    }
+  };
+}
@@ -0,0 +1,174 @@
+import { readStore, updateStore } from './store';
+import type { DevinSession } from './devin';
+import type { PullRequestState, ScopeApproval } from './workflowStatus';
+import type { PromptTemplateRef } from './promptTemplates';
+import type { PlaybookRef } from './playbook';
+import { toFullName, type RepoRef } from './repoConfig';
+
+export type SessionType = 'scope' | 'execute';
+
+export interface StatusChange {
+  status: string;
+  /** When the change was first observed */
+  at: string;
+}
+
+/**
+ * Last known state of the pull request opened by a session.
+ * Kept up to date from session polling and GitHub webhooks.
+ */
+export interface PullRequestRecord extends PullRequestState {
+  url: string;
+  number?: number;
+  head_ref?: string;
+  head_sha?: string;
+  updated_at: string;
+  /** When the PR was last refreshed from the GitHub API */
+  synced_at?: string;
+}
+
+/** Why a follow-up session was started on an existing PR */
+export type FollowUpKind = 'ci-fix' | 'review-response';
+
+/**
+ * A Devin session created by this dashboard, as persisted in the server store.
+ */
+export interface SessionRecord {
+  session_id: string;
+  type: SessionType;
+  /** Repository the issue belongs to, as `owner/repo` */
+  repository: string;
+  issue_number: number;
+  url: string;
+  title?: string;
+  created_at: string;
+  /** Scope session the plan was taken from (execute sessions only) */
+  scope_session_id?: string;
+  /** What started the session, e.g. `manual` or `label:devin:scope` */
+  trigger?: string;
+  /** Login of the signed-in user who started the session; unset for automations */
+  started_by?: string;
+  /** Prompt template version the session was started with */
+  prompt_template?: PromptTemplateRef;
+  /** Repository playbook revision appended to the prompt, if there was one */
+  playbook?: PlaybookRef;
+  /** Set on execute sessions that follow up on an earlier one's PR */
+  followup?: {
+    kind: FollowUpKind;
+    /** The execute session that opened the PR */
+    parent_session_id: string;
+  };
+  /** Last status_enum seen from Devin */
+  status_enum?: string;
+  /** Every status change seen from Devin, oldest first */
+  status_history?: StatusChange[];
+  /** Compute units Devin last reported for the session */
+  acus_consumed?: number;
+  /** Last updated_at reported by Devin */
+  updated_at?: string;
+  pull_request?: PullRequestRecord;
+  /** Scope results published to the issue (scope sessions only) */
+  scope_comment?: {
+    id: number;
+    url: string;
+    posted_at: string;
+  };
+  /** Two-person approval, in repositories that require it (scope sessions only) */
+  approval?: ScopeApproval;
+  /** When the session was stopped from the dashboard */
+  terminated_at?: string;
+  /** When the session was archived; archived sessions are hidden by default */
+  archived_at?: string;
+}
+
+export async function recordSession(record: SessionRecord): Promise<SessionRecord> {
+  return updateStore(data => {
+    const existing = data.sessions.findIndex(s => s.session_id === record.session_id);
+    if (existing >= 0) {
+      data.sessions[existing] = { ...data.sessions[existing], ...record };
+    } else {
+      data.sessions.push(record);
+    }
+    return record;
+  });
+}
+
+export async function getSessionRecord(sessionId: string): Promise<SessionRecord | null> {
+  const data = await readStore();
+  return data.sessions.find(s => s.session_id === sessionId) ?? null;
+}
+
+/**
+ * Lists every recorded session for an issue, oldest first.
+ */
+export async function listSessionsForIssue(repository: RepoRef, issueNumber: number): Promise<SessionRecord[]> {
+  const data = await readStore();
+  const fullName = toFullName(repository);
+  return data.sessions
+    .filter(s => s.repository === fullName && s.issue_number === issueNumber)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export async function listSessions(): Promise<SessionRecord[]> {
+  const data = await readStore();
+  return data.sessions;
+}
+
+/**
+ * Merges a partial update into a recorded session.
+ * Returns null if the session was not created by this dashboard.
+ */
+export async function updateSessionRecord(
+  sessionId: string,
+  patch: Partial<Omit<SessionRecord, 'session_id'>>
+): Promise<SessionRecord | null> {
+  return updateStore(data => {
+    const record = data.sessions.find(s => s.session_id === sessionId);
+    if (!record) return null;
+    Object.assign(record, patch);
+    return record;
+  });
+}
+
+/**
+ * Copies the latest Devin-reported state onto the recorded session, if any.
+ */
+export async function syncSessionRecord(session: DevinSession): Promise<SessionRecord | null> {
+  const record = await getSessionRecord(session.session_id);
+  if (!record) return null;
+
+  const pullRequestUrl = session.pull_request?.url;
+  const pullRequest = pullRequestUrl
+    ? record.pull_request?.url === pullRequestUrl
+      ? record.pull_request
+      : { url: pullRequestUrl, updated_at: new Date().toISOString() }
+    : record.pull_request;
+
+  const history = record.status_history ?? [];
+  const statusHistory = history[history.length - 1]?.status === session.status_enum
+    ? history
+    : [...history, { status: session.status_enum, at: new Date().toISOString() }];
+
+  return updateSessionRecord(session.session_id, {
+    status_enum: session.status_enum,
+    status_history: statusHistory,
+    acus_consumed: session.acus_consumed ?? record.acus_consumed,
+    updated_at: session.updated_at,
+    pull_request: pullRequest,
+  });
+}
+
+/**
+ * Sessions linked to a PR, matched by URL or by number within the repository.
+ */
+export async function findSessionsByPullRequest(
+  match: { url?: string; repository?: RepoRef; number?: number }
+): Promise<SessionRecord[]> {
+  const data = await readStore();
+  const fullName = match.repository ? toFullName(match.repository) : undefined;
+  return data.sessions.filter(s =>
+    s.pull_request !== undefined &&
+    ((match.url !== undefined && s.pull_request.url === match.url) ||
+      (match.number !== undefined && s.repository === fullName && s.pull_request.number === match.number))
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import type { SessionSnapshot } from './devin';
+
+/**
+ * Client-Side Session Store
+ *
+ * Every component showing a session subscribes here instead of polling.
+ * Subscribed sessions share EventSources on /api/sessions/stream, as few as
+ * the route's per-stream cap allows. A stream is reopened when its sessions
+ * change, so adding a session leaves the other full streams alone.
+ */
+
+export interface SessionStreamEntry {
+  session: SessionSnapshot | null;
+  error: string | null;
+}
+
+const EMPTY_ENTRY: SessionStreamEntry = { session: null, error: null };
+
+// Same as MAX_SESSIONS in the stream route, which rejects longer lists
+const MAX_SESSIONS_PER_STREAM = 100;
+
+interface StreamConnection {
+  sessionIds: Set<string>;
+  source: EventSource | null;
+  /** Sessions `source` was opened for */
+  connectedKey: string;
+}
+
+const entries = new Map<string, SessionStreamEntry>();
+const listeners = new Map<string, Set<() => void>>();
+
+let connections: StreamConnection[] = [];
+let reconnectScheduled = false;
+
+function setEntry(sessionId: string, entry: SessionStreamEntry) {
+  entries.set(sessionId, entry);
+  listeners.get(sessionId)?.forEach(listener => listener());
+}
+
+function openStream(key: string): EventSource {
+  const source = new EventSource(`/api/sessions/stream?ids=${encodeURIComponent(key)}`);
+  source.addEventListener('session', (event) => {
+    const update = JSON.parse((event as MessageEvent<string>).data);
+    const previous = entries.get(update.session_id);
+    setEntry(update.session_id, {
+      // Keep showing the last good data through transient errors
+      session: update.session ?? previous?.session ?? null,
+      error: update.error,
+    });
+  });
+  return source;
+}
+
+function reconnect() {
+  reconnectScheduled = false;
+
+  // Drop sessions nobody shows any more, then fill free slots with new ones
+  const assigned = new Set<string>();
+  for (const connection of connections) {
+    connection.sessionIds.forEach(id => {
+      if (listeners.has(id)) assigned.add(id);
+      else connection.sessionIds.delete(id);
+    });
+  }
+
+  for (const sessionId of listeners.keys()) {
+    if (assigned.has(sessionId)) continue;
+
+    let connection = connections.find(c => c.sessionIds.size < MAX_SESSIONS_PER_STREAM);
+    if (!connection) {
+      connection = { sessionIds: new Set(), source: null, connectedKey: '' };
+      connections.push(connection);
+    }
+    connection.sessionIds.add(sessionId);
+  }
+
+  for (const connection of connections) {
+    const key = Array.from(connection.sessionIds).sort().join(',');
+    if (key === connection.connectedKey && connection.source) continue;
+
+    connection.source?.close();
+    connection.connectedKey = key;
+    connection.source = key ? openStream(key) : null;
+  }
+
+  connections = connections.filter(connection => connection.source);
+}
+
+function scheduleReconnect() {
+  if (reconnectScheduled) return;
+  reconnectScheduled = true;
+  // Batch all subscription changes from one render into a single reconnect
+  queueMicrotask(reconnect);
+}
+
+export function subscribeSession(sessionId: string, listener: () => void): () => void {
+  let sessionListeners = listeners.get(sessionId);
+  if (!sessionListeners) {
+    sessionListeners = new Set();
+    listeners.set(sessionId, sessionListeners);
+    scheduleReconnect();
+  }
+  sessionListeners.add(listener);
+
+  return () => {
+    const current = listeners.get(sessionId);
+    if (!current) return;
+    current.delete(listener);
+    if (current.size === 0) {
+      listeners.delete(sessionId);
+      scheduleReconnect();
+    }
+  };
+}
+
+/**
+ * Fetches the session directly, e.g. to retry after an error.
+ */
+export async function refreshSession(sessionId: string): Promise<void> {
+  try {
+    const response = await fetch(`/api/sessions/${sessionId}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to fetch session');
+    }
+
+    setEntry(sessionId, { session: data, error: null });
+  } catch (err) {
+    setEntry(sessionId, {
+      session: entries.get(sessionId)?.session ?? null,
+      error: err instanceof Error ? err.message : 'Failed to fetch session',
+    });
+  }
+}
+
+/**
+ * Live state of a session, shared across every component that shows it.
+ */
+export function useSessionStream(sessionId: string | null): SessionStreamEntry {
+  const subscribe = useCallback(
+    (onChange: () => void) => (sessionId ? subscribeSession(sessionId, onChange) : () => {}),
+    [sessionId]
+  );
+  const getSnapshot = () => (sessionId ? entries.get(sessionId) ?? EMPTY_ENTRY : EMPTY_ENTRY);
+
+  return useSyncExternalStore(subscribe, getSnapshot, () => EMPTY_ENTRY);
+}
@@ -0,0 +1,100 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { SessionRecord } from './sessionStore';
+import type { IssueRecord } from './issueStore';
+import type { AutomationDecision } from './decisionLog';
+import type { PromptTemplateVersion } from './promptTemplates';
+import type { ScopeBatch } from './batchScope';
+import { getEnvRepo, toFullName } from './repoConfig';
+
+/**
+ * Local JSON File Store
+ *
+ * Server-side persistence for dashboard state. Everything lives in a single
+ * JSON document on disk so state is shared by every browser hitting this
+ * deployment, instead of being scoped to one user's localStorage.
+ */
+
+export interface StoreData {
+  sessions: SessionRecord[];
+  issues: IssueRecord[];
+  decisions: AutomationDecision[];
+  templates: PromptTemplateVersion[];
+  batches: ScopeBatch[];
+  /** X-GitHub-Delivery ids of recently processed webhooks, oldest first */
+  deliveries: string[];
+}
+
+const DEFAULT_STORE_PATH = '.data/store.json';
+
+function getStorePath(): string {
+  return path.resolve(process.cwd(), process.env.DEVIN_STORE_PATH || DEFAULT_STORE_PATH);
+}
+
+function emptyStore(): StoreData {
+  return {
+    sessions: [],
+    issues: [],
+    decisions: [],
+    templates: [],
+    batches: [],
+    deliveries: [],
+  };
+}
+
+/**
+ * Records written before multi-repo support have no `repository`; they
+ * belong to the repository that was configured through the environment.
+ */
+function migrateStore(data: StoreData): StoreData {
+  const envRepo = getEnvRepo();
+  if (!envRepo) return data;
+
+  const repository = toFullName(envRepo);
+  for (const record of [...data.sessions, ...data.issues, ...data.decisions]) {
+    record.repository ??= repository;
+  }
+  return data;
+}
+
+// Serialize writes so concurrent requests don't clobber each other
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+export async function readStore(): Promise<StoreData> {
+  try {
+    const raw = await fs.readFile(getStorePath(), 'utf8');
+    return migrateStore({ ...emptyStore(), ...JSON.parse(raw) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return emptyStore();
+    }
+    throw error;
+  }
+}
+
+async function writeStore(data: StoreData): Promise<void> {
+  const storePath = getStorePath();
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+
+  // Write to a temp file first so a crash never leaves a truncated store
+  const tempPath = `${storePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(tempPath, storePath);
+}
+
+/**
+ * Applies a mutation to the store and persists the result.
+ * The updater may mutate `data` in place; its return value is passed through.
+ */
+export function updateStore<T>(updater: (data: StoreData) => T): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const data = await readStore();
+    const result = updater(data);
+    await writeStore(data);
+    return result;
+  });
+
+  // Keep the queue alive even if this update fails
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
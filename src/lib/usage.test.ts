@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { listSessions, type SessionRecord } from './sessionStore';
+import { AutomationConfigSchema, loadAutomationConfig } from './automationConfig';
+import { assertWithinBudget, getSessionUsage } from './usage';
+
+vi.mock('./sessionStore', () => ({ listSessions: vi.fn() }));
+vi.mock('./automationConfig', async importOriginal => ({
+  ...(await importOriginal<typeof import('./automationConfig')>()),
+  loadAutomationConfig: vi.fn(),
+}));
+
+const NOW = '2026-10-15T12:00:00.000Z';
+
+function session(id: string, createdAt: string, fields: Partial<SessionRecord> = {}): SessionRecord {
+  return {
+    session_id: id,
+    type: 'scope',
+    repository: 'acme/widgets',
+    issue_number: 7,
+    url: `https://app.devin.ai/sessions/${id}`,
+    created_at: createdAt,
+    status_enum: 'finished',
+    status_history: [
+      { status: 'running', at: createdAt },
+      { status: 'finished', at: new Date(Date.parse(createdAt) + 30 * 60 * 1000).toISOString() },
+    ],
+    ...fields,
+  };
+}
+
+function setBudget(budget: unknown) {
+  vi.mocked(loadAutomationConfig).mockResolvedValue(AutomationConfigSchema.parse({ budget }));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  vi.mocked(listSessions).mockResolvedValue([
+    session('ses-1', '2026-10-15T08:00:00.000Z', { acus_consumed: 4 }),
+    session('ses-2', '2026-10-15T09:00:00.000Z', { acus_consumed: 6 }),
+    session('ses-3', '2026-10-14T09:00:00.000Z', { acus_consumed: 10 }),
+    session('ses-4', '2026-09-30T09:00:00.000Z', { acus_consumed: 100 }),
+  ]);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('assertWithinBudget', () => {
+  it('passes without limits', async () => {
+    setBudget({});
+    await expect(assertWithinBudget()).resolves.toBeUndefined();
+  });
+
+  it('passes under every limit', async () => {
+    setBudget({ daily: { sessions: 3, acus: 11, hours: 2 }, monthly: { sessions: 4, acus: 21 } });
+    await expect(assertWithinBudget()).resolves.toBeUndefined();
+  });
+
+  it('counts only today toward the daily limit', async () => {
+    setBudget({ daily: { sessions: 2 } });
+    await expect(assertWithinBudget()).rejects.toThrow(
+      'Devin budget exceeded: daily limit of 2 sessions reached. Daily usage resets at the start of the next UTC day.'
+    );
+
+    setBudget({ daily: { acus: 10 } });
+    await expect(assertWithinBudget()).rejects.toThrow('daily limit of 10 ACUs');
+
+    setBudget({ daily: { acus: 10.5 } });
+    await expect(assertWithinBudget()).resolves.toBeUndefined();
+  });
+
+  it('counts the whole month toward the monthly limit', async () => {
+    setBudget({ daily: { acus: 50 }, monthly: { acus: 20 } });
+    await expect(assertWithinBudget()).rejects.toThrow(
+      'monthly limit of 20 ACUs reached. Monthly usage resets at the start of the next UTC month.'
+    );
+  });
+
+  it('counts time of sessions still working', async () => {
+    setBudget({ daily: { hours: 2 } });
+    await expect(assertWithinBudget()).resolves.toBeUndefined();
+
+    vi.mocked(listSessions).mockResolvedValue([
+      session('ses-5', '2026-10-15T10:00:00.000Z', {
+        status_enum: 'running',
+        status_history: [{ status: 'running', at: '2026-10-15T10:00:00.000Z' }],
+      }),
+    ]);
+    await expect(assertWithinBudget()).rejects.toThrow('daily limit of 2 session hours');
+  });
+});
+
+describe('getSessionUsage', () => {
+  it('stops counting when a session settles or is stopped', () => {
+    const now = Date.parse(NOW);
+    expect(getSessionUsage(session('ses-1', '2026-10-15T08:00:00.000Z'), now).duration_seconds).toBe(1800);
+
+    const stopped = session('ses-2', '2026-10-15T11:00:00.000Z', {
+      status_enum: 'running',
+      status_history: [{ status: 'running', at: '2026-10-15T11:00:00.000Z' }],
+      terminated_at: '2026-10-15T11:10:00.000Z',
+    });
+    expect(getSessionUsage(stopped, now)).toEqual({ acus: 0, duration_seconds: 600, active_seconds: 600 });
+  });
+});
@@ -0,0 +1,273 @@
+import { listSessions, type SessionRecord, type StatusChange } from './sessionStore';
+import { isSessionActive, isSessionSettled } from './sessionLifecycle';
+import { loadAutomationConfig, type BudgetLimits } from './automationConfig';
+
+/**
+ * Usage & Budgets
+ *
+ * Totals what Devin sessions have used, from the session registry: how many
+ * were started, the compute units Devin reports, and how long they worked,
+ * derived from the status changes the poller observed. Usage counts toward
+ * the UTC day and month the session was started in. Budgets cap those
+ * totals; once one is used up, no new session is created until the period
+ * rolls over or the limit is raised.
+ */
+
+export interface UsageTotals {
+  sessions: number;
+  acus: number;
+  /** Seconds sessions spent before settling, including pending and paused time */
+  duration_seconds: number;
+  /** Seconds sessions spent running */
+  active_seconds: number;
+}
+
+export interface SessionUsage {
+  acus: number;
+  duration_seconds: number;
+  active_seconds: number;
+}
+
+export interface PeriodUsage extends UsageTotals {
+  /** `YYYY-MM-DD` for days, `YYYY-MM` for months */
+  period: string;
+}
+
+export interface RepositoryUsage extends UsageTotals {
+  repository: string;
+}
+
+export interface IssueUsage extends UsageTotals {
+  repository: string;
+  issue_number: number;
+  title?: string;
+}
+
+export type BudgetMetric = keyof BudgetLimits;
+
+export interface BudgetPeriodStatus {
+  /** `YYYY-MM-DD` or `YYYY-MM` */
+  period: string;
+  limits: BudgetLimits;
+  used: Record<BudgetMetric, number>;
+  /** Metrics whose limit has been reached */
+  exceeded: BudgetMetric[];
+}
+
+export interface BudgetStatus {
+  daily: BudgetPeriodStatus;
+  monthly: BudgetPeriodStatus;
+}
+
+export interface UsageReport {
+  daily: PeriodUsage[];
+  monthly: PeriodUsage[];
+  /** Over the `daily` window, busiest first */
+  by_repository: RepositoryUsage[];
+  /** Over the `daily` window, busiest first */
+  by_issue: IssueUsage[];
+  budget: BudgetStatus;
+}
+
+const MAX_ISSUES_IN_REPORT = 25;
+
+const METRIC_LABELS: Record<BudgetMetric, string> = {
+  sessions: 'sessions',
+  acus: 'ACUs',
+  hours: 'session hours',
+};
+
+function emptyTotals(): UsageTotals {
+  return { sessions: 0, acus: 0, duration_seconds: 0, active_seconds: 0 };
+}
+
+function addUsage(totals: UsageTotals, usage: SessionUsage) {
+  totals.sessions += 1;
+  totals.acus += usage.acus;
+  totals.duration_seconds += usage.duration_seconds;
+  totals.active_seconds += usage.active_seconds;
+}
+
+function toDay(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function toMonth(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 7);
+}
+
+/**
+ * The session's statuses over time, starting when it was created.
+ */
+function getStatusTimeline(record: SessionRecord): StatusChange[] {
+  const start = { status: 'pending', at: record.created_at };
+
+  if (record.status_history?.length) {
+    return [start, ...record.status_history];
+  }
+
+  // Recorded before status changes were tracked: all that is known is when
+  // it started and, once settled, when it last changed
+  const timeline = [{ status: 'running', at: record.created_at }];
+  if (isSessionSettled(record.status_enum) && record.updated_at) {
+    timeline.push({ status: record.status_enum!, at: record.updated_at });
+  }
+  return timeline;
+}
+
+export function getSessionUsage(record: SessionRecord, now = Date.now()): SessionUsage {
+  const timeline = getStatusTimeline(record);
+  // A session still working accrues time until now; a stopped one until it was stopped
+  const end = isSessionActive(record)
+    ? now
+    : record.terminated_at
+      ? Date.parse(record.terminated_at)
+      : Date.parse(timeline[timeline.length - 1].at);
+
+  let duration = 0;
+  let active = 0;
+
+  timeline.forEach((change, index) => {
+    const from = Date.parse(change.at);
+    const to = Math.min(index + 1 < timeline.length ? Date.parse(timeline[index + 1].at) : end, end);
+    const elapsed = Math.max(0, to - from);
+
+    if (!isSessionSettled(change.status)) duration += elapsed;
+    if (change.status === 'running') active += elapsed;
+  });
+
+  return {
+    acus: record.acus_consumed ?? 0,
+    duration_seconds: Math.round(duration / 1000),
+    active_seconds: Math.round(active / 1000),
+  };
+}
+
+function getUsedAmount(totals: UsageTotals, metric: BudgetMetric): number {
+  switch (metric) {
+    case 'sessions':
+      return totals.sessions;
+    case 'acus':
+      return totals.acus;
+    case 'hours':
+      return totals.duration_seconds / 3600;
+  }
+}
+
+function getPeriodStatus(period: string, limits: BudgetLimits, totals: UsageTotals): BudgetPeriodStatus {
+  const metrics = Object.keys(METRIC_LABELS) as BudgetMetric[];
+  const used = Object.fromEntries(
+    metrics.map(metric => [metric, getUsedAmount(totals, metric)])
+  ) as Record<BudgetMetric, number>;
+
+  return {
+    period,
+    limits,
+    used,
+    exceeded: metrics.filter(metric => limits[metric] !== null && used[metric] >= limits[metric]!),
+  };
+}
+
+function totalSince(sessions: SessionRecord[], matches: (createdAt: string) => boolean, now: number): UsageTotals {
+  const totals = emptyTotals();
+  for (const record of sessions.filter(s => matches(s.created_at))) {
+    addUsage(totals, getSessionUsage(record, now));
+  }
+  return totals;
+}
+
+export async function getBudgetStatus(now = Date.now()): Promise<BudgetStatus> {
+  const { budget } = await loadAutomationConfig();
+  const sessions = await listSessions();
+  const today = toDay(new Date(now));
+  const month = toMonth(new Date(now));
+
+  return {
+    daily: getPeriodStatus(today, budget.daily, totalSince(sessions, createdAt => toDay(createdAt) === today, now)),
+    monthly: getPeriodStatus(month, budget.monthly, totalSince(sessions, createdAt => toMonth(createdAt) === month, now)),
+  };
+}
+
+/**
+ * Throws once any daily or monthly budget is used up. Called before every
+ * Devin session is created.
+ */
+export async function assertWithinBudget(): Promise<void> {
+  const status = await getBudgetStatus();
+
+  for (const [name, period] of [['Daily', status.daily], ['Monthly', status.monthly]] as const) {
+    const metric = period.exceeded[0];
+    if (metric) {
+      throw new Error(
+        `Devin budget exceeded: ${name.toLowerCase()} limit of ${period.limits[metric]} ${METRIC_LABELS[metric]} reached. ` +
+        `${name} usage resets at the start of the next UTC ${name === 'Daily' ? 'day' : 'month'}.`
+      );
+    }
+  }
+}
+
+/**
+ * Usage for the last `days` days and `months` months (both including the
+ * current one), optionally limited to one repository.
+ */
+export async function getUsageReport(options: {
+  days: number;
+  months: number;
+  repository?: string;
+}): Promise<UsageReport> {
+  const now = Date.now();
+  const sessions = (await listSessions()).filter(s => !options.repository || s.repository === options.repository);
+
+  const daily = new Map<string, PeriodUsage>();
+  for (let i = options.days - 1; i >= 0; i--) {
+    const period = toDay(new Date(now - i * 24 * 60 * 60 * 1000));
+    daily.set(period, { period, ...emptyTotals() });
+  }
+
+  const monthly = new Map<string, PeriodUsage>();
+  const current = new Date(now);
+  for (let i = options.months - 1; i >= 0; i--) {
+    const period = toMonth(new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth() - i, 1)));
+    monthly.set(period, { period, ...emptyTotals() });
+  }
+
+  const byRepository = new Map<string, RepositoryUsage>();
+  const byIssue = new Map<string, IssueUsage>();
+
+  for (const record of sessions) {
+    const usage = getSessionUsage(record, now);
+
+    const month = monthly.get(toMonth(record.created_at));
+    if (month) addUsage(month, usage);
+
+    const day = daily.get(toDay(record.created_at));
+    if (!day) continue;
+    addUsage(day, usage);
+
+    let repository = byRepository.get(record.repository);
+    if (!repository) {
+      repository = { repository: record.repository, ...emptyTotals() };
+      byRepository.set(record.repository, repository);
+    }
+    addUsage(repository, usage);
+
+    const issueKey = `${record.repository}#${record.issue_number}`;
+    let issue = byIssue.get(issueKey);
+    if (!issue) {
+      issue = { repository: record.repository, issue_number: record.issue_number, title: record.title, ...emptyTotals() };
+      byIssue.set(issueKey, issue);
+    }
+    addUsage(issue, usage);
+  }
+
+  const busiestFirst = (a: UsageTotals, b: UsageTotals) =>
+    b.acus - a.acus || b.duration_seconds - a.duration_seconds || b.sessions - a.sessions;
+
+  return {
+    daily: [...daily.values()],
+    monthly: [...monthly.values()],
+    by_repository: [...byRepository.values()].sort(busiestFirst),
+    by_issue: [...byIssue.values()].sort(busiestFirst).slice(0, MAX_ISSUES_IN_REPORT),
+    budget: await getBudgetStatus(now),
+  };
+}
@@ -0,0 +1,146 @@
+import { createHmac } from 'crypto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RepoConfigSchema, getRepo } from './repoConfig';
+import { upsertIssueRecord } from './issueStore';
+import { updateStore, type StoreData } from './store';
+import { listAutomationsFor } from './automations';
+import { handleWebhookEvent, verifyWebhookSignature, type WebhookEvent } from './webhooks';
+
+vi.mock('./repoConfig', async importOriginal => ({
+  ...(await importOriginal<typeof import('./repoConfig')>()),
+  getRepo: vi.fn(),
+  getDefaultRepo: vi.fn(),
+}));
+vi.mock('./issueStore', () => ({ upsertIssueRecord: vi.fn() }));
+vi.mock('./sessionStore', () => ({
+  findSessionsByPullRequest: vi.fn(),
+  listSessionsForIssue: vi.fn(),
+  updateSessionRecord: vi.fn(),
+}));
+vi.mock('./store', () => ({ updateStore: vi.fn() }));
+vi.mock('./automations', () => ({ listAutomationsFor: vi.fn(), runAutomations: vi.fn() }));
+
+const SECRET = 's3cret';
+
+function sign(body: string, secret = SECRET): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+describe('verifyWebhookSignature', () => {
+  beforeAll(() => {
+    vi.stubEnv('GITHUB_WEBHOOK_SECRET', SECRET);
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts the signature of the raw body', () => {
+    const body = '{"action":"opened"}';
+    expect(verifyWebhookSignature(body, sign(body))).toBe(true);
+  });
+
+  it('rejects other bodies, secrets and header formats', () => {
+    const body = '{"action":"opened"}';
+    expect(verifyWebhookSignature('{"action":"closed"}', sign(body))).toBe(false);
+    expect(verifyWebhookSignature(body, sign(body, 'other'))).toBe(false);
+    expect(verifyWebhookSignature(body, sign(body).replace('sha256=', 'sha1='))).toBe(false);
+    expect(verifyWebhookSignature(body, sign(body).slice(0, -2))).toBe(false);
+    expect(verifyWebhookSignature(body, null)).toBe(false);
+  });
+
+  it('needs the secret to be configured', () => {
+    vi.stubEnv('GITHUB_WEBHOOK_SECRET', '');
+    expect(() => verifyWebhookSignature('{}', sign('{}'))).toThrow('GITHUB_WEBHOOK_SECRET');
+    vi.stubEnv('GITHUB_WEBHOOK_SECRET', SECRET);
+  });
+});
+
+describe('handleWebhookEvent deliveries', () => {
+  let data: StoreData;
+  const defer = vi.fn();
+
+  function issueEvent(deliveryId: string | null): WebhookEvent {
+    return {
+      name: 'issues',
+      action: 'edited',
+      deliveryId,
+      payload: {
+        repository: { full_name: 'acme/widgets' },
+        issue: { number: 7, title: 'Fix the thing', state: 'open', user: null, updated_at: '2026-10-01T00:00:00Z' },
+      },
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    data = { deliveries: [] } as unknown as StoreData;
+
+    // Serialized like the real store, so concurrent claims see each other
+    let queue: Promise<unknown> = Promise.resolve();
+    vi.mocked(updateStore).mockImplementation(updater => {
+      const run = queue.then(() => updater(data));
+      queue = run.catch(() => undefined);
+      return run;
+    });
+    vi.mocked(getRepo).mockResolvedValue(RepoConfigSchema.parse({ owner: 'acme', repo: 'widgets' }));
+    vi.mocked(listAutomationsFor).mockReturnValue(['auto-scope']);
+  });
+
+  it('processes a delivery once', async () => {
+    expect((await handleWebhookEvent(issueEvent('d-1'), defer)).handled).toBe(true);
+
+    const repeat = await handleWebhookEvent(issueEvent('d-1'), defer);
+    expect(repeat.handled).toBe(false);
+    expect(repeat.detail).toBe('Delivery d-1 was already processed');
+    expect(upsertIssueRecord).toHaveBeenCalledTimes(1);
+    expect(defer).toHaveBeenCalledTimes(1);
+  });
+
+  it('processes one of two concurrent copies', async () => {
+    const results = await Promise.all([
+      handleWebhookEvent(issueEvent('d-1'), defer),
+      handleWebhookEvent(issueEvent('d-1'), defer),
+    ]);
+
+    expect(results.map(r => r.handled).sort()).toEqual([false, true]);
+    expect(defer).toHaveBeenCalledTimes(1);
+  });
+
+  it('processes deliveries without an ID every time', async () => {
+    await handleWebhookEvent(issueEvent(null), defer);
+    await handleWebhookEvent(issueEvent(null), defer);
+
+    expect(upsertIssueRecord).toHaveBeenCalledTimes(2);
+    expect(data.deliveries).toEqual([]);
+  });
+
+  it('lets a failed delivery be redelivered', async () => {
+    vi.mocked(upsertIssueRecord).mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(handleWebhookEvent(issueEvent('d-1'), defer)).rejects.toThrow('disk full');
+    expect(data.deliveries).toEqual([]);
+
+    expect((await handleWebhookEvent(issueEvent('d-1'), defer)).handled).toBe(true);
+    expect(defer).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not claim deliveries for unconfigured repositories', async () => {
+    vi.mocked(getRepo).mockRejectedValue(new Error('Repository acme/widgets is not configured'));
+
+    const result = await handleWebhookEvent(issueEvent('d-1'), defer);
+
+    expect(result.detail).toBe('Ignored event for acme/widgets');
+    expect(data.deliveries).toEqual([]);
+  });
+
+  it('remembers the most recent 1000 deliveries', async () => {
+    data.deliveries = Array.from({ length: 1000 }, (_, i) => `old-${i}`);
+
+    await handleWebhookEvent(issueEvent('d-1'), defer);
+
+    expect(data.deliveries).toHaveLength(1000);
+    expect(data.deliveries[0]).toBe('old-1');
+    expect(data.deliveries[999]).toBe('d-1');
+  });
+});
@@ -0,0 +1,301 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getRepo, getDefaultRepo, parseFullName, toFullName, type RepoConfig } from './repoConfig';
+import { upsertIssueRecord, type IssueRecord } from './issueStore';
+import {
+  findSessionsByPullRequest,
+  listSessionsForIssue,
+  updateSessionRecord,
+  type PullRequestRecord,
+} from './sessionStore';
+import { updateStore } from './store';
+import { listAutomationsFor, runAutomations } from './automations';
+
+/**
+ * GitHub Webhook Handling
+ *
+ * Verifies webhook deliveries and folds `issues`, `issue_comment`,
+ * `pull_request`, `pull_request_review` and `check_suite` events into the
+ * server store, then hands the event to any registered automations once
+ * the delivery has been answered. Deliveries are matched to a configured
+ * repository by `repository.full_name`; events from other repositories, and
+ * deliveries already processed, are ignored.
+ */
+
+export interface WebhookEvent {
+  /** Value of the X-GitHub-Event header */
+  name: string;
+  action?: string;
+  deliveryId: string | null;
+  payload: Record<string, unknown>;
+}
+
+export interface WebhookResult {
+  event: string;
+  handled: boolean;
+  detail?: string;
+  updated: {
+    issues: number[];
+    sessions: string[];
+  };
+  /** Automations subscribed to the event; they run after the response */
+  automations: string[];
+}
+
+/** Runs a task once the response has been sent, e.g. Next's `after` */
+export type DeferTask = (task: () => Promise<unknown>) => void;
+
+// GitHub redelivers on request, usually within days; older ids are dropped
+const MAX_DELIVERIES = 1000;
+
+// Minimal payload shapes for the fields we read
+interface IssuePayload {
+  number: number;
+  title: string;
+  state: string;
+  labels?: Array<{ name: string; color?: string }>;
+  user: { login: string } | null;
+  updated_at: string;
+  comments?: number;
+  pull_request?: unknown;
+}
+
+interface PullRequestPayload {
+  number: number;
+  html_url: string;
+  state: 'open' | 'closed';
+  merged?: boolean;
+  body: string | null;
+  head: { ref: string; sha: string };
+}
+
+interface CheckSuitePayload {
+  head_sha: string;
+  pull_requests: Array<{ number: number }>;
+}
+
+function getWebhookSecret(): string {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error('GITHUB_WEBHOOK_SECRET environment variable is required');
+  }
+  return secret;
+}
+
+/**
+ * Checks the X-Hub-Signature-256 header against the raw request body.
+ */
+export function verifyWebhookSignature(rawBody: string, signatureHeader: string | null): boolean {
+  if (!signatureHeader?.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', getWebhookSecret()).update(rawBody).digest('hex')}`
+  );
+  const received = Buffer.from(signatureHeader);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Finds issues a PR claims to resolve ("Fixes #12", "Closes #34", ...).
+ */
+export function parseClosingReferences(body: string | null): number[] {
+  if (!body) return [];
+  const matches = body.matchAll(/\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s+#(\d+)/gi);
+  return Array.from(new Set(Array.from(matches, match => parseInt(match[1], 10))));
+}
+
+function toIssueRecord(repository: RepoConfig, issue: IssuePayload): IssueRecord {
+  return {
+    repository: toFullName(repository),
+    number: issue.number,
+    title: issue.title,
+    state: issue.state,
+    labels: (issue.labels || []).map(label => ({
+      name: label.name,
+      color: label.color || 'gray',
+    })),
+    author: issue.user?.login ?? null,
+    updated_at: issue.updated_at,
+    comments_count: issue.comments,
+  };
+}
+
+async function handleIssueEvent(event: WebhookEvent, repository: RepoConfig, result: WebhookResult) {
+  const issue = event.payload.issue as IssuePayload;
+
+  // Comments on PRs arrive as issue_comment events too
+  if (issue.pull_request) {
+    result.detail = 'Ignored pull request comment';
+    return;
+  }
+
+  const record = toIssueRecord(repository, issue);
+  if (event.name === 'issue_comment' && event.action === 'created') {
+    const comment = event.payload.comment as { created_at: string };
+    record.last_comment_at = comment.created_at;
+  }
+
+  await upsertIssueRecord(record);
+  result.updated.issues.push(issue.number);
+}
+
+async function handlePullRequestEvent(event: WebhookEvent, repository: RepoConfig, result: WebhookResult) {
+  const pr = event.payload.pull_request as PullRequestPayload;
+
+  const sessions = await findSessionsByPullRequest({ url: pr.html_url, repository, number: pr.number });
+
+  // Devin may not have reported the PR yet; fall back to the issues it closes
+  if (sessions.length === 0) {
+    for (const issueNumber of parseClosingReferences(pr.body)) {
+      const candidates = await listSessionsForIssue(repository, issueNumber);
+      const latestExecute = candidates.filter(s => s.type === 'execute' && !s.pull_request).pop();
+      if (latestExecute) sessions.push(latestExecute);
+    }
+  }
+
+  for (const session of sessions) {
+    // Link the PR and mark it stale; the PR tracker reads its full state
+    // from GitHub so status transitions are detected in one place
+    const pullRequest: PullRequestRecord = {
+      ...session.pull_request,
+      url: pr.html_url,
+      number: pr.number,
+      head_ref: pr.head.ref,
+      head_sha: pr.head.sha,
+      updated_at: new Date().toISOString(),
+      synced_at: undefined,
+    };
+    await updateSessionRecord(session.session_id, { pull_request: pullRequest });
+    result.updated.sessions.push(session.session_id);
+  }
+
+  if (sessions.length === 0) {
+    result.detail = `No sessions linked to PR #${pr.number}`;
+  }
+}
+
+async function handlePullRequestReviewEvent(event: WebhookEvent, repository: RepoConfig, result: WebhookResult) {
+  const pr = event.payload.pull_request as PullRequestPayload;
+
+  for (const session of await findSessionsByPullRequest({ url: pr.html_url, repository, number: pr.number })) {
+    if (!session.pull_request) continue;
+    await updateSessionRecord(session.session_id, {
+      pull_request: { ...session.pull_request, synced_at: undefined },
+    });
+    result.updated.sessions.push(session.session_id);
+  }
+}
+
+async function handleCheckSuiteEvent(event: WebhookEvent, repository: RepoConfig, result: WebhookResult) {
+  const suite = event.payload.check_suite as CheckSuitePayload;
+
+  for (const { number } of suite.pull_requests) {
+    const sessions = await findSessionsByPullRequest({ repository, number });
+    for (const session of sessions) {
+      if (!session.pull_request) continue;
+      await updateSessionRecord(session.session_id, {
+        pull_request: {
+          ...session.pull_request,
+          head_sha: suite.head_sha,
+          updated_at: new Date().toISOString(),
+          synced_at: undefined,
+        },
+      });
+      result.updated.sessions.push(session.session_id);
+    }
+  }
+}
+
+/**
+ * Marks a delivery as processed. False if it already was, so a redelivery
+ * can't start the same automations twice.
+ */
+function claimDelivery(deliveryId: string): Promise<boolean> {
+  return updateStore(data => {
+    if (data.deliveries.includes(deliveryId)) return false;
+    data.deliveries.push(deliveryId);
+    data.deliveries.splice(0, Math.max(0, data.deliveries.length - MAX_DELIVERIES));
+    return true;
+  });
+}
+
+/** Lets GitHub redeliver a delivery that failed */
+async function releaseDelivery(deliveryId: string): Promise<void> {
+  await updateStore(data => {
+    data.deliveries = data.deliveries.filter(id => id !== deliveryId);
+  });
+}
+
+async function applyEvent(event: WebhookEvent, repository: RepoConfig, result: WebhookResult): Promise<boolean> {
+  switch (event.name) {
+    case 'issues':
+    case 'issue_comment':
+      await handleIssueEvent(event, repository, result);
+      return true;
+
+    case 'pull_request':
+      await handlePullRequestEvent(event, repository, result);
+      return true;
+
+    case 'pull_request_review':
+      await handlePullRequestReviewEvent(event, repository, result);
+      return true;
+
+    case 'check_suite':
+      await handleCheckSuiteEvent(event, repository, result);
+      return true;
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Applies a verified webhook delivery to the store, then hands automations
+ * to `defer`: they can start Devin sessions, which would outlast GitHub's
+ * 10 second delivery timeout.
+ */
+export async function handleWebhookEvent(event: WebhookEvent, defer: DeferTask): Promise<WebhookResult> {
+  const result: WebhookResult = {
+    event: event.action ? `${event.name}.${event.action}` : event.name,
+    handled: true,
+    updated: { issues: [], sessions: [] },
+    automations: [],
+  };
+
+  // Ignore deliveries for repositories that aren't configured
+  const fullName = (event.payload.repository as { full_name?: string } | undefined)?.full_name;
+  const ref = fullName ? parseFullName(fullName) : null;
+  let repository: RepoConfig;
+  try {
+    repository = ref ? await getRepo(ref) : await getDefaultRepo();
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('is not configured')) {
+      return { ...result, handled: false, detail: `Ignored event for ${fullName}` };
+    }
+    throw error;
+  }
+
+  const { deliveryId } = event;
+  if (deliveryId && !(await claimDelivery(deliveryId))) {
+    return { ...result, handled: false, detail: `Delivery ${deliveryId} was already processed` };
+  }
+
+  try {
+    if (!(await applyEvent(event, repository, result))) {
+      return { ...result, handled: false, detail: `Unsupported event: ${event.name}` };
+    }
+  } catch (error) {
+    if (deliveryId) await releaseDelivery(deliveryId);
+    throw error;
+  }
+
+  result.automations = listAutomationsFor(event);
+  if (result.automations.length > 0) {
+    // runAutomations logs failures; nobody is waiting for the results
+    defer(() => runAutomations(event, repository));
+  }
+  return result;
+}
@@ -2,8 +2,8 @@
  * Workflow Status Utility
  * 
  * Derives human-readable workflow states from raw Devin session status_enum values.
- * This resolves confusion where scope sessions report "blocked" when actually awaiting
- * execution approval.
+ * This resolves confusion where scope sessions report "blocked" when they are
+ * actually done and waiting to be executed (or, where required, approved).
  */
 
 export type WorkflowKind = 'pending' | 'active' | 'success' | 'warning' | 'error';
@@ -21,18 +21,63 @@ export interface WorkflowStatus {
   needsAttention: boolean;
 }
 
+/**
+ * What is known about an execute session's pull request on GitHub.
+ */
+export interface PullRequestState {
+  state?: 'open' | 'closed';
+  merged?: boolean;
+  draft?: boolean;
+  /** GitHub's mergeable_state; `dirty` means merge conflicts */
+  mergeable_state?: string;
+  review_decision?: 'approved' | 'changes_requested' | null;
+  checks_status?: string;
+  checks_conclusion?: string | null;
+  /** Names of failing checks */
+  checks_failed?: string[];
+}
+
+export type ApprovalState = 'requested' | 'approved' | 'rejected';
+
+/** One step in a scope's approval, as shown in its history */
+export interface ApprovalEvent {
+  state: ApprovalState;
+  /** Login of who requested, approved or rejected */
+  actor: string;
+  at: string;
+  comment?: string;
+}
+
+/**
+ * Where a scope session stands in the two-person approval required by
+ * repositories with `requireApproval`.
+ */
+export interface ScopeApproval {
+  state: ApprovalState;
+  /** Who asked for the current round; they can't approve it themselves */
+  requested_by: string;
+  /** Every step, oldest first */
+  history: ApprovalEvent[];
+  /** The action plan as it was approved; execution runs this one */
+  approved_plan?: string;
+}
+
 /**
  * Derives a workflow status from session data.
  * 
  * Key mappings:
- * - Scope blocked + structured_output → "Awaiting approval" (not "Blocked")
+ * - Scope blocked + structured_output → "Scoped" (not "Blocked"), or its
+ *   approval state where the repository requires one
  * - Execute blocked → "Needs input" (true blocked state)
+ * - Execute finished with a PR → follows the PR (CI, review, merge)
  */
 export function deriveWorkflowStatus(
   type: 'scope' | 'execute',
   statusEnum: string | null,
   structuredOutput: Record<string, unknown> | null,
-  pullRequestUrl?: string | null
+  pullRequestUrl?: string | null,
+  pullRequest?: PullRequestState | null,
+  approval?: ScopeApproval | null
 ): WorkflowStatus {
   // No session exists
   if (!statusEnum) {
@@ -46,17 +91,23 @@ export function deriveWorkflowStatus(
 
   // Handle scope sessions
   if (type === 'scope') {
-    return deriveScopeStatus(statusEnum, structuredOutput);
+    return deriveScopeStatus(statusEnum, structuredOutput, approval);
   }
 
   // Handle execute sessions
-  return deriveExecuteStatus(statusEnum, structuredOutput, pullRequestUrl);
+  return deriveExecuteStatus(statusEnum, structuredOutput, pullRequestUrl, pullRequest);
 }
 
 function deriveScopeStatus(
   statusEnum: string,
-  structuredOutput: Record<string, unknown> | null
+  structuredOutput: Record<string, unknown> | null,
+  approval?: ScopeApproval | null
 ): WorkflowStatus {
+  // Once scoping is done, a scope that needs approval is only as far as its approval
+  if (approval && isScopeDone(statusEnum, structuredOutput)) {
+    return deriveApprovalStatus(approval);
+  }
+
   switch (statusEnum) {
     case 'queued':
     case 'pending':
@@ -80,7 +131,7 @@ function deriveScopeStatus(
       // but actually awaiting user to trigger execute
       if (structuredOutput) {
         return {
-          label: 'Awaiting approval',
+          label: 'Scoped',
           kind: 'success',
           detail: 'Scope complete — ready to execute',
           isTerminal: true,
@@ -148,7 +199,8 @@ function deriveScopeStatus(
 function deriveExecuteStatus(
   statusEnum: string,
   structuredOutput: Record<string, unknown> | null,
-  pullRequestUrl?: string | null
+  pullRequestUrl?: string | null,
+  pullRequest?: PullRequestState | null
 ): WorkflowStatus {
   switch (statusEnum) {
     case 'queued':
@@ -189,13 +241,7 @@ function deriveExecuteStatus(
     
     case 'finished':
       if (pullRequestUrl) {
-        return {
-          label: 'PR ready',
-          kind: 'success',
-          detail: 'Pull request created',
-          isTerminal: true,
-          needsAttention: false,
-        };
+        return derivePullRequestStatus(pullRequest);
       }
       return {
         label: 'Completed',
@@ -238,6 +284,128 @@ function deriveExecuteStatus(
   }
 }
 
+/**
+ * A finished scope's approval: waiting on a second person, approved, or
+ * rejected with their comment.
+ */
+function deriveApprovalStatus(approval: ScopeApproval): WorkflowStatus {
+  const latest = approval.history[approval.history.length - 1];
+
+  switch (approval.state) {
+    case 'approved':
+      return {
+        label: 'Approved',
+        kind: 'success',
+        detail: `Approved by ${latest?.actor ?? 'a reviewer'} — ready to execute`,
+        isTerminal: true,
+        needsAttention: false,
+      };
+
+    case 'rejected':
+      return {
+        label: 'Rejected',
+        kind: 'error',
+        detail: `Rejected by ${latest?.actor ?? 'a reviewer'}${latest?.comment ? `: ${latest.comment}` : ''}`,
+        isTerminal: true,
+        needsAttention: true,
+      };
+
+    default:
+      return {
+        label: 'Awaiting approval',
+        kind: 'warning',
+        detail: `Requested by ${approval.requested_by}; someone else must approve it before execute`,
+        isTerminal: true,
+        needsAttention: true,
+      };
+  }
+}
+
+/**
+ * Follows an execute session's PR once Devin is done with it.
+ * Problems that need someone to act come first, then CI, then review.
+ */
+function derivePullRequestStatus(pullRequest?: PullRequestState | null): WorkflowStatus {
+  if (pullRequest?.merged) {
+    return {
+      label: 'Merged',
+      kind: 'success',
+      detail: 'Pull request merged',
+      isTerminal: true,
+      needsAttention: false,
+    };
+  }
+
+  if (pullRequest?.state === 'closed') {
+    return {
+      label: 'PR closed',
+      kind: 'error',
+      detail: 'Pull request closed without merging',
+      isTerminal: true,
+      needsAttention: false,
+    };
+  }
+
+  if (pullRequest?.checks_conclusion === 'failure') {
+    const failed = pullRequest.checks_failed ?? [];
+    return {
+      label: 'CI failing',
+      kind: 'error',
+      detail: failed.length > 0 ? `Failing: ${failed.join(', ')}` : 'Some checks failed',
+      isTerminal: false,
+      needsAttention: true,
+    };
+  }
+
+  if (pullRequest?.mergeable_state === 'dirty') {
+    return {
+      label: 'Merge conflicts',
+      kind: 'warning',
+      detail: 'The PR conflicts with its base branch',
+      isTerminal: false,
+      needsAttention: true,
+    };
+  }
+
+  if (pullRequest?.review_decision === 'changes_requested') {
+    return {
+      label: 'Changes requested',
+      kind: 'warning',
+      detail: 'A reviewer requested changes',
+      isTerminal: false,
+      needsAttention: true,
+    };
+  }
+
+  if (pullRequest?.checks_status && pullRequest.checks_status !== 'completed') {
+    return {
+      label: 'CI running',
+      kind: 'active',
+      detail: 'Waiting for checks to finish',
+      isTerminal: false,
+      needsAttention: false,
+    };
+  }
+
+  if (pullRequest?.review_decision === 'approved') {
+    return {
+      label: 'Approved',
+      kind: 'success',
+      detail: 'Ready to merge',
+      isTerminal: false,
+      needsAttention: false,
+    };
+  }
+
+  return {
+    label: 'PR ready',
+    kind: 'success',
+    detail: pullRequest?.draft ? 'Draft pull request created' : 'Pull request awaiting review',
+    isTerminal: false,
+    needsAttention: false,
+  };
+}
+
 /**
  * Extracts a human-readable blocking reason from structured output.
  */
@@ -269,3 +437,59 @@ export function getWorkflowKindClass(kind: WorkflowKind): string {
     default: return 'pending';
   }
 }
+
+/**
+ * Returns the hex color (without `#`) for the workflow kind.
+ * Matches the dashboard's accent colors so GitHub labels look the same.
+ */
+export function getWorkflowKindColor(kind: WorkflowKind): string {
+  switch (kind) {
+    case 'pending': return '6e7681';
+    case 'active': return '58a6ff';
+    case 'success': return '3fb950';
+    case 'warning': return 'd29922';
+    case 'error': return 'f85149';
+    default: return '6e7681';
+  }
+}
+
+/**
+ * Whether the Devin session has ended for good, so it can no longer be
+ * messaged or stopped.
+ */
+export function isSessionEnded(statusEnum: string | null | undefined): boolean {
+  return statusEnum === 'finished' ||
+    statusEnum === 'failed' ||
+    statusEnum === 'cancelled' ||
+    statusEnum === 'expired';
+}
+
+// Devin only reads messages while the session is working or waiting on us
+const MESSAGEABLE_STATUSES = ['running', 'blocked'];
+
+/**
+ * Whether a message sent to the Devin session now would be read.
+ */
+export function isSessionMessageable(statusEnum: string | null | undefined): boolean {
+  return MESSAGEABLE_STATUSES.includes(statusEnum ?? '');
+}
+
+/**
+ * Whether scoping is done, so there is a plan to approve.
+ */
+export function isScopeDone(statusEnum: string, structuredOutput: Record<string, unknown> | null): boolean {
+  return statusEnum === 'finished' || (statusEnum === 'blocked' && structuredOutput !== null);
+}
+
+/**
+ * Whether a scope's plan is held for approval: once it is up for review or
+ * approved, messaging Devin could change it from what the reviewer signs off.
+ */
+export function isScopePlanLocked(
+  statusEnum: string,
+  structuredOutput: Record<string, unknown> | null,
+  approval: ScopeApproval | null | undefined
+): boolean {
+  return approval?.state === 'approved' ||
+    (approval?.state === 'requested' && isScopeDone(statusEnum, structuredOutput));
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, getRequiredRole, type AuthUser } from '@/lib/auth';
+import { hasRole } from '@/lib/roles';
+
+/**
+ * Auth Proxy
+ *
+ * Runs before every page and API route. Signed-out visitors are sent to the
+ * login page (pages) or get a 401 (API); API requests from users whose role
+ * is too low for them get a 403, so no route can be reached around it.
+ */
+
+// Reachable signed out. The webhook verifies its own signature instead.
+const PUBLIC_PATHS = [/^\/login$/, /^\/api\/auth\//, /^\/api\/webhooks\/github$/];
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (PUBLIC_PATHS.some(pattern => pattern.test(pathname))) {
+    return NextResponse.next();
+  }
+
+  const isApi = pathname.startsWith('/api/');
+  let user: AuthUser | null;
+
+  try {
+    user = await getCurrentUser(request);
+  } catch (error) {
+    console.error('Error authenticating request:', error);
+
+    if (!isApi) {
+      // The login page explains what is misconfigured
+      return NextResponse.redirect(new URL('/login', request.url));
+    }
+
+    const message = error instanceof Error &&
+      (error.message.includes('environment variable') || error.message.includes('Invalid users config'))
+      ? error.message
+      : 'Failed to authenticate request';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  if (!user) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Sign in to use the dashboard' }, { status: 401 });
+    }
+    const login = new URL('/login', request.url);
+    login.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(login);
+  }
+
+  if (isApi) {
+    const required = getRequiredRole(request.method, pathname);
+    if (!hasRole(user, required)) {
+      return NextResponse.json(
+        { error: `This needs the ${required} role; you are signed in as ${user.role}` },
+        { status: 403 }
+      );
+    }
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};